@@ -1,6 +1,12 @@
 import type { NextConfig } from "next";
 
+// Ties the service worker's cache names to the deployed build
+const BUILD_ID = process.env.VERCEL_GIT_COMMIT_SHA?.slice(0, 12) ?? Date.now().toString(36);
+
 const nextConfig: NextConfig = {
+  env: {
+    NEXT_PUBLIC_BUILD_ID: BUILD_ID,
+  },
   typescript: {
     ignoreBuildErrors: true, // Temporarily ignore TypeScript errors for Three.js types
   },
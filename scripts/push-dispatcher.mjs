@@ -0,0 +1,38 @@
+// Local notification dispatcher: runs a dispatch pass on the app every few seconds.
+// Usage: PUSH_DISPATCH_SECRET=... pnpm push:dispatch (with `pnpm dev` or `pnpm start` running)
+
+const APP_URL = process.env.PUSH_DISPATCH_URL ?? 'http://localhost:3000';
+const SECRET = process.env.PUSH_DISPATCH_SECRET;
+const INTERVAL_MS = Number(process.env.PUSH_DISPATCH_INTERVAL_MS ?? 15000);
+
+if (!SECRET) {
+  console.error('Set PUSH_DISPATCH_SECRET to the same value the app uses');
+  process.exit(1);
+}
+
+async function dispatchOnce() {
+  try {
+    const response = await fetch(`${APP_URL}/api/push/dispatch`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${SECRET}` }
+    });
+    const result = await response.json().catch(() => null);
+
+    if (!response.ok) {
+      console.warn(`Dispatch responded ${response.status}:`, result?.error ?? response.statusText);
+    } else if (result.events > 0 || result.removed > 0) {
+      console.log(`${new Date().toISOString()} events: ${result.events}, sent: ${result.sent}, removed: ${result.removed}`);
+    }
+  } catch (error) {
+    console.warn('Dispatch request failed:', error.message);
+  }
+}
+
+// Passes never overlap: the next one is scheduled after the previous finishes
+async function run() {
+  await dispatchOnce();
+  setTimeout(run, INTERVAL_MS);
+}
+
+console.log(`Dispatching push notifications through ${APP_URL} every ${INTERVAL_MS / 1000}s`);
+run();
@@ -1,12 +1,21 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { useCurrentAccount, useSuiClient, useSignAndExecuteTransaction } from '@mysten/dapp-kit';
+import { useCurrentAccount, useSuiClient } from '@mysten/dapp-kit';
 import { Transaction } from '@mysten/sui/transactions';
 import { useRouter } from 'next/navigation';
 import { useToast } from '@/app/components/Toaster';
 import { useWalrusClient } from '@/web3/walrusClient';
 import { useCheckpoints } from '@/hooks/useCheckpoints';
+import { useSuimmingTransaction } from '@/hooks/useSuimmingTransaction';
+import * as suimming from '@/web3/suimming';
+import {
+    createCheckpointMetadata,
+    DEFAULT_DWELL_MS,
+    DEFAULT_GEOFENCE_RADIUS_METERS,
+    DWELL_MS_LIMITS,
+    GEOFENCE_RADIUS_LIMITS
+} from '@/utils/checkpointMetadata';
 
 interface CheckpointFormData {
     latitude: string;
@@ -14,6 +23,39 @@ interface CheckpointFormData {
     label: string;
     description: string;
     image_url: string;
+    geofence_radius: string;
+    dwell_seconds: string;
+    polygon: string; // one "lat, lng" vertex per line, empty for a radius geofence
+}
+
+const INITIAL_FORM_DATA: CheckpointFormData = {
+    latitude: '',
+    longitude: '',
+    label: '',
+    description: '',
+    image_url: '',
+    geofence_radius: String(DEFAULT_GEOFENCE_RADIUS_METERS),
+    dwell_seconds: String(DEFAULT_DWELL_MS / 1000),
+    polygon: ''
+};
+
+/**
+ * Parse the polygon textarea into vertices
+ * @returns Vertices (empty when the field is blank), or null if a line is not a valid "lat, lng" pair
+ */
+function parsePolygonInput(text: string): { lat: number; lng: number }[] | null {
+    const lines = text.split('\n').map(line => line.trim()).filter(Boolean);
+    const vertices: { lat: number; lng: number }[] = [];
+
+    for (const line of lines) {
+        const [lat, lng] = line.split(',').map(part => parseFloat(part.trim()));
+        if (!Number.isFinite(lat) || !Number.isFinite(lng) || lat < -90 || lat > 90 || lng < -180 || lng > 180) {
+            return null;
+        }
+        vertices.push({ lat, lng });
+    }
+
+    return vertices;
 }
 
 export default function AdminPage() {
@@ -21,17 +63,11 @@ export default function AdminPage() {
     const suiClient = useSuiClient();
     const router = useRouter();
     const { addNotification } = useToast();
-    const { mutate: signAndExecuteTransaction } = useSignAndExecuteTransaction();
+    const { runTransaction } = useSuimmingTransaction();
     const { uploadJSON } = useWalrusClient(suiClient, 'testnet');
-    const { checkpoints, loading: checkpointsLoading, error: checkpointsError, refetch: refetchCheckpoints } = useCheckpoints();
-
-    const [formData, setFormData] = useState<CheckpointFormData>({
-        latitude: '',
-        longitude: '',
-        label: '',
-        description: '',
-        image_url: ''
-    });
+    const { checkpoints, skipped: skippedCheckpoints, loading: checkpointsLoading, error: checkpointsError, refetch: refetchCheckpoints } = useCheckpoints();
+
+    const [formData, setFormData] = useState<CheckpointFormData>(INITIAL_FORM_DATA);
     const [isLoading, setIsLoading] = useState(false);
     const [hasAdminCap, setHasAdminCap] = useState<boolean | null>(null);
     const [adminCapId, setAdminCapId] = useState<string | null>(null);
@@ -48,7 +84,7 @@ export default function AdminPage() {
                 const adminCapObjects = await suiClient.getOwnedObjects({
                     owner: currentAccount.address,
                     filter: {
-                        StructType: `${process.env.NEXT_PUBLIC_SUIMMING_PACKAGE_ID}::checkpoint::AdminCap`
+                        StructType: suimming.SUIMMING_TYPES.adminCap
                     }
                 });
 
@@ -99,6 +135,28 @@ export default function AdminPage() {
             return false;
         }
 
+        const radius = parseFloat(formData.geofence_radius);
+        if (isNaN(radius) || radius < GEOFENCE_RADIUS_LIMITS.min || radius > GEOFENCE_RADIUS_LIMITS.max) {
+            addNotification('error', `Geofence radius must be between ${GEOFENCE_RADIUS_LIMITS.min} and ${GEOFENCE_RADIUS_LIMITS.max} meters`);
+            return false;
+        }
+
+        const dwellMs = parseFloat(formData.dwell_seconds) * 1000;
+        if (isNaN(dwellMs) || dwellMs < DWELL_MS_LIMITS.min || dwellMs > DWELL_MS_LIMITS.max) {
+            addNotification('error', `Dwell time must be between ${DWELL_MS_LIMITS.min / 1000} and ${DWELL_MS_LIMITS.max / 1000} seconds`);
+            return false;
+        }
+
+        const polygon = parsePolygonInput(formData.polygon);
+        if (!polygon) {
+            addNotification('error', 'Each polygon line must be a "lat, lng" pair');
+            return false;
+        }
+        if (polygon.length > 0 && polygon.length < 3) {
+            addNotification('error', 'A polygon geofence needs at least 3 vertices');
+            return false;
+        }
+
         return true;
     };
 
@@ -118,16 +176,16 @@ export default function AdminPage() {
 
         try {
             // Create metadata object with location and details
-            const metadata = {
+            const metadata = createCheckpointMetadata({
                 latitude: parseFloat(formData.latitude),
                 longitude: parseFloat(formData.longitude),
                 description: formData.description,
-                image_url: formData.image_url,
-                created_at: new Date().toISOString(),
-                created_by: currentAccount.address,
-                type: 'checkpoint_metadata',
-                version: '1.0'
-            };
+                imageUrl: formData.image_url,
+                createdBy: currentAccount.address,
+                geofenceRadius: parseFloat(formData.geofence_radius),
+                dwellMs: parseFloat(formData.dwell_seconds) * 1000,
+                polygon: parsePolygonInput(formData.polygon)
+            });
 
             addNotification('info', 'Uploading metadata to Walrus...');
 
@@ -139,52 +197,31 @@ export default function AdminPage() {
             addNotification('success', `Metadata uploaded to Walrus: ${metaWalrusId.slice(0, 8)}...`);
 
             const transaction = new Transaction();
-            const moveTarget = `${process.env.NEXT_PUBLIC_SUIMMING_PACKAGE_ID}::checkpoint::create_checkpoint`;
-
-            transaction.moveCall({
-                target: moveTarget,
-                arguments: [
-                    transaction.object(adminCapId),
-                    transaction.pure.string(formData.label),
-                    transaction.pure.string(metaWalrusId),
-                    transaction.pure.string(sealRef)
-                ]
+            suimming.checkpoint.createCheckpoint(transaction, {
+                adminCap: adminCapId,
+                label: formData.label,
+                metaWalrusId,
+                sealRef
             });
 
-            await new Promise((resolve, reject) => {
-                signAndExecuteTransaction(
-                    { transaction },
-                    {
-                        onSuccess: (result) => {
-                            console.log('Checkpoint creation successful:', result);
-                            addNotification('success', `Checkpoint "${formData.label}" created successfully!`);
-
-                            // Reset form
-                            setFormData({
-                                latitude: '',
-                                longitude: '',
-                                label: '',
-                                description: '',
-                                image_url: ''
-                            });
-
-                            // Refresh the checkpoints list
-                            refetchCheckpoints();
-
-                            resolve(result);
-                        },
-                        onError: (error) => {
-                            console.error('Checkpoint creation failed:', error);
-                            addNotification('error', 'Failed to create checkpoint. Please try again.');
-                            reject(error);
-                        }
-                    }
-                );
+            const result = await runTransaction(transaction, {
+                label: 'Creating checkpoint',
+                successMessage: `Checkpoint "${formData.label}" created successfully!`
             });
+            console.log('Checkpoint creation successful:', result);
+
+            // Reset form
+            setFormData(INITIAL_FORM_DATA);
+
+            // Refresh the checkpoints list
+            refetchCheckpoints();
 
         } catch (error) {
             console.error('Error creating checkpoint:', error);
-            addNotification('error', 'An error occurred while creating the checkpoint.');
+            // Transaction errors are already shown by the toaster
+            if (!(error instanceof suimming.SuimmingTransactionError)) {
+                addNotification('error', 'An error occurred while creating the checkpoint.');
+            }
         } finally {
             setIsLoading(false);
         }
@@ -196,34 +233,25 @@ export default function AdminPage() {
         setIsLoading(true);
         try {
             const transaction = new Transaction();
-            const moveTarget = `${process.env.NEXT_PUBLIC_SUIMMING_PACKAGE_ID}::checkpoint::create_admin_cap`;
+            suimming.checkpoint.createAdminCap(transaction);
 
-            transaction.moveCall({
-                target: moveTarget,
-                arguments: []
+            const result = await runTransaction(transaction, {
+                label: 'Requesting admin capabilities',
+                successMessage: 'Admin capabilities granted!'
             });
+            console.log('Admin cap creation successful:', result);
 
-            await new Promise((resolve, reject) => {
-                signAndExecuteTransaction(
-                    { transaction },
-                    {
-                        onSuccess: (result) => {
-                            console.log('Admin cap creation successful:', result);
-                            addNotification('success', 'Admin capabilities granted!');
-                            setHasAdminCap(true);
-                            resolve(result);
-                        },
-                        onError: (error) => {
-                            console.error('Admin cap creation failed:', error);
-                            addNotification('error', 'Failed to create admin capabilities.');
-                            reject(error);
-                        }
-                    }
-                );
-            });
+            const created = result.objectChanges?.find(
+                change => change.type === 'created' && change.objectType === suimming.SUIMMING_TYPES.adminCap
+            );
+            setHasAdminCap(true);
+            setAdminCapId(created?.type === 'created' ? created.objectId : null);
         } catch (error) {
             console.error('Error creating admin cap:', error);
-            addNotification('error', 'An error occurred while creating admin capabilities.');
+            // Transaction errors are already shown by the toaster
+            if (!(error instanceof suimming.SuimmingTransactionError)) {
+                addNotification('error', 'An error occurred while requesting admin capabilities.');
+            }
         } finally {
             setIsLoading(false);
         }
@@ -238,38 +266,24 @@ export default function AdminPage() {
         setIsLoading(true);
         try {
             const transaction = new Transaction();
-            const moveTarget = `${process.env.NEXT_PUBLIC_SUIMMING_PACKAGE_ID}::checkpoint::toggle_checkpoint`;
-
-            transaction.moveCall({
-                target: moveTarget,
-                arguments: [
-                    transaction.object(adminCapId),
-                    transaction.object(checkpointId),
-                    transaction.pure.bool(!currentlyActive)
-                ]
+            suimming.checkpoint.toggleCheckpoint(transaction, {
+                adminCap: adminCapId,
+                checkpoint: checkpointId,
+                active: !currentlyActive
             });
 
-            await new Promise((resolve, reject) => {
-                signAndExecuteTransaction(
-                    { transaction },
-                    {
-                        onSuccess: (result) => {
-                            console.log('Checkpoint toggle successful:', result);
-                            addNotification('success', `Checkpoint ${!currentlyActive ? 'activated' : 'deactivated'} successfully!`);
-                            refetchCheckpoints();
-                            resolve(result);
-                        },
-                        onError: (error) => {
-                            console.error('Checkpoint toggle failed:', error);
-                            addNotification('error', 'Failed to toggle checkpoint status.');
-                            reject(error);
-                        }
-                    }
-                );
+            const result = await runTransaction(transaction, {
+                label: !currentlyActive ? 'Activating checkpoint' : 'Deactivating checkpoint',
+                successMessage: `Checkpoint ${!currentlyActive ? 'activated' : 'deactivated'} successfully!`
             });
+            console.log('Checkpoint toggle successful:', result);
+            refetchCheckpoints();
         } catch (error) {
             console.error('Error toggling checkpoint:', error);
-            addNotification('error', 'An error occurred while toggling checkpoint status.');
+            // Transaction errors are already shown by the toaster
+            if (!(error instanceof suimming.SuimmingTransactionError)) {
+                addNotification('error', 'An error occurred while updating the checkpoint.');
+            }
         } finally {
             setIsLoading(false);
         }
@@ -565,6 +579,65 @@ export default function AdminPage() {
                             </div>
                         </div>
 
+                        {/* Geofence */}
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <label htmlFor="geofence_radius" className="block text-sm font-medium text-gray-700">
+                                    Geofence Radius (m)
+                                </label>
+                                <div className="mt-1">
+                                    <input
+                                        id="geofence_radius"
+                                        name="geofence_radius"
+                                        type="number"
+                                        min={GEOFENCE_RADIUS_LIMITS.min}
+                                        max={GEOFENCE_RADIUS_LIMITS.max}
+                                        value={formData.geofence_radius}
+                                        onChange={handleInputChange}
+                                        className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                                    />
+                                </div>
+                            </div>
+                            <div>
+                                <label htmlFor="dwell_seconds" className="block text-sm font-medium text-gray-700">
+                                    Dwell Time (s)
+                                </label>
+                                <div className="mt-1">
+                                    <input
+                                        id="dwell_seconds"
+                                        name="dwell_seconds"
+                                        type="number"
+                                        min={DWELL_MS_LIMITS.min / 1000}
+                                        max={DWELL_MS_LIMITS.max / 1000}
+                                        value={formData.dwell_seconds}
+                                        onChange={handleInputChange}
+                                        className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                                    />
+                                </div>
+                            </div>
+                        </div>
+
+                        {/* Polygon */}
+                        <div>
+                            <label htmlFor="polygon" className="block text-sm font-medium text-gray-700">
+                                Polygon Geofence
+                            </label>
+                            <div className="mt-1">
+                                <textarea
+                                    id="polygon"
+                                    name="polygon"
+                                    rows={4}
+                                    value={formData.polygon}
+                                    onChange={handleInputChange}
+                                    placeholder={'37.7694, -122.4862\n37.7710, -122.4545\n37.7657, -122.4540'}
+                                    className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md placeholder-gray-400 font-mono text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                                />
+                            </div>
+                            <p className="mt-1 text-xs text-gray-500">
+                                Optional. One &quot;lat, lng&quot; vertex per line (at least 3) to cover an area such as a park; replaces the radius.
+                            </p>
+                        </div>
+
                         {/* Current Position Helper */}
                         <div className="bg-blue-50 p-4 rounded-md">
                             <div className="flex items-center">
@@ -624,6 +697,35 @@ export default function AdminPage() {
                             </div>
 
                             {renderCheckpointsList()}
+
+                            {skippedCheckpoints.length > 0 && (
+                                <div className="mt-6 bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+                                    <h4 className="text-yellow-800 font-medium mb-2">
+                                        Skipped Checkpoints ({skippedCheckpoints.length})
+                                    </h4>
+                                    <p className="text-yellow-700 text-xs mb-3">
+                                        These checkpoints exist on-chain but are hidden from the map.
+                                    </p>
+                                    <div className="space-y-2">
+                                        {skippedCheckpoints.map(entry => (
+                                            <div key={entry.id} className="text-sm">
+                                                <div className="flex items-center justify-between">
+                                                    <span className="font-medium text-gray-900">{entry.label}</span>
+                                                    <span className="px-2 py-1 text-xs bg-yellow-100 text-yellow-800 rounded-full font-mono">
+                                                        {entry.reason}
+                                                    </span>
+                                                </div>
+                                                <p className="font-mono text-gray-500 text-xs">
+                                                    {entry.id.slice(0, 12)}...{entry.id.slice(-8)}
+                                                </p>
+                                                {entry.detail && (
+                                                    <p className="text-gray-600 text-xs">{entry.detail}</p>
+                                                )}
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
                         </div>
                     </div>
                 </div>
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { dispatchPushNotifications, isPushConfigured } from '@/utils/pushDispatch';
+import type { PushDispatchResponse, PushErrorResponse } from '@/types/push';
+
+/**
+ * Run one notification dispatch pass (called by scripts/push-dispatcher.mjs or a cron job)
+ * Requires `Authorization: Bearer <PUSH_DISPATCH_SECRET>`; responds 503 when push is not configured.
+ */
+export async function POST(request: Request) {
+  const secret = process.env.PUSH_DISPATCH_SECRET;
+  if (!secret || !isPushConfigured()) {
+    return NextResponse.json<PushErrorResponse>({ error: 'Push notifications are not configured' }, { status: 503 });
+  }
+  if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json<PushErrorResponse>({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json<PushDispatchResponse>(await dispatchPushNotifications());
+  } catch (error) {
+    console.error('Push dispatch failed:', error);
+    return NextResponse.json<PushErrorResponse>(
+      { error: error instanceof Error ? error.message : 'Push dispatch failed' },
+      { status: 502 }
+    );
+  }
+}
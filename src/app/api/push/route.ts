@@ -0,0 +1,92 @@
+import { NextResponse } from 'next/server';
+import { createRateLimiter, getClientIp } from '@/utils/rateLimit';
+import { removePushSubscriptions, savePushSubscription } from '@/utils/pushStore';
+import { verifyWalletSession, WalletSessionError } from '@/utils/walletSessionAuth';
+import type { PushErrorResponse, PushSubscribeRequest, PushTopic, PushUnsubscribeRequest } from '@/types/push';
+
+const PUSH_TOPICS: PushTopic[] = ['sales', 'nearby_checkpoints'];
+// How far away a new checkpoint may be to count as nearby
+const NEARBY_RADIUS_METERS = Number(process.env.PUSH_NEARBY_RADIUS_METERS ?? 2000);
+const MAX_PUSH_SUBSCRIPTIONS = Number(process.env.PUSH_MAX_SUBSCRIPTIONS ?? 10000);
+// Browsers a wallet can receive sale notifications on
+const MAX_SUBSCRIPTIONS_PER_ADDRESS = 5;
+// Push service URLs and keys are well under these; anything longer is not a real subscription
+const MAX_ENDPOINT_LENGTH = 1024;
+const MAX_KEY_LENGTH = 256;
+// Subscription changes per caller IP in 10 minutes
+const rateLimiter = createRateLimiter(20, 10 * 60 * 1000);
+
+function tooManyRequests() {
+  return NextResponse.json<PushErrorResponse>({ error: 'Too many push subscription changes, try again later' }, { status: 429 });
+}
+
+function isValidLocation(location: unknown): location is { lat: number; lng: number } {
+  const { lat, lng } = (location ?? {}) as Record<string, unknown>;
+  return typeof lat === 'number' && Math.abs(lat) <= 90 && typeof lng === 'number' && Math.abs(lng) <= 180;
+}
+
+/**
+ * Register a browser's push subscription, or update its topics and location
+ * Sale notifications need a wallet session and go to the wallet that signed it.
+ */
+export async function POST(request: Request) {
+  if (!rateLimiter.consume(getClientIp(request))) {
+    return tooManyRequests();
+  }
+
+  const body = await request.json().catch(() => null) as Partial<PushSubscribeRequest> | null;
+  const subscription = body?.subscription;
+  if (typeof subscription?.endpoint !== 'string' || !subscription.endpoint.startsWith('https://')
+    || subscription.endpoint.length > MAX_ENDPOINT_LENGTH
+    || typeof subscription.keys?.p256dh !== 'string' || subscription.keys.p256dh.length > MAX_KEY_LENGTH
+    || typeof subscription.keys?.auth !== 'string' || subscription.keys.auth.length > MAX_KEY_LENGTH) {
+    return NextResponse.json<PushErrorResponse>({ error: 'Expected a push subscription with endpoint and keys' }, { status: 400 });
+  }
+
+  const topics = Array.isArray(body?.topics) ? body.topics.filter(topic => PUSH_TOPICS.includes(topic)) : [];
+  let address: string | null = null;
+  if (topics.includes('sales')) {
+    try {
+      address = await verifyWalletSession(request);
+    } catch (error) {
+      return NextResponse.json<PushErrorResponse>(
+        { error: error instanceof Error ? error.message : 'Wallet session could not be checked' },
+        { status: error instanceof WalletSessionError ? error.status : 500 }
+      );
+    }
+    if (!rateLimiter.consume(address)) {
+      return tooManyRequests();
+    }
+  }
+
+  const saved = await savePushSubscription({
+    endpoint: subscription.endpoint,
+    keys: { p256dh: subscription.keys.p256dh, auth: subscription.keys.auth },
+    address,
+    topics,
+    location: isValidLocation(body?.location) ? { lat: body.location.lat, lng: body.location.lng } : null,
+    radiusMeters: NEARBY_RADIUS_METERS,
+    updatedAt: Date.now()
+  }, { maxSubscriptions: MAX_PUSH_SUBSCRIPTIONS, maxPerAddress: MAX_SUBSCRIPTIONS_PER_ADDRESS });
+  if (!saved) {
+    return NextResponse.json<PushErrorResponse>({ error: 'Push notifications are at capacity, try again later' }, { status: 503 });
+  }
+  return NextResponse.json({ ok: true });
+}
+
+/**
+ * Forget a browser's push subscription
+ */
+export async function DELETE(request: Request) {
+  if (!rateLimiter.consume(getClientIp(request))) {
+    return tooManyRequests();
+  }
+
+  const body = await request.json().catch(() => null) as Partial<PushUnsubscribeRequest> | null;
+  if (typeof body?.endpoint !== 'string') {
+    return NextResponse.json<PushErrorResponse>({ error: 'Expected an endpoint' }, { status: 400 });
+  }
+
+  await removePushSubscriptions([body.endpoint]);
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server';
+import { Transaction, TransactionDataBuilder } from '@mysten/sui/transactions';
+import { fromBase64, normalizeSuiAddress } from '@mysten/sui/utils';
+import { createRateLimiter } from '@/utils/rateLimit';
+import { getSponsorBackend, SponsorError } from '@/utils/sponsorBackend';
+import { verifyWalletSession, WalletSessionError } from '@/utils/walletSessionAuth';
+import type {
+  ExecuteSponsoredTransactionRequest,
+  ExecuteSponsoredTransactionResponse,
+  SponsorErrorResponse
+} from '@/types/sponsor';
+
+// Same budget as /api/sponsor: every sponsored transaction is executed once
+const SPONSOR_RATE_LIMIT_PER_HOUR = Number(process.env.SPONSOR_RATE_LIMIT_PER_HOUR ?? 60);
+const rateLimiter = createRateLimiter(SPONSOR_RATE_LIMIT_PER_HOUR, 60 * 60 * 1000);
+
+/**
+ * Execute a sponsored transaction once the sender has signed it
+ * Only the signed-in wallet can submit its own transactions, and the bytes must be the ones
+ * the digest names: the Enoki backend executes by digest, so the sender check relies on it.
+ */
+export async function POST(request: Request) {
+  const backend = getSponsorBackend();
+  if (!backend) {
+    return NextResponse.json<SponsorErrorResponse>({ error: 'Sponsorship is not configured' }, { status: 503 });
+  }
+
+  const body = await request.json().catch(() => null) as Partial<ExecuteSponsoredTransactionRequest> | null;
+  if (typeof body?.digest !== 'string' || typeof body.bytes !== 'string' || typeof body.signature !== 'string') {
+    return NextResponse.json<SponsorErrorResponse>({ error: 'Expected digest, bytes and signature' }, { status: 400 });
+  }
+
+  let sender: string | null | undefined;
+  let digest: string;
+  try {
+    sender = Transaction.from(body.bytes).getData().sender;
+    digest = TransactionDataBuilder.getDigestFromBytes(fromBase64(body.bytes));
+  } catch {
+    return NextResponse.json<SponsorErrorResponse>({ error: 'Transaction bytes could not be read' }, { status: 400 });
+  }
+  if (digest !== body.digest) {
+    return NextResponse.json<SponsorErrorResponse>({ error: 'Transaction bytes do not match the digest' }, { status: 400 });
+  }
+
+  try {
+    const address = await verifyWalletSession(request);
+    if (!sender || normalizeSuiAddress(sender) !== address) {
+      return NextResponse.json<SponsorErrorResponse>({ error: 'Sender does not match the signed-in wallet' }, { status: 403 });
+    }
+    if (!rateLimiter.consume(address)) {
+      return NextResponse.json<SponsorErrorResponse>({ error: 'Too many sponsored transactions, try again later' }, { status: 429 });
+    }
+  } catch (error) {
+    return NextResponse.json<SponsorErrorResponse>(
+      { error: error instanceof Error ? error.message : 'Wallet session could not be checked' },
+      { status: error instanceof WalletSessionError ? error.status : 500 }
+    );
+  }
+
+  try {
+    const executed = await backend.execute({ digest: body.digest, bytes: body.bytes, signature: body.signature });
+    return NextResponse.json<ExecuteSponsoredTransactionResponse>(executed);
+  } catch (error) {
+    console.error(`Sponsored execution through ${backend.name} failed:`, error);
+    return NextResponse.json<SponsorErrorResponse>(
+      { error: error instanceof Error ? error.message : 'Execution failed' },
+      { status: error instanceof SponsorError ? error.status : 502 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { isValidSuiAddress, normalizeSuiAddress } from '@mysten/sui/utils';
+import { createRateLimiter } from '@/utils/rateLimit';
+import { getSponsorBackend, SponsorError } from '@/utils/sponsorBackend';
+import { verifyWalletSession, WalletSessionError } from '@/utils/walletSessionAuth';
+import type { SponsorErrorResponse, SponsorTransactionRequest, SponsorTransactionResponse } from '@/types/sponsor';
+
+// Sponsored transactions per wallet per hour; claims are one per checkpoint per epoch, so players stay well below
+const SPONSOR_RATE_LIMIT_PER_HOUR = Number(process.env.SPONSOR_RATE_LIMIT_PER_HOUR ?? 60);
+const rateLimiter = createRateLimiter(SPONSOR_RATE_LIMIT_PER_HOUR, 60 * 60 * 1000);
+
+/**
+ * Sponsor a transaction kind for the sender
+ * The sender must match the request's wallet session. Responds 503 when no sponsor is configured,
+ * so clients fall back to paying gas themselves.
+ */
+export async function POST(request: Request) {
+  const backend = getSponsorBackend();
+  if (!backend) {
+    return NextResponse.json<SponsorErrorResponse>({ error: 'Sponsorship is not configured' }, { status: 503 });
+  }
+
+  const body = await request.json().catch(() => null) as Partial<SponsorTransactionRequest> | null;
+  if (typeof body?.transactionKindBytes !== 'string' || typeof body.sender !== 'string' || !isValidSuiAddress(body.sender)) {
+    return NextResponse.json<SponsorErrorResponse>({ error: 'Expected transactionKindBytes and a valid sender' }, { status: 400 });
+  }
+
+  try {
+    const address = await verifyWalletSession(request);
+    if (normalizeSuiAddress(body.sender) !== address) {
+      return NextResponse.json<SponsorErrorResponse>({ error: 'Sender does not match the signed-in wallet' }, { status: 403 });
+    }
+    if (!rateLimiter.consume(address)) {
+      return NextResponse.json<SponsorErrorResponse>({ error: 'Too many sponsored transactions, try again later' }, { status: 429 });
+    }
+  } catch (error) {
+    return NextResponse.json<SponsorErrorResponse>(
+      { error: error instanceof Error ? error.message : 'Wallet session could not be checked' },
+      { status: error instanceof WalletSessionError ? error.status : 500 }
+    );
+  }
+
+  try {
+    const sponsored = await backend.sponsor({ transactionKindBytes: body.transactionKindBytes, sender: body.sender });
+    return NextResponse.json<SponsorTransactionResponse>(sponsored);
+  } catch (error) {
+    console.error(`Sponsorship through ${backend.name} failed:`, error);
+    return NextResponse.json<SponsorErrorResponse>(
+      { error: error instanceof Error ? error.message : 'Sponsorship failed' },
+      { status: error instanceof SponsorError ? error.status : 502 }
+    );
+  }
+}
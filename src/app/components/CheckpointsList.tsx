@@ -1,14 +1,93 @@
 'use client';
 
-import React from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
 import { useCheckpoints, extractCoordinates } from '@/hooks/useCheckpoints';
+import { useToast } from '@/app/components/Toaster';
+import { buildCheckpointLink, shareMapLink } from '@/utils/mapLinks';
+import type { Location } from '@/types/location';
+import {
+  calculateDistance,
+  formatDistance,
+  formatLocation,
+  getMobileGeolocationOptions
+} from '@/utils/geoUtils';
+
+type StatusFilter = 'all' | 'active' | 'inactive';
+type SortOrder = 'distance' | 'label';
 
 /**
  * Component that displays all checkpoint coordinates from the blockchain
- * This demonstrates how to query all checkpoints and extract their lat/lng coordinates
+ * Players can search by label/description, filter by status, sort by distance
+ * from their current position and tap a checkpoint to open it on the map
  */
 export default function CheckpointsList() {
   const { checkpoints, loading, error, refetch } = useCheckpoints();
+  const router = useRouter();
+  const { addNotification } = useToast();
+  const [searchQuery, setSearchQuery] = useState('');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [sortOrder, setSortOrder] = useState<SortOrder>('distance');
+  const [currentPosition, setCurrentPosition] = useState<Location | null>(null);
+  const [positionError, setPositionError] = useState<string | null>(null);
+
+  // Current position for distance sorting
+  useEffect(() => {
+    if (!('geolocation' in navigator)) {
+      setPositionError('Geolocation is not supported');
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setCurrentPosition({
+          lat: position.coords.latitude,
+          lng: position.coords.longitude
+        });
+      },
+      (err) => {
+        console.warn('Could not get current position:', err);
+        setPositionError('Location unavailable - distances hidden');
+      },
+      getMobileGeolocationOptions()
+    );
+  }, []);
+
+  const visibleCheckpoints = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+
+    const results = checkpoints
+      .filter(cp => statusFilter === 'all' || cp.active === (statusFilter === 'active'))
+      .filter(cp =>
+        !query ||
+        cp.label.toLowerCase().includes(query) ||
+        cp.description.toLowerCase().includes(query)
+      )
+      .map(cp => ({
+        checkpoint: cp,
+        distance: currentPosition ? calculateDistance(currentPosition, cp) : null
+      }));
+
+    return results.sort((a, b) => {
+      if (sortOrder === 'distance' && a.distance !== null && b.distance !== null) {
+        return a.distance - b.distance;
+      }
+      return a.checkpoint.label.localeCompare(b.checkpoint.label);
+    });
+  }, [checkpoints, searchQuery, statusFilter, sortOrder, currentPosition]);
+
+  const openOnMap = (checkpointId: string) => {
+    router.push(`/map?checkpoint=${encodeURIComponent(checkpointId)}`);
+  };
+
+  const shareCheckpoint = async (checkpointId: string, label: string) => {
+    const result = await shareMapLink(buildCheckpointLink(checkpointId), `Suimming checkpoint: ${label}`);
+    if (result === 'copied') {
+      addNotification('success', 'Checkpoint link copied to clipboard!');
+    } else if (result === null) {
+      addNotification('error', 'Could not share checkpoint link.');
+    }
+  };
 
   if (loading) {
     return (
@@ -56,27 +135,96 @@ export default function CheckpointsList() {
         </button>
       </div>
 
+      {coordinates.length > 0 && (
+        <div className="flex flex-col sm:flex-row gap-2 mb-4">
+          <input
+            type="search"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            placeholder="Search by name or description..."
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          />
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="all">All</option>
+            <option value="active">Active</option>
+            <option value="inactive">Inactive</option>
+          </select>
+          <select
+            value={sortOrder}
+            onChange={(e) => setSortOrder(e.target.value as SortOrder)}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="distance" disabled={!currentPosition}>Nearest first</option>
+            <option value="label">Name (A-Z)</option>
+          </select>
+        </div>
+      )}
+
+      {positionError && coordinates.length > 0 && (
+        <p className="text-xs text-gray-500 mb-3">{positionError}</p>
+      )}
+
       {coordinates.length === 0 ? (
         <div className="text-center py-8 text-gray-500">
           <p>No checkpoints found on the blockchain.</p>
           <p className="text-sm mt-1">Create some checkpoints using the admin panel.</p>
         </div>
+      ) : visibleCheckpoints.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">
+          <p>No checkpoints match your search.</p>
+        </div>
       ) : (
         <div className="space-y-3">
-          {coordinates.map((coord, index) => (
-            <div key={coord.id} className="p-3 bg-gray-50 rounded border">
-              <div className="flex items-center justify-between">
-                <div>
-                  <h3 className="font-medium text-gray-900">{coord.label}</h3>
-                  <p className="text-sm text-gray-600 font-mono">
-                    {coord.lat.toFixed(6)}, {coord.lng.toFixed(6)}
-                  </p>
+          {visibleCheckpoints.map(({ checkpoint, distance }) => (
+            <div
+              key={checkpoint.id}
+              className="flex items-stretch bg-gray-50 rounded border hover:bg-blue-50 hover:border-blue-200 transition-colors"
+            >
+              <button
+                onClick={() => openOnMap(checkpoint.id)}
+                className="flex-1 min-w-0 text-left p-3"
+                title="Open on map"
+              >
+                <div className="flex items-center justify-between">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <h3 className="font-medium text-gray-900 truncate">{checkpoint.label}</h3>
+                      <span className={`px-2 py-0.5 text-xs rounded-full ${
+                        checkpoint.active
+                          ? 'bg-green-100 text-green-800'
+                          : 'bg-red-100 text-red-800'
+                      }`}>
+                        {checkpoint.active ? 'Active' : 'Inactive'}
+                      </span>
+                    </div>
+                    {checkpoint.description && (
+                      <p className="text-sm text-gray-600 truncate">{checkpoint.description}</p>
+                    )}
+                    <p className="text-sm text-gray-600 font-mono">
+                      {formatLocation(checkpoint)}
+                    </p>
+                  </div>
+                  {distance !== null && (
+                    <span className="ml-3 text-sm font-medium text-blue-700 whitespace-nowrap">
+                      {formatDistance(distance)}
+                    </span>
+                  )}
                 </div>
-                <span className="text-xs text-gray-500">#{index + 1}</span>
-              </div>
-              <p className="text-xs text-gray-400 mt-1 font-mono">
-                ID: {coord.id.slice(0, 8)}...{coord.id.slice(-8)}
-              </p>
+                <p className="text-xs text-gray-400 mt-1 font-mono">
+                  ID: {checkpoint.id.slice(0, 8)}...{checkpoint.id.slice(-8)}
+                </p>
+              </button>
+              <button
+                onClick={() => shareCheckpoint(checkpoint.id, checkpoint.label)}
+                className="px-3 text-xs text-blue-600 hover:text-blue-800 border-l"
+                title="Share a link to this checkpoint"
+              >
+                Share
+              </button>
             </div>
           ))}
         </div>
@@ -0,0 +1,44 @@
+'use client';
+
+import React from 'react';
+import { useInstallPrompt } from '@/hooks/useInstallPrompt';
+
+/**
+ * Invitation to install Suimming as an app, for quicker launches and offline play
+ */
+export default function InstallBanner() {
+  const { isVisible, canInstall, install, dismiss } = useInstallPrompt();
+
+  if (!isVisible) return null;
+
+  return (
+    <div className="bg-[#DEB887] text-[#8B4513] p-4 rounded-lg shadow-lg border-4 border-[#8B4513] mb-6">
+      <div className="flex items-start gap-3">
+        <div className="text-3xl leading-none">🦖</div>
+        <div className="flex-1 min-w-0">
+          <h3 className="font-bold">Install Suimming Map</h3>
+          <p className="text-sm opacity-75">
+            {canInstall
+              ? 'Launch it from your home screen and keep claiming letters with a weak signal.'
+              : 'Tap the Share button, then "Add to Home Screen" to install it.'}
+          </p>
+        </div>
+        <button
+          onClick={dismiss}
+          className="text-[#8B4513] hover:text-[#20B2AA] text-xl leading-none"
+          aria-label="Dismiss"
+        >
+          ×
+        </button>
+      </div>
+      {canInstall && (
+        <button
+          onClick={install}
+          className="mt-3 w-full bg-[#20B2AA] hover:bg-[#8B4513] text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors duration-200 border-2 border-[#8B4513]"
+        >
+          Install
+        </button>
+      )}
+    </div>
+  );
+}
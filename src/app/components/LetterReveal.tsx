@@ -0,0 +1,67 @@
+'use client';
+
+import React, { useEffect } from 'react';
+
+interface LetterRevealProps {
+  letters: string[];
+  checkpointLabel: string;
+  onClose: () => void;
+  onOpenBank?: () => void;
+}
+
+const LETTER_STAGGER_MS = 250;
+const AUTO_CLOSE_AFTER_MS = 4000; // after the last letter has appeared
+
+/**
+ * Full-screen reveal of the letters awarded by a claim, shown over the map
+ */
+export default function LetterReveal({ letters, checkpointLabel, onClose, onOpenBank }: LetterRevealProps) {
+  useEffect(() => {
+    const timeout = setTimeout(onClose, letters.length * LETTER_STAGGER_MS + AUTO_CLOSE_AFTER_MS);
+    return () => clearTimeout(timeout);
+  }, [letters, onClose]);
+
+  return (
+    <div
+      className="absolute inset-0 z-30 flex items-center justify-center bg-black/40 px-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-[#DEB887] p-6 rounded-2xl shadow-lg border-4 border-[#8B4513] text-center max-w-sm w-full"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 className="font-bold text-xl mb-1">🎉 New letters!</h3>
+        <p className="text-sm opacity-75 mb-4">Collected at {checkpointLabel}</p>
+
+        <div className="flex flex-wrap justify-center gap-2 mb-5" style={{ perspective: '600px' }}>
+          {letters.map((letter, index) => (
+            <div
+              key={`${letter}-${index}`}
+              className="letter-reveal w-12 h-14 flex items-center justify-center bg-[#F5F5DC] rounded-lg border-2 border-[#8B4513] shadow-md text-2xl font-bold"
+              style={{ animationDelay: `${index * LETTER_STAGGER_MS}ms` }}
+            >
+              {letter.toUpperCase()}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-3">
+          {onOpenBank && (
+            <button
+              onClick={onOpenBank}
+              className="flex-1 bg-[#20B2AA] hover:bg-[#8B4513] text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors duration-200 border-2 border-[#8B4513]"
+            >
+              Letter bank
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="flex-1 bg-[#8B4513] hover:bg-[#20B2AA] text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors duration-200 border-2 border-[#8B4513]"
+          >
+            Nice!
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,299 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import type { CheckpointCoordinates } from '@/hooks/useCheckpoints';
+import type { LocationWithAccuracy } from '@/types/location';
+import { formatLocation } from '@/utils/geoUtils';
+import {
+  ReplayLocationProvider,
+  SimulatedLocationProvider,
+  type LocationProvider
+} from '@/utils/locationProviders';
+import { parseGPXTrack } from '@/utils/sessionExport';
+
+interface LocationDebugPanelProps {
+  provider: LocationProvider;
+  checkpoints: CheckpointCoordinates[];
+  replayUrl?: string | null; // GPX file to load into the replay provider on mount
+}
+
+const STEP_SIZES = [5, 20, 100]; // meters per joystick press
+const REPLAY_SPEEDS = [1, 2, 5, 10];
+
+// Arrow keys / WASD to bearing
+const KEY_BEARINGS: Record<string, number> = {
+  ArrowUp: 0, w: 0,
+  ArrowRight: 90, d: 90,
+  ArrowDown: 180, s: 180,
+  ArrowLeft: 270, a: 270
+};
+
+/**
+ * Developer controls for simulated location sources
+ * Teleport/joystick for SimulatedLocationProvider, GPX loading and playback for ReplayLocationProvider.
+ */
+export default function LocationDebugPanel({ provider, checkpoints, replayUrl }: LocationDebugPanelProps) {
+  const [isOpen, setIsOpen] = useState(true);
+  const [fix, setFix] = useState<LocationWithAccuracy | null>(null);
+
+  // Follow the provider's output so the panel shows what the map receives
+  useEffect(() => {
+    const watchId = provider.watchLocation(setFix, () => { });
+    return () => provider.clearWatch(watchId);
+  }, [provider]);
+
+  return (
+    <div className="absolute top-48 right-4 z-20 w-64 bg-[#F5F5DC] text-[#8B4513] rounded-lg shadow-lg border-2 border-[#8B4513] text-xs">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full px-3 py-2 font-bold flex items-center justify-between"
+      >
+        <span>🛠️ Location: {provider.kind}</span>
+        <span>{isOpen ? '▾' : '▸'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="px-3 pb-3 space-y-3">
+          <div className="font-mono">
+            {fix ? `${formatLocation(fix, 5)} ±${fix.accuracy.toFixed(0)}m` : 'No fix yet'}
+          </div>
+
+          {provider instanceof SimulatedLocationProvider && (
+            <SimulatedControls provider={provider} checkpoints={checkpoints} />
+          )}
+          {provider instanceof ReplayLocationProvider && (
+            <ReplayControls provider={provider} replayUrl={replayUrl} />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SimulatedControls({ provider, checkpoints }: { provider: SimulatedLocationProvider; checkpoints: CheckpointCoordinates[] }) {
+  const [step, setStep] = useState(STEP_SIZES[1]);
+  const [accuracy, setAccuracy] = useState(provider.currentAccuracy);
+  const [target, setTarget] = useState('');
+
+  // Joystick on the keyboard, ignored while typing in a field
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.target instanceof HTMLInputElement || event.target instanceof HTMLSelectElement) return;
+
+      const bearing = KEY_BEARINGS[event.key];
+      if (bearing === undefined) return;
+
+      event.preventDefault();
+      provider.move(bearing, event.shiftKey ? step * 5 : step);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [provider, step]);
+
+  const teleportToTarget = () => {
+    const [lat, lng] = target.split(',').map(part => parseFloat(part.trim()));
+    if (Number.isFinite(lat) && Number.isFinite(lng)) {
+      provider.teleport({ lat, lng });
+    }
+  };
+
+  const teleportToCheckpoint = (checkpointId: string) => {
+    const checkpoint = checkpoints.find(cp => cp.id === checkpointId);
+    if (checkpoint) {
+      provider.teleport({ lat: checkpoint.lat, lng: checkpoint.lng });
+    }
+  };
+
+  const joystickButton = (label: string, bearing: number) => (
+    <button
+      onClick={() => provider.move(bearing, step)}
+      className="bg-[#20B2AA] hover:bg-[#8B4513] text-white rounded py-1 transition-colors"
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <>
+      <div className="grid grid-cols-3 gap-1 w-28 mx-auto">
+        <span />
+        {joystickButton('▲', 0)}
+        <span />
+        {joystickButton('◀', 270)}
+        <span className="text-center self-center">{step}m</span>
+        {joystickButton('▶', 90)}
+        <span />
+        {joystickButton('▼', 180)}
+        <span />
+      </div>
+      <p className="opacity-75 text-center">Arrow keys / WASD, Shift for 5×</p>
+
+      <div className="flex items-center gap-2">
+        <label>Step</label>
+        <select
+          value={step}
+          onChange={(e) => setStep(Number(e.target.value))}
+          className="flex-1 border border-[#8B4513] rounded px-1 py-0.5 bg-white"
+        >
+          {STEP_SIZES.map(size => <option key={size} value={size}>{size} m</option>)}
+        </select>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <label>Accuracy</label>
+        <input
+          type="range"
+          min={1}
+          max={150}
+          value={accuracy}
+          onChange={(e) => {
+            const value = Number(e.target.value);
+            setAccuracy(value);
+            provider.setAccuracy(value);
+          }}
+          className="flex-1"
+        />
+        <span className="w-10 text-right">{accuracy}m</span>
+      </div>
+
+      <div className="flex gap-1">
+        <input
+          type="text"
+          value={target}
+          onChange={(e) => setTarget(e.target.value)}
+          placeholder="lat, lng"
+          className="flex-1 min-w-0 border border-[#8B4513] rounded px-1 py-0.5 bg-white"
+        />
+        <button
+          onClick={teleportToTarget}
+          className="bg-[#8B4513] hover:bg-[#20B2AA] text-white rounded px-2 transition-colors"
+        >
+          Go
+        </button>
+      </div>
+
+      {checkpoints.length > 0 && (
+        <select
+          value=""
+          onChange={(e) => teleportToCheckpoint(e.target.value)}
+          className="w-full border border-[#8B4513] rounded px-1 py-0.5 bg-white"
+        >
+          <option value="">Teleport to checkpoint…</option>
+          {checkpoints.map(checkpoint => (
+            <option key={checkpoint.id} value={checkpoint.id}>{checkpoint.label}</option>
+          ))}
+        </select>
+      )}
+    </>
+  );
+}
+
+function ReplayControls({ provider, replayUrl }: { provider: ReplayLocationProvider; replayUrl?: string | null }) {
+  const [isPlaying, setIsPlaying] = useState(provider.isPlaying);
+  const [speed, setSpeed] = useState(provider.speed);
+  const [loop, setLoop] = useState(provider.loop);
+  const [progress, setProgress] = useState(provider.progress);
+  const [error, setError] = useState<string | null>(null);
+
+  // Playback state lives in the provider; poll it so the controls stay in sync when a track ends
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setIsPlaying(provider.isPlaying);
+      setProgress(provider.progress);
+    }, 500);
+    return () => clearInterval(interval);
+  }, [provider]);
+
+  const loadTrack = (xml: string) => {
+    try {
+      const track = parseGPXTrack(xml);
+      if (track.length === 0) {
+        setError('No track points in this file');
+        return;
+      }
+      provider.load(track);
+      setProgress(provider.progress);
+      setError(null);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Could not read GPX file');
+    }
+  };
+
+  useEffect(() => {
+    if (!replayUrl) return;
+
+    fetch(replayUrl)
+      .then(response => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        return response.text();
+      })
+      .then(loadTrack)
+      .catch(fetchError => setError(`Failed to load ${replayUrl}: ${fetchError.message}`));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [replayUrl]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (file) {
+      loadTrack(await file.text());
+    }
+  };
+
+  const togglePlayback = () => {
+    if (provider.isPlaying) {
+      provider.pause();
+    } else {
+      provider.play();
+    }
+    setIsPlaying(provider.isPlaying);
+  };
+
+  return (
+    <>
+      <input
+        type="file"
+        accept=".gpx,application/gpx+xml"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+        className="w-full"
+      />
+      {error && <p className="text-red-700">{error}</p>}
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={togglePlayback}
+          disabled={progress.length === 0}
+          className="bg-[#20B2AA] hover:bg-[#8B4513] text-white rounded px-3 py-1 transition-colors disabled:opacity-50"
+        >
+          {isPlaying ? '⏸ Pause' : '▶ Play'}
+        </button>
+        <span>{progress.length > 0 ? `${progress.index + 1}/${progress.length}` : 'No track'}</span>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <label>Speed</label>
+        <select
+          value={speed}
+          onChange={(e) => {
+            const value = Number(e.target.value);
+            setSpeed(value);
+            provider.speed = value;
+          }}
+          className="flex-1 border border-[#8B4513] rounded px-1 py-0.5 bg-white"
+        >
+          {REPLAY_SPEEDS.map(value => <option key={value} value={value}>{value}×</option>)}
+        </select>
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={loop}
+            onChange={(e) => {
+              setLoop(e.target.checked);
+              provider.loop = e.target.checked;
+            }}
+          />
+          Loop
+        </label>
+      </div>
+    </>
+  );
+}
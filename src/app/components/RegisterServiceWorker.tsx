@@ -0,0 +1,65 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { useToast } from '@/app/components/Toaster';
+
+// A new build registers a new worker URL, which the worker uses to version its caches
+const SERVICE_WORKER_URL = `/sw.js?build=${process.env.NEXT_PUBLIC_BUILD_ID ?? 'dev'}`;
+const SKIP_WAITING_MESSAGE = 'suimming:skip-waiting'; // handled in public/sw.js
+const UPDATE_PROMPT_DURATION_MS = 60000;
+
+export default function RegisterServiceWorker() {
+	const { showSheet } = useToast();
+	const showSheetRef = useRef(showSheet);
+	showSheetRef.current = showSheet;
+
+	useEffect(() => {
+		if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return;
+
+		let updateAccepted = false;
+
+		// The new worker waits until the player agrees to reload, so open pages never mix versions
+		const promptUpdate = (worker: ServiceWorker) => {
+			showSheetRef.current({
+				icon: '✨',
+				title: 'New version available',
+				message: 'Reload to get the latest Suimming Map.',
+				actionLabel: 'Reload',
+				onAction: () => {
+					updateAccepted = true;
+					worker.postMessage({ type: SKIP_WAITING_MESSAGE });
+				},
+				duration: UPDATE_PROMPT_DURATION_MS
+			});
+		};
+
+		const handleControllerChange = () => {
+			if (updateAccepted) window.location.reload();
+		};
+
+		navigator.serviceWorker.register(SERVICE_WORKER_URL).then((registration) => {
+			if (registration.waiting && navigator.serviceWorker.controller) {
+				promptUpdate(registration.waiting);
+			}
+
+			registration.addEventListener('updatefound', () => {
+				const installing = registration.installing;
+				if (!installing) return;
+
+				installing.addEventListener('statechange', () => {
+					// Without a controller this is the first install, not an update
+					if (installing.state === 'installed' && navigator.serviceWorker.controller) {
+						promptUpdate(installing);
+					}
+				});
+			});
+		}).catch((error) => {
+			console.warn('Service worker registration failed:', error);
+		});
+
+		navigator.serviceWorker.addEventListener('controllerchange', handleControllerChange);
+		return () => navigator.serviceWorker.removeEventListener('controllerchange', handleControllerChange);
+	}, []);
+
+	return null;
+}
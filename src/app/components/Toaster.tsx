@@ -8,16 +8,28 @@ interface Notification {
     message: string;
 }
 
+export interface Sheet {
+    icon?: string;
+    title: string;
+    message: string;
+    actionLabel?: string;
+    onAction?: () => void;
+    duration?: number; // milliseconds before auto-dismiss (default 6000)
+}
+
 interface ToastContextType {
     notifications: Notification[];
     addNotification: (type: 'success' | 'error' | 'info', message: string) => void;
     removeNotification: (id: string) => void;
+    showSheet: (sheet: Sheet) => void;
+    dismissSheet: () => void;
 }
 
 const ToastContext = createContext<ToastContextType | undefined>(undefined);
 
 export function ToastProvider({ children }: { children: ReactNode }) {
     const [notifications, setNotifications] = useState<Notification[]>([]);
+    const [sheet, setSheet] = useState<(Sheet & { id: string }) | null>(null);
 
     const addNotification = (type: 'success' | 'error' | 'info', message: string) => {
         const id = Math.random().toString(36).substring(2, 9);
@@ -35,10 +47,23 @@ export function ToastProvider({ children }: { children: ReactNode }) {
         setNotifications(prev => prev.filter(notif => notif.id !== id));
     };
 
+    // One sheet at a time; a new sheet replaces the current one
+    const showSheet = (next: Sheet) => {
+        const id = Math.random().toString(36).substring(2, 9);
+        setSheet({ ...next, id });
+
+        setTimeout(() => {
+            setSheet(current => (current?.id === id ? null : current));
+        }, next.duration ?? 6000);
+    };
+
+    const dismissSheet = () => setSheet(null);
+
     return (
-        <ToastContext.Provider value={{ notifications, addNotification, removeNotification }}>
+        <ToastContext.Provider value={{ notifications, addNotification, removeNotification, showSheet, dismissSheet }}>
             {children}
             <ToastContainer notifications={notifications} onRemove={removeNotification} />
+            {sheet && <SheetContainer sheet={sheet} onDismiss={dismissSheet} />}
         </ToastContext.Provider>
     );
 }
@@ -88,4 +113,37 @@ function ToastContainer({
             ))}
         </div>
     );
-}
\ No newline at end of file
+}
+
+function SheetContainer({ sheet, onDismiss }: { sheet: Sheet; onDismiss: () => void }) {
+    return (
+        <div className="fixed top-0 inset-x-0 z-50 flex justify-center px-4 pt-4 pointer-events-none">
+            <div className="pointer-events-auto w-full max-w-md bg-[#DEB887] text-[#8B4513] p-4 rounded-lg shadow-lg border-4 border-[#8B4513]">
+                <div className="flex items-start gap-3">
+                    {sheet.icon && <div className="text-3xl leading-none">{sheet.icon}</div>}
+                    <div className="flex-1 min-w-0">
+                        <h3 className="font-bold text-lg truncate">{sheet.title}</h3>
+                        <p className="text-sm opacity-75">{sheet.message}</p>
+                    </div>
+                    <button
+                        onClick={onDismiss}
+                        className="text-[#8B4513] hover:text-[#20B2AA] text-xl leading-none"
+                    >
+                        ×
+                    </button>
+                </div>
+                {sheet.actionLabel && sheet.onAction && (
+                    <button
+                        onClick={() => {
+                            sheet.onAction?.();
+                            onDismiss();
+                        }}
+                        className="mt-3 w-full bg-[#20B2AA] hover:bg-[#8B4513] text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors duration-200 border-2 border-[#8B4513]"
+                    >
+                        {sheet.actionLabel}
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+}
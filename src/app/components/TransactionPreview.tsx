@@ -0,0 +1,157 @@
+'use client';
+
+import React, { createContext, useContext, useRef, useState, ReactNode } from 'react';
+import { formatMist, type PreviewObject, type TransactionPreview } from '@/web3/suimming';
+
+interface PendingPreview {
+    label: string;
+    preview: TransactionPreview;
+}
+
+interface TransactionPreviewContextType {
+    // Resolves true when the player confirms, false when they cancel
+    confirmTransaction: (label: string, preview: TransactionPreview) => Promise<boolean>;
+}
+
+const TransactionPreviewContext = createContext<TransactionPreviewContextType | undefined>(undefined);
+
+export function TransactionPreviewProvider({ children }: { children: ReactNode }) {
+    const [pending, setPending] = useState<PendingPreview | null>(null);
+    const resolveRef = useRef<((confirmed: boolean) => void) | null>(null);
+
+    // One preview at a time; a new request cancels the one on screen
+    const confirmTransaction = (label: string, preview: TransactionPreview) => {
+        resolveRef.current?.(false);
+        setPending({ label, preview });
+
+        return new Promise<boolean>(resolve => {
+            resolveRef.current = resolve;
+        });
+    };
+
+    const settle = (confirmed: boolean) => {
+        resolveRef.current?.(confirmed);
+        resolveRef.current = null;
+        setPending(null);
+    };
+
+    return (
+        <TransactionPreviewContext.Provider value={{ confirmTransaction }}>
+            {children}
+            {pending && (
+                <PreviewDialog
+                    label={pending.label}
+                    preview={pending.preview}
+                    onConfirm={() => settle(true)}
+                    onCancel={() => settle(false)}
+                />
+            )}
+        </TransactionPreviewContext.Provider>
+    );
+}
+
+export function useTransactionPreview() {
+    const context = useContext(TransactionPreviewContext);
+    if (context === undefined) {
+        throw new Error('useTransactionPreview must be used within a TransactionPreviewProvider');
+    }
+    return context;
+}
+
+function shortType(objectType: string): string {
+    // "0xabc::nft::Sentence<...>" -> "Sentence"
+    return objectType.replace(/<.*>$/, '').split('::').pop() ?? objectType;
+}
+
+function shortAddress(address: string): string {
+    return `${address.slice(0, 6)}…${address.slice(-4)}`;
+}
+
+function PreviewDialog({
+    label,
+    preview,
+    onConfirm,
+    onCancel
+}: {
+    label: string;
+    preview: TransactionPreview;
+    onConfirm: () => void;
+    onCancel: () => void;
+}) {
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 px-4" onClick={onCancel}>
+            <div
+                className="w-full max-w-sm bg-[#DEB887] text-[#8B4513] p-5 rounded-2xl shadow-lg border-4 border-[#8B4513]"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <h3 className="font-bold text-lg mb-1">{label}</h3>
+                <p className="text-xs opacity-75 mb-4">Simulated against the current chain state</p>
+
+                <dl className="space-y-2 text-sm mb-4">
+                    <div className="flex justify-between">
+                        <dt>Estimated gas</dt>
+                        <dd className="font-medium">{formatMist(preview.gasMist)}</dd>
+                    </div>
+                    {preview.suiOutMist !== null && (
+                        <div className="flex justify-between">
+                            <dt>Leaving your wallet</dt>
+                            <dd className="font-medium">{formatMist(preview.suiOutMist)}</dd>
+                        </div>
+                    )}
+                </dl>
+
+                {preview.letters.length > 0 && (
+                    <div className="mb-4">
+                        <p className="text-sm mb-2">Letters used from your bank</p>
+                        <div className="flex flex-wrap gap-1">
+                            {preview.letters.map((letter, index) => (
+                                <span
+                                    key={`${letter}-${index}`}
+                                    className="w-7 h-8 flex items-center justify-center bg-[#F5F5DC] rounded border-2 border-[#8B4513] text-sm font-bold"
+                                >
+                                    {letter.toUpperCase()}
+                                </span>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
+                <ObjectList title="Created" objects={preview.created} />
+                <ObjectList title="Transferred" objects={preview.transferred} />
+
+                <div className="flex gap-3 mt-5">
+                    <button
+                        onClick={onCancel}
+                        className="flex-1 bg-[#F5F5DC] hover:bg-white text-[#8B4513] px-4 py-2 rounded-lg text-sm font-medium transition-colors duration-200 border-2 border-[#8B4513]"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={onConfirm}
+                        className="flex-1 bg-[#20B2AA] hover:bg-[#8B4513] text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors duration-200 border-2 border-[#8B4513]"
+                    >
+                        Confirm & sign
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+function ObjectList({ title, objects }: { title: string; objects: PreviewObject[] }) {
+    if (objects.length === 0) return null;
+
+    return (
+        <div className="mb-3">
+            <p className="text-sm mb-1">{title}</p>
+            <ul className="text-xs space-y-1">
+                {objects.map(object => (
+                    <li key={object.objectId} className="flex justify-between bg-[#F5F5DC] rounded px-2 py-1">
+                        <span className="font-medium">{shortType(object.objectType)}</span>
+                        {object.recipient && <span className="opacity-75">→ {shortAddress(object.recipient)}</span>}
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+}
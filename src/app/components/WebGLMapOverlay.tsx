@@ -1,10 +1,36 @@
 'use client';
 
-import { useEffect, useRef, useState } from 'react';
-import { useCurrentAccount, useDisconnectWallet, useSignAndExecuteTransaction, useSuiClient } from '@mysten/dapp-kit';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useCurrentAccount, useDisconnectWallet, useSuiClient } from '@mysten/dapp-kit';
 import { useRouter } from 'next/navigation';
-import { useCheckpoints } from '@/hooks/useCheckpoints';
+import { useCheckpoints, type CheckpointCoordinates } from '@/hooks/useCheckpoints';
 import { Transaction } from '@mysten/sui/transactions';
+import { SpatialIndex } from '@/utils/spatialIndex';
+import { useLocationTracking } from '@/hooks/useLocationTracking';
+import { calculateBearing, calculateDistance, formatDistance } from '@/utils/geoUtils';
+import { assessLocationIntegrity } from '@/utils/locationIntegrity';
+import { GeofenceEngine } from '@/utils/geofenceEngine';
+import type { ClaimOutcome } from '@/types/claim';
+import type { GeofenceEvent } from '@/types/geofence';
+import type { GeoBounds } from '@/types/location';
+import { buildCheckpointLink, shareMapLink, type MapFocus } from '@/utils/mapLinks';
+import { useToast } from '@/app/components/Toaster';
+import { useSessionRecorder } from '@/hooks/useSessionRecorder';
+import { useArrivalAlerts } from '@/hooks/useArrivalAlerts';
+import { useAutoClaim } from '@/hooks/useAutoClaim';
+import { useClaimQueue } from '@/hooks/useClaimQueue';
+import { useSuimmingTransaction } from '@/hooks/useSuimmingTransaction';
+import { useNotificationSettings } from '@/hooks/useNotificationSettings';
+import { useClaimHistory } from '@/hooks/useClaimHistory';
+import { formatCountdown, LETTERS_CLAIMED_EVENT, parseLettersClaimedEvent } from '@/utils/claimHistory';
+import { notifyLetterBankChanged } from '@/utils/letterBankEvents';
+import { isNetworkFailure } from '@/utils/claimSync';
+import type { SuiEvent } from '@mysten/sui/client';
+import { deviceLocationProvider, type LocationProvider } from '@/utils/locationProviders';
+import LocationDebugPanel from '@/app/components/LocationDebugPanel';
+import LetterReveal from '@/app/components/LetterReveal';
+import * as suimming from '@/web3/suimming';
+import { formatDuration, getSessionStats } from '@/utils/sessionExport';
 
 // Google Maps type declarations
 declare global {
@@ -15,78 +41,88 @@ declare global {
 
 interface WebGLMapOverlayProps {
   className?: string;
+  focus?: MapFocus | null; // Deep-link target: center the camera (and highlight the pin) once loaded
+  locationProvider?: LocationProvider; // Source of user positions (default: device GPS)
+  replayUrl?: string | null; // GPX track preloaded into a replay provider
 }
 
-// Geofencing configuration constants
-const GEOFENCE_RADIUS_METERS = 50; // Proximity radius around each checkpoint
-const DWELL_THRESHOLD_MS = 10000; // 10 seconds to trigger dwell event
-
-// Helper function to calculate distance between two coordinates
-function getDistanceFromLatLonInKm(lat1: number, lon1: number, lat2: number, lon2: number) {
-  const R = 6371; // Radius of the earth in km
-  const dLat = deg2rad(lat2 - lat1);
-  const dLon = deg2rad(lon2 - lon1);
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(deg2rad(lat1)) * Math.cos(deg2rad(lat2)) *
-    Math.sin(dLon / 2) * Math.sin(dLon / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  const d = R * c; // Distance in km
-  return d;
-}
-
-function deg2rad(deg: number) {
-  return deg * (Math.PI / 180);
-}
+// Geofence radius, dwell time and polygon come from each checkpoint's metadata
+const GEOFENCE_TICK_MS = 1000; // How often dwell timers are checked between fixes
+const PIN_LOAD_RADIUS_METERS = 2000; // Pin loading area until the map reports its viewport bounds
 
-// Helper function to calculate bearing/heading between two coordinates
-function calculateBearing(lat1: number, lon1: number, lat2: number, lon2: number) {
-  const dLon = deg2rad(lon2 - lon1);
-  const lat1Rad = deg2rad(lat1);
-  const lat2Rad = deg2rad(lat2);
+// Only turn the user marker after moving this far, to avoid heading jitter
+const HEADING_MIN_DISTANCE_METERS = 5;
 
-  const y = Math.sin(dLon) * Math.cos(lat2Rad);
-  const x = Math.cos(lat1Rad) * Math.sin(lat2Rad) -
-    Math.sin(lat1Rad) * Math.cos(lat2Rad) * Math.cos(dLon);
+type CheckpointGeofenceEvent = GeofenceEvent<CheckpointCoordinates>;
 
-  const bearing = Math.atan2(y, x);
-  return (bearing * 180 / Math.PI + 360) % 360; // Convert to degrees and normalize
-}
-
-export default function WebGLMapOverlay({ className }: WebGLMapOverlayProps) {
+export default function WebGLMapOverlay({
+  className,
+  focus,
+  locationProvider = deviceLocationProvider,
+  replayUrl
+}: WebGLMapOverlayProps) {
   const mapRef = useRef<HTMLDivElement>(null);
   const [mounted, setMounted] = useState(false);
   const [isMapReady, setIsMapReady] = useState(false);
-  const [mapKey, setMapKey] = useState(0); // For forcing map re-initialization
 
   // User location and view tracking states
   const [userLocation, setUserLocation] = useState({ lat: 40.7614, lng: -73.9776, altitude: 10 });
   const [cameraView, setCameraView] = useState({ tilt: 0, heading: 0, zoom: 18 });
-  const [isLocationTracking, setIsLocationTracking] = useState(false);
   const [userHeading, setUserHeading] = useState(0); // User's direction of movement
-  const [lastPosition, setLastPosition] = useState<{ lat: number, lng: number } | null>(null);
   const [isNavigationMode, setIsNavigationMode] = useState(true); // Auto-follow user
+  const appliedFocusRef = useRef<MapFocus | null>(null);
+  const [highlightedCheckpointId, setHighlightedCheckpointId] = useState<string | null>(null);
+  const highlightedCheckpointRef = useRef<string | null>(null);
+  // Latest view state for the map listeners and WebGL callbacks, which are created once
+  const cameraViewRef = useRef(cameraView);
+  const userHeadingRef = useRef(userHeading);
+  const isNavigationModeRef = useRef(isNavigationMode);
+  const locationProviderRef = useRef(locationProvider);
+
+  useEffect(() => {
+    cameraViewRef.current = cameraView;
+    userHeadingRef.current = userHeading;
+    isNavigationModeRef.current = isNavigationMode;
+    locationProviderRef.current = locationProvider;
+  }, [cameraView, userHeading, isNavigationMode, locationProvider]);
 
   // Geofencing state management
   const [insideCheckpoints, setInsideCheckpoints] = useState<Set<string>>(new Set());
-  const enterTimestamps = useRef<Map<string, number>>(new Map());
-  const dwellTriggered = useRef<Set<string>>(new Set());
+  const geofenceEngine = useMemo(() => new GeofenceEngine<CheckpointCoordinates>(), []);
 
   // Transaction state management
   const [isClaimingReward, setIsClaimingReward] = useState<Set<string>>(new Set());
   const [userProfileId, setUserProfileId] = useState<string | null>(null);
-  const { mutate: signAndExecuteTransaction } = useSignAndExecuteTransaction();
+  const suiClient = useSuiClient();
+  // Gas is sponsored for zkLogin players; results carry events (the awarded letters come from LettersClaimed)
+  const { runTransaction } = useSuimmingTransaction();
+  const [revealedLetters, setRevealedLetters] = useState<{ letters: string[]; checkpointLabel: string } | null>(null);
+  const claimCountdownMarkersRef = useRef<Map<string, any>>(new Map());
 
   const userGltfRef = useRef<any>(null);
   const checkpointGltfRefs = useRef<Map<string, any>>(new Map());
+  const pinLoadingIds = useRef<Set<string>>(new Set());
+  const webglSceneRef = useRef<{ loader: any; scene: any; THREE: any } | null>(null);
   const mapInstanceRef = useRef<any>(null);
   const currentLocationRef = useRef(userLocation);
-  const checkpoints = useCheckpoints();
+  const checkpoints = useCheckpoints({ live: true });
+  const checkpointIndex = useMemo(() => new SpatialIndex(checkpoints.checkpoints), [checkpoints.checkpoints]);
+  const [viewportBounds, setViewportBounds] = useState<GeoBounds | null>(null);
+  // Active checkpoints in view get pins; kept in a ref so WebGL callbacks see the latest list
+  const pinnedCheckpointsRef = useRef<typeof checkpoints.checkpoints>([]);
   // Wallet functionality
   const currentAccount = useCurrentAccount();
   const { mutate: disconnect } = useDisconnectWallet();
-  const suiClient = useSuiClient();
   const router = useRouter();
+  const { addNotification } = useToast();
+  const sessionRecorder = useSessionRecorder();
+  const { alertArrival } = useArrivalAlerts();
+  const { settings: notificationSettings } = useNotificationSettings();
+  const claimHistory = useClaimHistory({ address: currentAccount?.address, profileId: userProfileId });
+  const claimCountdown = claimHistory.msUntilNextEpoch !== null ? formatCountdown(claimHistory.msUntilNextEpoch) : null;
+
+  // Stable so the reveal's auto-close timer isn't restarted by map re-renders
+  const closeLetterReveal = useCallback(() => setRevealedLetters(null), []);
 
   const handleDisconnect = () => {
     disconnect();
@@ -115,76 +151,36 @@ export default function WebGLMapOverlay({ className }: WebGLMapOverlayProps) {
     }
 
     try {
-      console.log('📋 Checking for existing user profile...');
-
       // First, check if user already has a profile
       const existingProfiles = await suiClient.getOwnedObjects({
         owner: currentAccount.address,
         filter: {
-          StructType: `${process.env.NEXT_PUBLIC_SUIMMING_PACKAGE_ID}::user::UserProfile`
+          StructType: suimming.SUIMMING_TYPES.userProfile
         }
       });
 
       if (existingProfiles.data.length > 0) {
         const existingProfileId = existingProfiles.data[0].data?.objectId;
         if (existingProfileId) {
-          console.log(`📋 Found existing user profile: ${existingProfileId}`);
           setUserProfileId(existingProfileId);
           return existingProfileId;
         }
       }
 
-      console.log('🆕 No existing profile found, creating new user profile...');
       const transaction = new Transaction();
+      suimming.user.createProfile(transaction);
 
-      transaction.moveCall({
-        target: `${process.env.NEXT_PUBLIC_SUIMMING_PACKAGE_ID}::user::create_profile`,
-        arguments: [],
-      });
-
-      return new Promise((resolve, reject) => {
-        signAndExecuteTransaction(
-          { transaction },
-          {
-            onSuccess: async () => {
-              try {
-                // Wait a moment for the profile to be created and indexed
-                await new Promise(resolve => setTimeout(resolve, 1000));
-
-                // Query for the user's profile objects
-                const profileObjects = await suiClient.getOwnedObjects({
-                  owner: currentAccount.address,
-                  filter: {
-                    StructType: `${process.env.NEXT_PUBLIC_SUIMMING_PACKAGE_ID}::user::UserProfile`
-                  }
-                });
+      const result = await runTransaction(transaction, { label: 'Creating your profile', successMessage: false });
+      const created = result.objectChanges?.find(
+        change => change.type === 'created' && change.objectType === suimming.SUIMMING_TYPES.userProfile
+      );
+      if (!created || created.type !== 'created') {
+        console.error('❌ No user profile found after creation');
+        return null;
+      }
 
-                if (profileObjects.data.length > 0) {
-                  const profileObjectId = profileObjects.data[0].data?.objectId;
-                  if (profileObjectId) {
-                    setUserProfileId(profileObjectId);
-                    console.log(`📋 User profile ID: ${profileObjectId}`);
-                    resolve(profileObjectId);
-                  } else {
-                    console.error('❌ Profile object found but no objectId');
-                    reject(new Error('Profile object found but no objectId'));
-                  }
-                } else {
-                  console.error('❌ No user profile found after creation');
-                  reject(new Error('No user profile found after creation'));
-                }
-              } catch (error) {
-                console.error('❌ Error querying for user profile:', error);
-                reject(error);
-              }
-            },
-            onError: (error) => {
-              console.error('❌ Failed to create user profile:', error);
-              reject(error);
-            }
-          }
-        );
-      });
+      setUserProfileId(created.objectId);
+      return created.objectId;
     } catch (error) {
       console.error('❌ Error in ensureUserProfile:', error);
       return null;
@@ -213,111 +209,288 @@ export default function WebGLMapOverlay({ className }: WebGLMapOverlayProps) {
     });
   };
 
-  // Claim letters transaction
-  const claimLetters = async (checkpointId: string) => {
+  /**
+   * Letters awarded by a claim, read from its LettersClaimed events
+   * @param events Events of the executed claim transaction
+   * @returns Awarded letters per checkpoint ID (missing if an event could not be read)
+   */
+  const getClaimedLetters = (events?: SuiEvent[] | null): Map<string, string[]> => {
+    const lettersByCheckpoint = new Map<string, string[]>();
+    (events ?? [])
+      .filter(event => event.type === LETTERS_CLAIMED_EVENT)
+      .forEach(event => {
+        const claim = parseLettersClaimedEvent(event);
+        if (claim) lettersByCheckpoint.set(claim.checkpointId, claim.letters);
+      });
+    return lettersByCheckpoint;
+  };
+
+  const clearClaiming = (checkpointIds: string[]) => {
+    setIsClaimingReward(prev => {
+      const newSet = new Set(prev);
+      checkpointIds.forEach(checkpointId => newSet.delete(checkpointId));
+      return newSet;
+    });
+  };
+
+  // Save claims to send once the network is back, with where the player was as proof
+  const queueClaims = async (checkpointIds: string[]) => {
+    const readings = locationTracking.getRecentReadings();
+    const location = readings[readings.length - 1] ?? null;
+    const integrity = assessLocationIntegrity(readings);
+
+    await Promise.all(checkpointIds.map(checkpointId => {
+      const checkpoint = checkpointIndex.get(checkpointId);
+      return claimQueue.enqueue({
+        checkpointId,
+        checkpointLabel: checkpoint?.label ?? checkpointId,
+        proof: location && checkpoint
+          ? {
+            location,
+            distanceMeters: calculateDistance(location, checkpoint),
+            integrityScore: integrity.score,
+            integrityFlags: integrity.flags
+          }
+          : null
+      });
+    }));
+    addNotification('info', `📴 Offline: ${checkpointIds.length === 1 ? 'claim' : `${checkpointIds.length} claims`} saved, sending when you're back online`);
+  };
+
+  /**
+   * Claim letters at one checkpoint
+   * claim_letters draws from sui::random, and Sui rejects any command after a MoveCall that takes
+   * Random, so every claim is a transaction of its own.
+   * @returns Awarded letters (empty if the event could not be read)
+   */
+  const claimAt = async (checkpointId: string, profileId: string, claimer: string): Promise<string[]> => {
+    const transaction = new Transaction();
+    suimming.checkpoint.claimLetters(transaction, { checkpoint: checkpointId, profile: profileId });
+
+    const result = await runTransaction(transaction, { label: 'Claiming letters', successMessage: false });
+    const label = checkpointIndex.get(checkpointId)?.label ?? checkpointId;
+    sessionRecorder.recordEvent('claim', { id: checkpointId, label }, currentLocationRef.current);
+
+    // The Move contract automatically:
+    // 1. Generates random letters using sui::random
+    // 2. Calls user::append_letters() to add them to inventory
+    // 3. Calls user::record_visit() to update visit stats
+    // 4. Emits LettersClaimed event with details
+    const letters = getClaimedLetters(result.events).get(checkpointId) ?? [];
+    claimHistory.markClaimed({
+      checkpointId,
+      profileId,
+      claimer,
+      letters,
+      epoch: claimHistory.epoch?.epoch ?? null,
+      timestampMs: Date.now(),
+      digest: result.digest
+    });
+    notifyLetterBankChanged({ letters, digest: result.digest });
+    return letters;
+  };
+
+  /**
+   * Claim letters at several checkpoints, one transaction after another
+   * @param checkpointIds Checkpoints to claim at
+   * @param queueOffline Save the claims for later when the network is down (off when sending the queue itself)
+   * @returns Outcome per checkpoint ID
+   */
+  const claimLetters = async (
+    checkpointIds: string[],
+    { queueOffline = true } = {}
+  ): Promise<Map<string, ClaimOutcome>> => {
+    const outcomes = new Map<string, ClaimOutcome>();
+    const settle = (ids: string[], outcome: ClaimOutcome) => ids.forEach(checkpointId => outcomes.set(checkpointId, outcome));
+
     if (!currentAccount) {
       console.error('No wallet connected');
-      return;
+      settle(checkpointIds, 'failed');
+      return outcomes;
     }
+    if (checkpointIds.length === 0) return outcomes;
 
-    try {
-      setIsClaimingReward(prev => new Set([...prev, checkpointId]));
-      console.log(`🎁 Starting claim_letters transaction for checkpoint: ${checkpointId}`);
+    if (queueOffline && !navigator.onLine) {
+      await queueClaims(checkpointIds);
+      settle(checkpointIds, 'queued');
+      return outcomes;
+    }
 
+    const claimed: { label: string; letters: string[] }[] = [];
+    setIsClaimingReward(prev => new Set([...prev, ...checkpointIds]));
+    try {
       // Ensure user has a profile
       const profileId = await ensureUserProfile();
       if (!profileId) {
-        console.error('❌ Could not get or create user profile');
-        return;
+        console.error('Could not get or create user profile');
+        settle(checkpointIds, 'failed');
+        return outcomes;
       }
 
-      const transaction = new Transaction();
-
-      // Call claim_letters function with correct parameters
-      // Function signature: claim_letters(checkpoint: &mut Checkpoint, user_profile: &mut UserProfile, r: &Random, ctx: &mut TxContext)
-      transaction.moveCall({
-        target: `${process.env.NEXT_PUBLIC_SUIMMING_PACKAGE_ID}::checkpoint::claim_letters`,
-        arguments: [
-          transaction.object(checkpointId), // checkpoint: &mut Checkpoint
-          transaction.object(profileId), // user_profile: &mut UserProfile
-          transaction.object('0x8'), // r: &Random (global random object)
-        ],
-      });
+      for (const [index, checkpointId] of checkpointIds.entries()) {
+        try {
+          const letters = await claimAt(checkpointId, profileId, currentAccount.address);
+          claimed.push({ label: checkpointIndex.get(checkpointId)?.label ?? checkpointId, letters });
+          outcomes.set(checkpointId, 'claimed');
+        } catch (error) {
+          console.error(`Error claiming letters at ${checkpointId}:`, error);
+          const remaining = checkpointIds.slice(index);
+          if (!(error instanceof suimming.SuimmingTransactionError)) {
+            outcomes.set(checkpointId, 'failed');
+            continue;
+          }
 
-      // Execute the transaction
-      signAndExecuteTransaction(
-        { transaction },
-        {
-          onSuccess: (result) => {
-            console.log('✅ claim_letters transaction successful:', result);
-            console.log('🎉 Letters claimed successfully! Check your inventory.');
-
-            // The Move contract automatically:
-            // 1. Generates random letters using sui::random
-            // 2. Calls user::append_letters() to add them to inventory
-            // 3. Calls user::record_visit() to update visit stats
-            // 4. Emits LettersClaimed event with details
-          },
-          onError: (error) => {
-            console.error('❌ claim_letters transaction failed:', error);
-            console.error('Common causes:');
-            console.error('- Checkpoint is not active');
-            console.error('- Already claimed at this checkpoint in current epoch');
-            console.error('- Invalid checkpoint or profile object ID');
-          },
-          onSettled: () => {
-            setIsClaimingReward(prev => {
-              const newSet = new Set(prev);
-              newSet.delete(checkpointId);
-              return newSet;
-            });
+          // The network dropped or the player declined: don't go on with the rest
+          if (isNetworkFailure(error.cause)) {
+            if (queueOffline) {
+              await queueClaims(remaining);
+              settle(remaining, 'queued');
+            } else {
+              settle(remaining, 'failed');
+            }
+            break;
           }
+          if (error.kind === 'rejected') {
+            settle(remaining, 'failed');
+            break;
+          }
+
+          claimHistory.refetch(); // Pick up a claim made from another device
+          // An abort is final (already claimed, out of range, ...); anything else may pass on a retry
+          outcomes.set(checkpointId, error.kind === 'abort' ? 'aborted' : 'failed');
+        } finally {
+          clearClaiming([checkpointId]);
         }
-      );
-    } catch (error) {
-      console.error('❌ Error in claimLetters:', error);
-      setIsClaimingReward(prev => {
-        const newSet = new Set(prev);
-        newSet.delete(checkpointId);
-        return newSet;
+      }
+    } finally {
+      clearClaiming(checkpointIds);
+    }
+
+    const letters = claimed.flatMap(claim => claim.letters);
+    if (letters.length > 0) {
+      setRevealedLetters({
+        letters,
+        checkpointLabel: claimed.length === 1 ? claimed[0].label : `${claimed.length} checkpoints`
       });
+    } else if (claimed.length > 0) {
+      addNotification('success', 'Letters claimed! Check your letter bank.');
     }
+    return outcomes;
   };
 
-  // Checkpoint interaction handlers
-  const handleCheckpointAction = (checkpoint: any, action: string) => {
-    console.log(`🎯 ${action} action triggered for checkpoint: ${checkpoint.label} (${checkpoint.id})`);
+  // Auto-claim on dwell; queued claims wait for any claim in flight, then go out one after another
+  const autoClaim = useAutoClaim({
+    enabled: notificationSettings.autoClaim,
+    busy: isClaimingReward.size > 0,
+    onFlush: (checkpointIds) => {
+      // A claim may have landed (here or on another device) while these were queued
+      const claimable = checkpointIds.filter(checkpointId => !claimHistory.isClaimedThisEpoch(checkpointId));
+      if (claimable.length === 0) return;
 
+      claimLetters(claimable);
+    }
+  });
+
+  // Claims captured offline, sent when the network returns
+  const claimQueue = useClaimQueue({
+    address: currentAccount?.address,
+    busy: isClaimingReward.size > 0,
+    onFlush: async (claims) => {
+      const outcomes = new Map<string, ClaimOutcome>();
+      const claimable = claims
+        .map(claim => claim.checkpointId)
+        .filter(checkpointId => {
+          // Claimed in the meantime (here or on another device): nothing left to send
+          if (!claimHistory.isClaimedThisEpoch(checkpointId)) return true;
+          outcomes.set(checkpointId, 'claimed');
+          return false;
+        });
+      if (claimable.length === 0) return outcomes;
+
+      addNotification('info', `📶 Back online: sending ${claimable.length === 1 ? 'your saved claim' : `${claimable.length} saved claims`}…`);
+      const sent = await claimLetters(claimable, { queueOffline: false });
+      sent.forEach((outcome, checkpointId) => outcomes.set(checkpointId, outcome));
+      return outcomes;
+    }
+  });
+
+  /**
+   * Check that a claim at this checkpoint can succeed, telling the user why not
+   * @returns Whether the claim should go ahead
+   */
+  const canClaimAt = (checkpoint: CheckpointCoordinates): boolean => {
+    // The contract rejects claims at checkpoints an admin has switched off
+    if (!checkpoint.active) {
+      addNotification('info', `${checkpoint.label} is closed right now`);
+      return false;
+    }
+
+    // Refuse claims from fixes that look like a mocked GPS. Simulated providers are mocked by design and
+    // skip this in development only: production builds check them too, even with simulation enabled.
+    const integrity = assessLocationIntegrity(locationTracking.getRecentReadings());
+    const checksIntegrity = locationProvider.kind === 'device' || process.env.NODE_ENV === 'production';
+    if (checksIntegrity && integrity.verdict === 'blocked') {
+      console.warn(`🚫 Reward blocked for ${checkpoint.label}: location integrity score ${integrity.score}`, integrity.flags);
+      addNotification('error', 'Your location could not be verified. Disable mock location apps and try again.');
+      return false;
+    }
+    if (integrity.verdict === 'suspicious') {
+      console.warn(`⚠️ Suspicious location for ${checkpoint.label}: score ${integrity.score}`, integrity.flags);
+    }
+
+    // One claim per checkpoint per epoch; don't let the user sign a transaction that will abort
+    if (claimHistory.isClaimedThisEpoch(checkpoint.id)) {
+      addNotification('info', `Already claimed at ${checkpoint.label} this epoch${claimCountdown ? `. Available again in ${claimCountdown}` : ''}`);
+      return false;
+    }
+    return true;
+  };
+
+  // Checkpoint interaction handlers
+  const handleCheckpointAction = (checkpoint: CheckpointCoordinates, action: 'boast' | 'reward') => {
     switch (action) {
       case 'boast':
-        console.log(`📢 Display NFT from ${checkpoint.label}`);
-        // TODO: Implement NFT display functionality
+        // Sentence NFTs are shown (and listed for sale) from the collection page
+        handleMyPage();
         break;
       case 'reward':
-        console.log(`🎁 Receiving reward from ${checkpoint.label}`);
-        claimLetters(checkpoint.id);
+        if (!canClaimAt(checkpoint)) break;
+
+        claimLetters([checkpoint.id]);
         break;
-      default:
-        console.log(`❓ Unknown action: ${action}`);
     }
   };
 
   // Geofencing event handlers
-  const onEnterCheckpoint = (checkpoint: any) => {
-    console.log(`🚶‍♂️ Entered checkpoint: ${checkpoint.label} (${checkpoint.id})`);
-    // TODO: Add custom actions (UI notifications, sound, API calls, etc.)
+  const onEnterCheckpoint = ({ checkpoint, location }: CheckpointGeofenceEvent) => {
+    sessionRecorder.recordEvent('enter', checkpoint, location);
+    alertArrival('enter', checkpoint, claimHistory.isClaimedThisEpoch(checkpoint.id)
+      ? undefined
+      : () => handleCheckpointAction(checkpoint, 'reward'));
   };
 
-  const onExitCheckpoint = (checkpoint: any) => {
-    console.log(`🚶‍♂️ Exited checkpoint: ${checkpoint.label} (${checkpoint.id})`);
-    // TODO: Add custom actions
+  const onExitCheckpoint = ({ checkpoint, location }: CheckpointGeofenceEvent) => {
+    sessionRecorder.recordEvent('exit', checkpoint, location);
   };
 
-  const onDwellCheckpoint = (checkpoint: any) => {
-    console.log(`⏰ Dwelling at checkpoint: ${checkpoint.label} (${checkpoint.id}) for ${DWELL_THRESHOLD_MS / 1000}s`);
-    // TODO: Add custom actions (achievements, special rewards, etc.)
+  const onDwellCheckpoint = ({ checkpoint, location }: CheckpointGeofenceEvent) => {
+    sessionRecorder.recordEvent('dwell', checkpoint, location);
+
+    const isClaimable = !claimHistory.isClaimedThisEpoch(checkpoint.id)
+      && !isClaimingReward.has(checkpoint.id)
+      && !claimQueue.pendingIds.includes(checkpoint.id);
+    if (isClaimable && autoClaim.isActive && canClaimAt(checkpoint)) {
+      autoClaim.enqueue(checkpoint.id);
+      addNotification('info', `🤖 Claiming letters at ${checkpoint.label}…`);
+      return;
+    }
+    alertArrival('dwell', checkpoint, isClaimable ? () => handleCheckpointAction(checkpoint, 'reward') : undefined);
   };
 
+  // Latest handlers for the engine subscription, which is only set up once
+  const geofenceHandlersRef = useRef({ enter: onEnterCheckpoint, exit: onExitCheckpoint, dwell: onDwellCheckpoint });
+  geofenceHandlersRef.current = { enter: onEnterCheckpoint, exit: onExitCheckpoint, dwell: onDwellCheckpoint };
+
   useEffect(() => {
     setMounted(true);
   }, []);
@@ -329,243 +502,262 @@ export default function WebGLMapOverlay({ className }: WebGLMapOverlayProps) {
     }
   }, [currentAccount]);
 
-  // Continuous location tracking
-  useEffect(() => {
-    if (!mounted) return;
-
-    let watchId: number | null = null;
-
-    const startLocationTracking = () => {
-      if ('geolocation' in navigator) {
-        setIsLocationTracking(true);
-        watchId = navigator.geolocation.watchPosition(
-          (position) => {
-            const newUserLocation = {
-              lat: position.coords.latitude,
-              lng: position.coords.longitude,
-              altitude: position.coords.altitude || 0
-            };
-
-            // Calculate heading if we have a previous position
-            if (lastPosition) {
-              const distance = getDistanceFromLatLonInKm(
-                lastPosition.lat, lastPosition.lng,
-                newUserLocation.lat, newUserLocation.lng
-              );
-
-              // Only update heading if user moved more than 5 meters (to avoid jitter)
-              if (distance > 0.005) {
-                const bearing = calculateBearing(
-                  lastPosition.lat, lastPosition.lng,
-                  newUserLocation.lat, newUserLocation.lng
-                );
-                setUserHeading(bearing);
-                console.log(`User heading: ${bearing.toFixed(1)}°, moved ${(distance * 1000).toFixed(0)}m`);
-              }
-            }
+  // Continuous location tracking (filtered, throttled) once the component is mounted
+  const locationTracking = useLocationTracking({
+    enabled: mounted,
+    provider: locationProvider,
+    enableHighAccuracy: true,
+    timeout: 10000,
+    maximumAge: 5000, // Update every 5 seconds at most
+    onMovement: (movement) => {
+      // Only update heading if user moved far enough (to avoid jitter)
+      if (movement.distance >= HEADING_MIN_DISTANCE_METERS) {
+        setUserHeading(movement.bearing);
+      }
+    }
+  });
 
-            setUserLocation(newUserLocation);
-            setLastPosition({ lat: newUserLocation.lat, lng: newUserLocation.lng });
+  const { recordLocation: recordSessionLocation } = sessionRecorder;
+  useEffect(() => {
+    const location = locationTracking.currentLocation;
+    if (!location) return;
 
-            // Update GLTF position if it exists
-            if (userGltfRef.current) {
-              console.log(`Updating user position to: ${newUserLocation.lat}, ${newUserLocation.lng}`);
-            }
-          },
-          (error) => {
-            console.warn('Location tracking error:', error);
-            setIsLocationTracking(false);
-          },
-          {
-            enableHighAccuracy: true,
-            timeout: 10000,
-            maximumAge: 5000 // Update every 5 seconds at most
-          }
-        );
-      }
-    };
+    setUserLocation({
+      lat: location.lat,
+      lng: location.lng,
+      altitude: location.altitude || 0
+    });
+    recordSessionLocation(location);
+  }, [locationTracking.currentLocation, recordSessionLocation]);
 
-    startLocationTracking();
+  // Tick once a second while recording so the elapsed time stays current
+  const [, setRecordingTick] = useState(0);
+  useEffect(() => {
+    if (!sessionRecorder.isRecording) return;
 
-    // Cleanup function
-    return () => {
-      if (watchId !== null) {
-        navigator.geolocation.clearWatch(watchId);
-        setIsLocationTracking(false);
-      }
-    };
-  }, [mounted]);
+    const interval = setInterval(() => setRecordingTick(tick => tick + 1), 1000);
+    return () => clearInterval(interval);
+  }, [sessionRecorder.isRecording]);
 
   // Update GLTF position when user location changes
   useEffect(() => {
     // Update the ref so WebGL functions can access current location
+    // The GLTF itself is positioned in the WebGL onDraw method from this ref
     currentLocationRef.current = userLocation;
 
-    if (userGltfRef.current) {
-      // Position the GLTF at the current user location
-      console.log(`GLTF positioned at: ${userLocation.lat}, ${userLocation.lng}, altitude: ${userLocation.altitude}`);
-
-      // Note: The actual positioning happens in the WebGL onDraw method
-      // using the transformer.fromLatLngAltitude with current userLocation
-    }
-
     // Navigation mode: auto-follow user with camera rotation
-    if (isNavigationMode && mapInstanceRef.current) {
+    if (isNavigationModeRef.current && mapInstanceRef.current) {
       const map = mapInstanceRef.current;
       const currentCenter = (map as any).getCenter?.();
 
       if (currentCenter) {
-        const distance = getDistanceFromLatLonInKm(
-          currentCenter.lat(),
-          currentCenter.lng(),
-          userLocation.lat,
-          userLocation.lng
+        const distance = calculateDistance(
+          { lat: currentCenter.lat(), lng: currentCenter.lng() },
+          userLocation
         );
 
         // Always follow in navigation mode (more sensitive than 100m)
-        if (distance > 0.01) { // 10 meters
-          console.log(`Navigation mode: Following user ${(distance * 1000).toFixed(0)}m`);
-
+        if (distance > 10) { // 10 meters
           // Smooth camera movement with heading alignment
           (map as any).moveCamera?.({
             center: { lat: userLocation.lat, lng: userLocation.lng },
-            heading: userHeading, // Point camera in direction of movement
+            heading: userHeadingRef.current, // Point camera in direction of movement
             tilt: 60, // Good angle for navigation
-            zoom: Math.max(18, cameraView.zoom) // Keep good zoom level
+            zoom: Math.max(18, cameraViewRef.current.zoom) // Keep good zoom level
           });
         }
       }
     }
   }, [userLocation]);
 
-  // Geofencing logic: detect enter/exit/dwell events for checkpoints
+  // Geofencing: the engine turns checkpoints + fixes into enter/exit/dwell events
   useEffect(() => {
-    if (!checkpoints.checkpoints || checkpoints.checkpoints.length === 0) {
-      return;
-    }
+    return geofenceEngine.subscribe((event) => {
+      setInsideCheckpoints(new Set(geofenceEngine.getInsideIds()));
+      geofenceHandlersRef.current[event.type](event);
+    });
+  }, [geofenceEngine]);
 
-    const newInsideCheckpoints = new Set<string>();
-    const currentTime = Date.now();
+  useEffect(() => {
+    // Inactive checkpoints can't be claimed, so they raise no arrival events either
+    geofenceEngine.setCheckpoints(checkpoints.checkpoints.filter(cp => cp.active));
+  }, [geofenceEngine, checkpoints.checkpoints]);
 
-    checkpoints.checkpoints.forEach((checkpoint) => {
-      // Calculate distance from user to checkpoint
-      const distanceKm = getDistanceFromLatLonInKm(
-        userLocation.lat, userLocation.lng,
-        checkpoint.lat, checkpoint.lng
-      );
-      const distanceMeters = distanceKm * 1000;
-
-      if (distanceMeters <= GEOFENCE_RADIUS_METERS) {
-        // User is inside geofence radius
-        newInsideCheckpoints.add(checkpoint.id);
-
-        if (!insideCheckpoints.has(checkpoint.id)) {
-          // ENTER event: user just entered this checkpoint
-          onEnterCheckpoint(checkpoint);
-          enterTimestamps.current.set(checkpoint.id, currentTime);
-          dwellTriggered.current.delete(checkpoint.id); // Reset dwell trigger
-        } else {
-          // Already inside: check for DWELL event
-          const enterTime = enterTimestamps.current.get(checkpoint.id);
-          if (enterTime &&
-              currentTime - enterTime >= DWELL_THRESHOLD_MS &&
-              !dwellTriggered.current.has(checkpoint.id)) {
-            // DWELL event: user has been inside for threshold duration
-            onDwellCheckpoint(checkpoint);
-            dwellTriggered.current.add(checkpoint.id); // Mark to prevent repeated triggers
-          }
-        }
-      } else {
-        // User is outside geofence radius
-        if (insideCheckpoints.has(checkpoint.id)) {
-          // EXIT event: user just left this checkpoint
-          onExitCheckpoint(checkpoint);
-          enterTimestamps.current.delete(checkpoint.id);
-          dwellTriggered.current.delete(checkpoint.id);
-        }
-      }
-    });
+  useEffect(() => {
+    if (locationTracking.currentLocation) {
+      geofenceEngine.update(locationTracking.currentLocation);
+    }
+  }, [geofenceEngine, locationTracking.currentLocation]);
 
-    // Update state with new inside checkpoints
-    setInsideCheckpoints(newInsideCheckpoints);
-  }, [userLocation, checkpoints.checkpoints]);
+  // Fixes stop arriving while the user stands still, so dwell timers are ticked separately
+  useEffect(() => {
+    const interval = setInterval(() => geofenceEngine.tick(Date.now()), GEOFENCE_TICK_MS);
+    return () => clearInterval(interval);
+  }, [geofenceEngine]);
 
 
-  // Effect to trigger map re-initialization when checkpoints are first loaded
+  // Focus the camera on a deep-link target from /map?checkpoint=<id> or /map?lat=..&lng=..&zoom=..
   useEffect(() => {
-    if (isMapReady && !checkpoints.loading && checkpoints.checkpoints && checkpoints.checkpoints.length > 0) {
-      console.log('🔄 Checkpoints loaded! Re-initializing map for better pin loading...');
-      setIsMapReady(false);
-      setMapKey(prev => prev + 1);
+    const map = mapInstanceRef.current;
+    if (!isMapReady || !map || !focus || appliedFocusRef.current === focus) {
+      return;
+    }
+
+    let center: { lat: number; lng: number };
+    let zoom = Math.max(18, cameraViewRef.current.zoom);
+
+    if (focus.type === 'checkpoint') {
+      const checkpoint = checkpointIndex.get(focus.checkpointId);
+      if (!checkpoint) return; // Wait until the checkpoint is loaded
+
+      center = { lat: checkpoint.lat, lng: checkpoint.lng };
+      setHighlightedCheckpointId(checkpoint.id);
+    } else {
+      center = { lat: focus.location.lat, lng: focus.location.lng };
+      zoom = focus.zoom ?? zoom;
     }
-  }, [checkpoints.loading, checkpoints.checkpoints]);
+
+    appliedFocusRef.current = focus;
+
+    // Stop auto-follow so the camera stays on the target
+    setIsNavigationMode(false);
+    (map as any).moveCamera?.({
+      center,
+      tilt: 60,
+      zoom
+    });
+  }, [isMapReady, focus, checkpointIndex]);
 
   useEffect(() => {
-    if (!mounted || !mapRef.current) return;
+    highlightedCheckpointRef.current = highlightedCheckpointId;
+  }, [highlightedCheckpointId]);
+
+  const shareCheckpoint = async (checkpoint: { id: string; label: string }) => {
+    const result = await shareMapLink(buildCheckpointLink(checkpoint.id), `Suimming checkpoint: ${checkpoint.label}`);
+    if (result === 'copied') {
+      addNotification('success', 'Checkpoint link copied to clipboard!');
+    } else if (result === null) {
+      addNotification('error', 'Could not share checkpoint link.');
+    }
+  };
 
-    // Function to load checkpoint pins immediately when WebGL is ready
-    const loadCheckpointPinsNow = async (loader: any, scene: any, THREE: any) => {
-      if (!checkpoints.checkpoints || checkpoints.checkpoints.length === 0) {
-        return;
-      }
+  // Add/remove/update checkpoint pins in place so live checkpoint changes don't re-initialize the map
+  const syncCheckpointPins = async () => {
+    const webglScene = webglSceneRef.current;
+    if (!webglScene) return;
 
-      console.log(`🚀 Loading ${checkpoints.checkpoints.length} checkpoint pins immediately...`);
+    const { loader, scene, THREE } = webglScene;
+    const pinnedCheckpoints = pinnedCheckpointsRef.current;
+    const pinnedIds = new Set(pinnedCheckpoints.map(cp => cp.id));
 
-      // Clear existing pins
-      checkpointGltfRefs.current.forEach((pinData) => {
+    // Remove pins for checkpoints that were deactivated, dropped or left the viewport
+    checkpointGltfRefs.current.forEach((pinData, checkpointId) => {
+      if (!pinnedIds.has(checkpointId)) {
         if (pinData.model && pinData.model.parent) {
           pinData.model.parent.remove(pinData.model);
         }
-      });
-      checkpointGltfRefs.current.clear();
+        checkpointGltfRefs.current.delete(checkpointId);
+      }
+    });
 
-      // Load pins for each checkpoint
-      for (const checkpoint of checkpoints.checkpoints) {
-        try {
-          console.log(`📍 Loading pin for: ${checkpoint.label}`);
+    // Load pins for each checkpoint that doesn't have one yet
+    for (const checkpoint of pinnedCheckpoints) {
+      const existingPin = checkpointGltfRefs.current.get(checkpoint.id);
+      if (existingPin) {
+        existingPin.checkpoint = checkpoint; // Keep label/coordinates current
+        continue;
+      }
+      if (pinLoadingIds.current.has(checkpoint.id)) continue;
 
-          // Try to load pin.gltf
-          const gltf = await new Promise<any>((resolve, reject) => {
-            loader.load("/meat.glb", resolve, undefined, reject);
-          });
+      pinLoadingIds.current.add(checkpoint.id);
+      let model: any;
+      try {
+        // Try to load pin.gltf
+        const gltf = await new Promise<any>((resolve, reject) => {
+          loader.load("/meat.glb", resolve, undefined, reject);
+        });
 
-          // Large scale for better visibility
-          gltf.scene.scale.set(600, 600, 600); // Even larger!
-          gltf.scene.rotation.x = Math.PI;
+        // Large scale for better visibility
+        gltf.scene.scale.set(600, 600, 600); // Even larger!
+        gltf.scene.rotation.x = Math.PI;
+        model = gltf.scene;
+      } catch (error) {
+        console.warn(`Failed to load pin for ${checkpoint.label}, using a fallback:`, error);
 
-          // Add to scene and store reference
-          scene.add(gltf.scene);
-          checkpointGltfRefs.current.set(checkpoint.id, {
-            model: gltf.scene,
-            checkpoint: checkpoint
-          });
+        // Create very bright, large fallback pin
+        const fallbackGeometry = new THREE.CylinderGeometry(30, 30, 120, 8);
+        const fallbackMaterial = new THREE.MeshLambertMaterial({
+          color: 0xff0000,
+          emissive: 0x990000
+        });
+        model = new THREE.Mesh(fallbackGeometry, fallbackMaterial);
+      } finally {
+        pinLoadingIds.current.delete(checkpoint.id);
+      }
 
-          console.log(`✅ Pin loaded: ${checkpoint.label} at (${checkpoint.lat}, ${checkpoint.lng})`);
+      // Skip if the checkpoint was deactivated or scrolled away while its model was loading
+      const latest = pinnedCheckpointsRef.current.find(cp => cp.id === checkpoint.id);
+      if (!latest) continue;
 
-        } catch (error) {
-          console.log(`❌ Failed to load pin for ${checkpoint.label}, creating bright fallback`);
+      // Add to scene and store reference
+      scene.add(model);
+      checkpointGltfRefs.current.set(checkpoint.id, {
+        model,
+        checkpoint: latest
+      });
+    }
+  };
 
-          // Create very bright, large fallback pin
-          const fallbackGeometry = new THREE.CylinderGeometry(30, 30, 120, 8);
-          const fallbackMaterial = new THREE.MeshLambertMaterial({
-            color: 0xff0000,
-            emissive: 0x990000
-          });
-          const fallbackPin = new THREE.Mesh(fallbackGeometry, fallbackMaterial);
+  // Keep pins in sync with live checkpoint updates and the visible map area
+  useEffect(() => {
+    const candidates = viewportBounds
+      ? checkpointIndex.withinBounds(viewportBounds)
+      : checkpointIndex.withinRadius(currentLocationRef.current, PIN_LOAD_RADIUS_METERS).map(result => result.point);
+    pinnedCheckpointsRef.current = candidates.filter(cp => cp.active);
 
-          // Add to scene and store reference
-          scene.add(fallbackPin);
-          checkpointGltfRefs.current.set(checkpoint.id, {
-            model: fallbackPin,
-            checkpoint: checkpoint
-          });
+    if (isMapReady) {
+      syncCheckpointPins();
+    }
+  }, [checkpointIndex, viewportBounds, isMapReady]);
 
-          console.log(`🔴 Bright fallback pin created: ${checkpoint.label}`);
-        }
+  // Countdown labels above pins the user already claimed this epoch
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!isMapReady || !map || !window.google) return;
+
+    const markers = claimCountdownMarkersRef.current;
+    const label = claimCountdown ? `⏳ ${claimCountdown}` : '⏳';
+
+    markers.forEach((marker, checkpointId) => {
+      if (!claimHistory.claimedCheckpointIds.has(checkpointId)) {
+        marker.setMap(null);
+        markers.delete(checkpointId);
       }
+    });
 
-      console.log(`🎉 Total pins loaded: ${checkpointGltfRefs.current.size}`);
-    };
+    claimHistory.claimedCheckpointIds.forEach(checkpointId => {
+      const checkpoint = checkpointIndex.get(checkpointId);
+      if (!checkpoint) return;
+
+      const existing = markers.get(checkpointId);
+      if (existing) {
+        existing.setLabel({ ...existing.getLabel(), text: label });
+        return;
+      }
+
+      markers.set(checkpointId, new window.google.maps.Marker({
+        map,
+        position: { lat: checkpoint.lat, lng: checkpoint.lng },
+        clickable: false,
+        // Invisible icon: only the label is drawn
+        icon: { path: window.google.maps.SymbolPath.CIRCLE, scale: 0 },
+        label: { text: label, color: '#8B4513', fontSize: '12px', fontWeight: 'bold', className: 'bg-[#F5F5DC] px-1 rounded border border-[#8B4513]' }
+      }));
+    });
+  }, [claimHistory.claimedCheckpointIds, claimCountdown, checkpointIndex, isMapReady]);
+
+  useEffect(() => {
+    if (!mounted || !mapRef.current) return;
 
     const initMap = async () => {
       // Load Google Maps API if not loaded
@@ -585,21 +777,21 @@ export default function WebGLMapOverlay({ className }: WebGLMapOverlayProps) {
       if (!mapRef.current) return;
 
       // Get user location
+      let startLocation = currentLocationRef.current;
       try {
-        const position = await new Promise<GeolocationPosition>((resolve, reject) => {
-          navigator.geolocation.getCurrentPosition(resolve, reject, {
-            enableHighAccuracy: true,
-            timeout: 10000,
-            maximumAge: 60000
-          });
+        const position = await locationProviderRef.current.getCurrentLocation({
+          enableHighAccuracy: true,
+          timeout: 10000,
+          maximumAge: 60000
         });
 
         const newUserLocation = {
-          lat: position.coords.latitude,
-          lng: position.coords.longitude,
-          altitude: position.coords.altitude || 0
+          lat: position.lat,
+          lng: position.lng,
+          altitude: position.altitude || 0
         };
 
+        startLocation = newUserLocation;
         setUserLocation(newUserLocation);
       } catch (error) {
         console.log('Using default location:', error);
@@ -609,9 +801,9 @@ export default function WebGLMapOverlay({ className }: WebGLMapOverlayProps) {
       // Map options - start with some tilt for 3D effect
       const mapOptions = {
         tilt: 45, // Start with initial tilt for 3D view
-        heading: cameraView.heading,
-        zoom: cameraView.zoom,
-        center: { lat: userLocation.lat, lng: userLocation.lng },
+        heading: cameraViewRef.current.heading,
+        zoom: cameraViewRef.current.zoom,
+        center: { lat: startLocation.lat, lng: startLocation.lng },
         mapId: "15431d2b469f209e",
         disableDefaultUI: true,
         gestureHandling: "greedy",
@@ -643,23 +835,17 @@ export default function WebGLMapOverlay({ className }: WebGLMapOverlayProps) {
 
       // Disable navigation mode when user manually interacts with map
       map.addListener('dragstart', () => {
-        if (isNavigationMode) {
+        if (isNavigationModeRef.current) {
           console.log('User interaction detected, disabling navigation mode');
           setIsNavigationMode(false);
         }
       });
 
-      map.addListener('center_changed', () => {
-        const center = (map as any).getCenter?.();
-        if (center) {
-          // Only update if not in navigation mode (to avoid interference)
-          if (!isNavigationMode) {
-            setUserLocation(prev => ({
-              ...prev,
-              lat: center.lat(),
-              lng: center.lng()
-            }));
-          }
+      // Track the visible area so only pins in view are loaded
+      map.addListener('idle', () => {
+        const bounds = (map as any).getBounds?.();
+        if (bounds) {
+          setViewportBounds(bounds.toJSON());
         }
       });
 
@@ -732,18 +918,14 @@ export default function WebGLMapOverlay({ className }: WebGLMapOverlayProps) {
               }
             );
 
-            // Store loader and scene for external checkpoint loading
-            (webglOverlayView as any).loader = loader;
-            (webglOverlayView as any).scene = scene;
-            (webglOverlayView as any).THREE = THREE;
+            // Store loader and scene for checkpoint pin syncing
+            webglSceneRef.current = { loader, scene, THREE };
+            checkpointGltfRefs.current.clear();
 
             console.log('WebGL overlay ready for checkpoint pin loading');
 
             // If checkpoint data is already available, load pins immediately
-            if (checkpoints.checkpoints && checkpoints.checkpoints.length > 0) {
-              console.log('🎯 Checkpoint data available! Loading pins immediately...');
-              loadCheckpointPinsNow(loader, scene, THREE);
-            }
+            syncCheckpointPins();
 
           });
         });
@@ -815,13 +997,9 @@ export default function WebGLMapOverlay({ className }: WebGLMapOverlayProps) {
             userGltfRef.current.position.set(0, 0, userZ);
 
             // Rotate the marker to face the direction of movement
-            const headingRadians = (userHeading * Math.PI) / 180;
+            const heading = userHeadingRef.current;
+            const headingRadians = (heading * Math.PI) / 180;
             userGltfRef.current.rotation.z = -headingRadians;
-
-            // Debug mobile positioning occasionally
-            if (isMobile && Math.random() < 0.01) {
-              console.log(`📱 Mobile user marker: altitude=${safeAltitude}m, z=${userZ}, heading=${userHeading.toFixed(1)}°`);
-            }
           }
 
           // Update checkpoint pin positions
@@ -831,28 +1009,18 @@ export default function WebGLMapOverlay({ className }: WebGLMapOverlayProps) {
               const checkpoint = pinData.checkpoint;
 
               // Calculate distance and bearing for better positioning
-              const distance = getDistanceFromLatLonInKm(
-                currentLoc.lat, currentLoc.lng,
-                checkpoint.lat, checkpoint.lng
-              ) * 1000; // Convert to meters
-
-              const bearing = calculateBearing(
-                currentLoc.lat, currentLoc.lng,
-                checkpoint.lat, checkpoint.lng
-              );
+              const distance = calculateDistance(currentLoc, checkpoint); // meters
+              const bearing = calculateBearing(currentLoc, checkpoint);
 
               // Convert to radians and position using polar coordinates
               const bearingRad = bearing * Math.PI / 180;
               const x = Math.sin(bearingRad) * distance;
               const y = Math.cos(bearingRad) * distance;
-              const z = 50; // Even higher for better visibility (120x scale)
+              // Deep-linked checkpoint bobs up and down so it stands out
+              const isHighlighted = highlightedCheckpointRef.current === checkpoint.id;
+              const z = isHighlighted ? 50 + Math.abs(Math.sin(Date.now() / 300)) * 40 : 50; // Even higher for better visibility (120x scale)
 
               pinData.model.position.set(x, y, z);
-
-              // Debug occasionally for positioning verification
-              if (Math.random() < 0.005) { // 0.5% chance for logging
-                console.log(`📍 Pin "${checkpoint.label}": ${distance.toFixed(0)}m away at bearing ${bearing.toFixed(0)}°, pos=(${x.toFixed(0)}, ${y.toFixed(0)}, ${z})`);
-              }
             }
           });
 
@@ -869,9 +1037,14 @@ export default function WebGLMapOverlay({ className }: WebGLMapOverlayProps) {
     };
 
     initMap();
-  }, [mounted, mapKey]); // Re-initialize when mapKey changes
+  }, [mounted]);
 
 
+  // Deep-linked checkpoint popup, hidden while the player is inside a checkpoint (the action sheet takes over)
+  const highlightedCheckpoint = highlightedCheckpointId ? checkpointIndex.get(highlightedCheckpointId) : undefined;
+  const showHighlightedCard = !!highlightedCheckpoint && insideCheckpoints.size === 0;
+  const recordingStats = sessionRecorder.activeSession ? getSessionStats(sessionRecorder.activeSession) : null;
+
   if (!mounted) {
     return (
       <div className="w-full h-full flex items-center justify-center bg-[#F5F5DC]">
@@ -924,6 +1097,18 @@ export default function WebGLMapOverlay({ className }: WebGLMapOverlayProps) {
             My Page
           </button>
 
+          {/* Settings button */}
+          <button
+            onClick={() => router.push('/settings')}
+            className="bg-[#DEB887] hover:bg-[#8B4513] text-[#8B4513] hover:text-white px-3 py-2 rounded-lg text-xs font-medium shadow-lg transition-colors duration-200 flex items-center justify-center gap-1 border-2 border-[#8B4513]"
+            title="Arrival notification settings"
+          >
+            <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+            </svg>
+            Alerts
+          </button>
+
           {/* Disconnect button */}
           <button
             onClick={handleDisconnect}
@@ -958,10 +1143,85 @@ export default function WebGLMapOverlay({ className }: WebGLMapOverlayProps) {
             {isNavigationMode ? '🔄 Auto-Follow ON' : '📍 Manual Mode'}
           </button>
         </div>
+
+        {/* Session recorder */}
+        <div className="bg-[#DEB887] text-[#8B4513] px-3 py-2 rounded-lg text-xs font-medium shadow-lg border-2 border-[#8B4513]">
+          <div className="font-bold mb-1 flex items-center gap-2">
+            🎞️ Session
+            {sessionRecorder.isRecording && (
+              <span className="w-2 h-2 bg-red-600 rounded-full animate-pulse"></span>
+            )}
+          </div>
+          {recordingStats && (
+            <div className="mb-1 space-y-0.5">
+              <div>⏱️ {formatDuration(recordingStats.duration)}</div>
+              <div>👣 {formatDistance(recordingStats.distance)}</div>
+              <div>📍 {recordingStats.checkpointsEntered} visited · 🎁 {recordingStats.claims} claimed</div>
+            </div>
+          )}
+          <div className="flex gap-1">
+            <button
+              onClick={sessionRecorder.isRecording ? sessionRecorder.stop : sessionRecorder.start}
+              disabled={sessionRecorder.loading}
+              className="text-xs px-2 py-1 rounded transition-colors bg-[#8B4513] hover:bg-[#20B2AA] text-white disabled:opacity-50"
+            >
+              {sessionRecorder.isRecording ? '⏹ Stop' : '⏺ Record'}
+            </button>
+            <button
+              onClick={() => router.push('/sessions')}
+              className="text-xs px-2 py-1 rounded transition-colors bg-[#20B2AA] hover:bg-[#8B4513] text-white"
+              title="Review and export recorded sessions"
+            >
+              📂 History
+            </button>
+          </div>
+        </div>
+
+        {/* Claims saved while offline */}
+        {claimQueue.pending.length > 0 && (
+          <div className="bg-[#DEB887] text-[#8B4513] px-3 py-2 rounded-lg text-xs font-medium shadow-lg border-2 border-[#8B4513]">
+            <div className="font-bold mb-1 flex items-center gap-2">
+              📴 Pending claims
+              <span className="px-1.5 rounded-full bg-[#8B4513] text-white">{claimQueue.pending.length}</span>
+            </div>
+            <div className="mb-1 opacity-75">
+              {claimQueue.isFlushing
+                ? 'Sending…'
+                : claimQueue.isOnline ? 'Ready to send' : 'Waiting for network'}
+            </div>
+            <button
+              onClick={() => claimQueue.flush()}
+              disabled={!claimQueue.isOnline || claimQueue.isFlushing || isClaimingReward.size > 0}
+              className="text-xs px-2 py-1 rounded transition-colors bg-[#20B2AA] hover:bg-[#8B4513] text-white disabled:opacity-50"
+              title={claimQueue.pending.map(claim => claim.checkpointLabel).join(', ')}
+            >
+              📶 Send now
+            </button>
+          </div>
+        )}
       </div>
 
+      {/* Simulated location controls (dev providers only) */}
+      {locationProvider.kind !== 'device' && (
+        <LocationDebugPanel
+          provider={locationProvider}
+          checkpoints={checkpoints.checkpoints}
+          replayUrl={replayUrl}
+        />
+      )}
+
+      {/* Letters awarded by the last claim */}
+      {revealedLetters && (
+        <LetterReveal
+          letters={revealedLetters.letters}
+          checkpointLabel={revealedLetters.checkpointLabel}
+          onClose={closeLetterReveal}
+          onOpenBank={() => router.push('/my')}
+        />
+      )}
+
       {/* Recenter Button - Bottom Left */}
-      <div className={`absolute ${insideCheckpoints.size > 0 ? 'bottom-32' : 'bottom-4'} left-4 z-20`}>
+      <div className={`absolute ${insideCheckpoints.size > 0 || showHighlightedCard ? 'bottom-32' : 'bottom-4'} left-4 z-20`}>
         <button
           onClick={recenterToUserLocation}
           className="bg-[#20B2AA] hover:bg-[#8B4513] text-white p-3 rounded-full shadow-lg transition-all duration-200 flex items-center justify-center border-2 border-[#8B4513]"
@@ -974,12 +1234,54 @@ export default function WebGLMapOverlay({ className }: WebGLMapOverlayProps) {
         </button>
       </div>
 
+      {/* Deep-linked Checkpoint Popup */}
+      {showHighlightedCard && highlightedCheckpoint && (
+        <div className="absolute bottom-4 left-4 right-4 z-10">
+          <div className="bg-[#DEB887] text-[#8B4513] p-4 rounded-lg shadow-lg border-4 border-[#8B4513]">
+            <div className="flex items-center justify-between mb-3">
+              <div className="min-w-0">
+                <h3 className="font-bold text-lg truncate">📍 {highlightedCheckpoint.label}</h3>
+                <p className="text-xs text-[#8B4513] opacity-75 truncate">
+                  {highlightedCheckpoint.description || 'Walk here to collect letters'}
+                </p>
+              </div>
+              <button
+                onClick={() => setHighlightedCheckpointId(null)}
+                className="ml-3 text-[#8B4513] hover:text-[#20B2AA] text-xl leading-none"
+                title="Dismiss"
+              >
+                ×
+              </button>
+            </div>
+
+            <div className="flex gap-3">
+              <button
+                onClick={() => shareCheckpoint(highlightedCheckpoint)}
+                className="flex-1 bg-[#20B2AA] hover:bg-[#8B4513] text-white px-4 py-3 rounded-lg text-sm font-medium transition-colors duration-200 flex items-center justify-center gap-2 shadow-lg border-2 border-[#8B4513]"
+              >
+                🔗 Share
+              </button>
+              <button
+                onClick={recenterToUserLocation}
+                className="flex-1 bg-[#8B4513] hover:bg-[#20B2AA] text-white px-4 py-3 rounded-lg text-sm font-medium transition-colors duration-200 flex items-center justify-center gap-2 shadow-lg border-2 border-[#8B4513]"
+              >
+                🧭 Back to me
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Checkpoint Action Buttons for Inside Checkpoints */}
       {insideCheckpoints.size > 0 && (
         <div className="absolute bottom-4 left-4 right-4 z-10 flex flex-col gap-2">
           {Array.from(insideCheckpoints).map(checkpointId => {
             const checkpoint = checkpoints.checkpoints?.find(cp => cp.id === checkpointId);
             if (!checkpoint) return null;
+            // Auto-claims waiting for their batch count as in progress
+            const isClaiming = isClaimingReward.has(checkpoint.id) || autoClaim.queuedIds.includes(checkpoint.id);
+            const isPendingOffline = claimQueue.pendingIds.includes(checkpoint.id);
+            const isRewardDisabled = isClaiming || isPendingOffline || claimHistory.isClaimedThisEpoch(checkpoint.id);
 
             return (
               <div
@@ -991,7 +1293,16 @@ export default function WebGLMapOverlay({ className }: WebGLMapOverlayProps) {
                     <h3 className="font-bold text-lg">📍 {checkpoint.label}</h3>
                     <p className="text-xs text-[#8B4513] opacity-75">You are inside this checkpoint</p>
                   </div>
-                  <div className="w-3 h-3 bg-[#20B2AA] rounded-full animate-pulse"></div>
+                  <div className="flex items-center gap-3">
+                    <button
+                      onClick={() => shareCheckpoint(checkpoint)}
+                      className="text-xs px-2 py-1 rounded bg-[#20B2AA] hover:bg-[#8B4513] text-white transition-colors"
+                      title="Share a link to this checkpoint"
+                    >
+                      🔗 Share
+                    </button>
+                    <div className="w-3 h-3 bg-[#20B2AA] rounded-full animate-pulse"></div>
+                  </div>
                 </div>
 
                 <div className="flex gap-3">
@@ -1004,17 +1315,25 @@ export default function WebGLMapOverlay({ className }: WebGLMapOverlayProps) {
 
                   <button
                     onClick={() => handleCheckpointAction(checkpoint, 'reward')}
-                    disabled={isClaimingReward.has(checkpoint.id)}
-                    className={`flex-1 ${isClaimingReward.has(checkpoint.id)
+                    disabled={isRewardDisabled}
+                    className={`flex-1 ${isRewardDisabled
                       ? 'bg-[#8B4513] opacity-50 cursor-not-allowed'
                       : 'bg-[#20B2AA] hover:bg-[#8B4513]'
                     } text-white px-4 py-3 rounded-lg text-sm font-medium transition-colors duration-200 flex items-center justify-center gap-2 shadow-lg border-2 border-[#8B4513]`}
                   >
-                    {isClaimingReward.has(checkpoint.id) ? (
+                    {isClaiming ? (
                       <>
                         <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
                         Claiming...
                       </>
+                    ) : isPendingOffline ? (
+                      <>
+                        📴 Saved offline
+                      </>
+                    ) : claimHistory.isClaimedThisEpoch(checkpoint.id) ? (
+                      <>
+                        ⏳ {claimCountdown ? `Again in ${claimCountdown}` : 'Claimed'}
+                      </>
                     ) : (
                       <>
                         🎁 Receive Reward
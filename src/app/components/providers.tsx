@@ -5,7 +5,9 @@ import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { getFullnodeUrl } from '@mysten/sui.js/client';
 import { PropsWithChildren, useMemo, useState } from 'react';
 import RegisterEnokiWallets from '@/app/components/RegisterEnokiWallets';
+import RegisterServiceWorker from '@/app/components/RegisterServiceWorker';
 import { ToastProvider } from '@/app/components/Toaster';
+import { TransactionPreviewProvider } from '@/app/components/TransactionPreview';
 
 const { networkConfig } = createNetworkConfig({
 	testnet: { url: getFullnodeUrl('testnet') },
@@ -22,7 +24,10 @@ export function Providers({ children }: PropsWithChildren) {
                 <RegisterEnokiWallets />
                 <WalletProvider autoConnect>
                     <ToastProvider>
-                        {children}
+                        <RegisterServiceWorker />
+                        <TransactionPreviewProvider>
+                            {children}
+                        </TransactionPreviewProvider>
                     </ToastProvider>
                 </WalletProvider>
             </SuiClientProvider>
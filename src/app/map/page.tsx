@@ -1,18 +1,35 @@
 'use client';
 
-import React, { useEffect, useState } from 'react';
+import React, { Suspense, useEffect, useMemo, useState } from 'react';
 import { useCurrentAccount, useSuiClient } from '@mysten/dapp-kit';
-import { useRouter } from 'next/navigation';
+import { useRouter, useSearchParams } from 'next/navigation';
 import WebGLMapOverlay from "@/app/components/WebGLMapOverlay";
 import { hasUserProfile } from "@/utils/userProfile";
+import { parseMapFocus } from "@/utils/mapLinks";
+import { createLocationProvider, resolveLocationProviderKind } from "@/utils/locationProviders";
 
 // Force dynamic rendering for this page since it uses browser APIs
 export const dynamic = 'force-dynamic';
 
 export default function MapPage() {
+    // useSearchParams requires a Suspense boundary
+    return (
+        <Suspense fallback={null}>
+            <MapPageContent />
+        </Suspense>
+    );
+}
+
+function MapPageContent() {
     const currentAccount = useCurrentAccount();
     const suiClient = useSuiClient();
     const router = useRouter();
+    const searchParams = useSearchParams();
+    const focus = useMemo(() => parseMapFocus(new URLSearchParams(searchParams.toString())), [searchParams]);
+    // ?location=simulated|replay (dev builds or NEXT_PUBLIC_ENABLE_LOCATION_SIMULATION) swaps out the device GPS
+    const locationProviderKind = resolveLocationProviderKind(new URLSearchParams(searchParams.toString()));
+    const locationProvider = useMemo(() => createLocationProvider(locationProviderKind), [locationProviderKind]);
+    const replayUrl = searchParams.get('replay');
     const [isCheckingProfile, setIsCheckingProfile] = useState(true);
     const [hasProfile, setHasProfile] = useState(false);
 
@@ -64,7 +81,12 @@ export default function MapPage() {
 
     return (
         <div className="relative w-full h-screen">
-            <WebGLMapOverlay className="w-full h-screen" />
+            <WebGLMapOverlay
+                className="w-full h-screen"
+                focus={focus}
+                locationProvider={locationProvider}
+                replayUrl={replayUrl}
+            />
         </div>
     );
 }
\ No newline at end of file
@@ -1,13 +1,16 @@
 'use client';
 
 import React, { useEffect, useState } from 'react';
-import { useCurrentAccount, useSuiClient, useSignAndExecuteTransaction } from '@mysten/dapp-kit';
+import { useCurrentAccount, useSuiClient } from '@mysten/dapp-kit';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { Transaction } from '@mysten/sui/transactions';
 import { useKioskClient, ListedNFT } from '@/web3/kioskClient';
 import { hasUserProfile } from "@/utils/userProfile";
 import { WalrusClientManager } from '@/web3/walrusClient';
+import { SuimmingTransactionError } from '@/web3/suimming';
+import { useSuimmingTransaction } from '@/hooks/useSuimmingTransaction';
+import { useToast } from '@/app/components/Toaster';
 
 
 export default function MarketPage() {
@@ -28,7 +31,8 @@ export default function MarketPage() {
   const [priceFilter, setPriceFilter] = useState<'all' | 'low' | 'medium' | 'high'>('all');
   const [sortBy, setSortBy] = useState<'newest' | 'oldest' | 'price-low' | 'price-high'>('newest');
 
-  const { mutate: signAndExecuteTransaction } = useSignAndExecuteTransaction();
+  const { runTransaction } = useSuimmingTransaction();
+  const { addNotification } = useToast();
   const kioskClient = useKioskClient(suiClient);
 
   useEffect(() => {
@@ -157,37 +161,29 @@ export default function MarketPage() {
       // Create marketplace listing
       await kioskClient.createListing(selectedNFT.id, listPrice, tx);
 
-      await signAndExecuteTransaction(
-        { transaction: tx },
-        {
-          onSuccess: async () => {
-            console.log(`Successfully listed NFT ${selectedNFT.id} for ${listPrice} SUI`);
-            setShowListModal(false);
-            setListPrice('');
-            setSelectedNFT(null);
-            await Promise.all([loadMyNFTs(), loadMarketNFTs()]);
-          },
-          onError: (error) => {
-            console.error('Error listing NFT:', error);
-            alert('Transaction failed. Please try again.');
-          }
-        }
-      );
+      await runTransaction(tx, { label: 'Listing your NFT', successMessage: `Listed for ${listPrice} SUI`, confirm: true });
+      console.log(`Successfully listed NFT ${selectedNFT.id} for ${listPrice} SUI`);
+      setShowListModal(false);
+      setListPrice('');
+      setSelectedNFT(null);
+      await Promise.all([loadMyNFTs(), loadMarketNFTs()]);
 
     } catch (error) {
       console.error('Error listing NFT:', error);
 
-      // Show user-friendly error messages
-      if (error instanceof Error) {
+      // Show user-friendly error messages; transaction errors are reported by the toaster
+      if (error instanceof SuimmingTransactionError) {
+        // Already shown
+      } else if (error instanceof Error) {
         if (error.message.includes('not deployed')) {
-          alert('🏪 Marketplace not deployed yet!\n\nTo enable NFT trading, please:\n1. Deploy the Move contracts: sui move publish --path suimming-move/\n2. Set NEXT_PUBLIC_MARKETPLACE_ID in your .env file');
+          addNotification('error', '🏪 Marketplace not deployed yet. Deploy the Move contracts and set NEXT_PUBLIC_MARKETPLACE_ID.');
         } else if (error.message.includes('Package ID not configured')) {
-          alert('⚙️ Package ID not configured!\n\nPlease set NEXT_PUBLIC_SUIMMING_PACKAGE_ID in your .env file after deploying the Move contracts.');
+          addNotification('error', '⚙️ Package ID not configured. Set NEXT_PUBLIC_SUIMMING_PACKAGE_ID after deploying the Move contracts.');
         } else {
-          alert(`Error: ${error.message}`);
+          addNotification('error', `Error: ${error.message}`);
         }
       } else {
-        alert('An unexpected error occurred. Please try again.');
+        addNotification('error', 'An unexpected error occurred. Please try again.');
       }
     } finally {
       setIsProcessing(false);
@@ -202,20 +198,11 @@ export default function MarketPage() {
       const tx = new Transaction();
 
       // Purchase from marketplace
-      kioskClient.purchaseListing(nft.listingId, nft.price, tx);
-
-      await signAndExecuteTransaction(
-        { transaction: tx },
-        {
-          onSuccess: async () => {
-            console.log(`Successfully purchased NFT ${nft.id} for ${nft.price} SUI`);
-            await Promise.all([loadMyNFTs(), loadMarketNFTs()]);
-          },
-          onError: (error) => {
-            console.error('Error purchasing NFT:', error);
-          }
-        }
-      );
+      await kioskClient.purchaseListing(nft.listingId, nft.price, tx);
+
+      await runTransaction(tx, { label: 'Buying NFT', successMessage: `Purchased for ${nft.price} SUI`, confirm: true });
+      console.log(`Successfully purchased NFT ${nft.id} for ${nft.price} SUI`);
+      await Promise.all([loadMyNFTs(), loadMarketNFTs()]);
 
     } catch (error) {
       console.error('Error purchasing NFT:', error);
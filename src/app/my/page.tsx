@@ -1,12 +1,20 @@
 'use client';
 
 import React, { useEffect, useState, useCallback } from 'react';
-import { useCurrentAccount, useSuiClient, useSignAndExecuteTransaction } from '@mysten/dapp-kit';
+import { useCurrentAccount, useSuiClient } from '@mysten/dapp-kit';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { hasUserProfile, getUserProfile, parseUserProfile } from "@/utils/userProfile";
 import { WalrusClientManager } from '@/web3/walrusClient';
 import { Transaction } from '@mysten/sui/transactions';
+import { subscribeLetterBankChanges } from '@/utils/letterBankEvents';
+import { updatePlayerSnapshot } from '@/utils/offlineStore';
+import { useSuimmingTransaction } from '@/hooks/useSuimmingTransaction';
+import { useToast } from '@/app/components/Toaster';
+import * as suimming from '@/web3/suimming';
+
+// Most recent NFTs kept for the offline page
+const OFFLINE_NFT_LIMIT = 12;
 
 // NFT Card Component
 interface NFTCardProps {
@@ -415,7 +423,8 @@ export default function MyPage() {
     const currentAccount = useCurrentAccount();
     const suiClient = useSuiClient();
     const router = useRouter();
-    const { mutate: signAndExecuteTransaction } = useSignAndExecuteTransaction();
+    const { runTransaction } = useSuimmingTransaction();
+    const { addNotification } = useToast();
     const [isCheckingProfile, setIsCheckingProfile] = useState(true);
     const [hasProfile, setHasProfile] = useState(false);
     const [userProfile, setUserProfile] = useState<any>(null);
@@ -436,6 +445,36 @@ export default function MyPage() {
     ];
     const MAX_CHARACTERS = 50;
 
+    // Load the profile and count the letters in its letter bank
+    const loadLetterBank = useCallback(async () => {
+        if (!currentAccount) return;
+
+        const profile = await getUserProfile(suiClient, currentAccount.address);
+        if (profile) {
+            const parsedProfile = parseUserProfile(profile);
+            setUserProfile(parsedProfile);
+
+            // Extract owned letters from letter bank
+            if (parsedProfile?.letterBank) {
+                const letterMap = new Map<string, number>();
+
+                if (typeof parsedProfile.letterBank === 'string') {
+                    // Count occurrences of each letter
+                    for (const char of parsedProfile.letterBank.toUpperCase()) {
+                        if (char.match(/[A-Z]/)) {
+                            letterMap.set(char, (letterMap.get(char) || 0) + 1);
+                        }
+                    }
+                }
+
+                setOwnedLetters(letterMap);
+                if (typeof parsedProfile.letterBank === 'string') {
+                    updatePlayerSnapshot(currentAccount.address, { letterBank: parsedProfile.letterBank });
+                }
+            }
+        }
+    }, [currentAccount, suiClient]);
+
     useEffect(() => {
         const checkAccess = async () => {
             if (!currentAccount) {
@@ -451,27 +490,7 @@ export default function MyPage() {
                     return;
                 }
 
-                const profile = await getUserProfile(suiClient, currentAccount.address);
-                if (profile) {
-                    const parsedProfile = parseUserProfile(profile);
-                    setUserProfile(parsedProfile);
-
-                    // Extract owned letters from letter bank
-                    if (parsedProfile?.letterBank) {
-                        const letterMap = new Map<string, number>();
-
-                        if (typeof parsedProfile.letterBank === 'string') {
-                            // Count occurrences of each letter
-                            for (const char of parsedProfile.letterBank.toUpperCase()) {
-                                if (char.match(/[A-Z]/)) {
-                                    letterMap.set(char, (letterMap.get(char) || 0) + 1);
-                                }
-                            }
-                        }
-
-                        setOwnedLetters(letterMap);
-                    }
-                }
+                await loadLetterBank();
 
                 setHasProfile(true);
             } catch (error) {
@@ -483,7 +502,14 @@ export default function MyPage() {
         };
 
         checkAccess();
-    }, [currentAccount, router, suiClient]);
+    }, [currentAccount, router, suiClient, loadLetterBank]);
+
+    // Letters claimed on the map (in this or another tab) show up without a reload
+    useEffect(() => {
+        return subscribeLetterBankChanges(() => {
+            loadLetterBank().catch(error => console.error('Error refreshing letter bank:', error));
+        });
+    }, [loadLetterBank]);
 
     const loadMintedNFTs = useCallback(async () => {
         if (!currentAccount || !userProfile) return;
@@ -517,6 +543,11 @@ export default function MyPage() {
                 .sort((a, b) => (b?.createdAt || 0) - (a?.createdAt || 0));
 
             setMintedNFTs(nftData);
+            updatePlayerSnapshot(currentAccount.address, {
+                nfts: nftData
+                    .flatMap(nft => (nft ? [{ id: nft.id, text: nft.text, walrusCid: nft.walrusCid, createdAt: nft.createdAt }] : []))
+                    .slice(0, OFFLINE_NFT_LIMIT)
+            });
         } catch (error) {
             console.error('Failed to load minted NFTs:', error);
         } finally {
@@ -745,7 +776,7 @@ export default function MyPage() {
             const profileObjects = await suiClient.getOwnedObjects({
                 owner: currentAccount.address,
                 filter: {
-                    StructType: `${process.env.NEXT_PUBLIC_SUIMMING_PACKAGE_ID}::user::UserProfile`
+                    StructType: suimming.SUIMMING_TYPES.userProfile
                 }
             });
 
@@ -763,46 +794,39 @@ export default function MyPage() {
             // Create and execute transaction
             console.log('🔗 Creating blockchain transaction...');
             const transaction = new Transaction();
-            transaction.moveCall({
-                target: `${process.env.NEXT_PUBLIC_SUIMMING_PACKAGE_ID}::nft::mint_sentence_from_profile`,
-                arguments: [
-                    transaction.object(userProfileId),
-                    transaction.pure.string(usedLettersString),
-                    transaction.pure.string(currentText),
-                    transaction.pure.string(blobId)
-                ]
+            suimming.nft.mintSentenceFromProfile(transaction, {
+                profile: userProfileId,
+                lettersUsed: usedLettersString,
+                text: currentText,
+                blobId
             });
 
             console.log('📤 Executing transaction...');
+            const result = await runTransaction(transaction, {
+                label: 'Minting your NFT',
+                successMessage: '🎉 NFT minted successfully!',
+                confirm: true,
+                letters: usedLettersArray
+            });
+            console.log('✅ NFT minted successfully!', result);
 
-            // Execute transaction with proper error handling
-            signAndExecuteTransaction(
-                { transaction },
-                {
-                    onSuccess: (result) => {
-                        console.log('✅ NFT minted successfully!', result);
-                        alert('🎉 NFT minted successfully!');
-
-                        // Reset form
-                        setCurrentText('');
-                        setTextGrid(new Array(50).fill(''));
-                        setUsedLetters(new Map());
-                        setShowModal(false);
-
-                        // Reload NFTs and profile
-                        loadMintedNFTs();
-                    },
-                    onError: (error) => {
-                        console.error('❌ Transaction failed:', error);
-                        alert(`Failed to mint NFT: ${error.message}`);
-                    }
-                }
-            );
+            // Reset form
+            setCurrentText('');
+            setTextGrid(new Array(50).fill(''));
+            setUsedLetters(new Map());
+            setShowModal(false);
+
+            // Reload NFTs and profile
+            loadMintedNFTs();
+            loadLetterBank();
 
         } catch (error) {
             console.error('💥 NFT minting failed:', error);
-            const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-            alert(`Failed to mint NFT: ${errorMessage}`);
+            // Transaction errors are already shown by the toaster
+            if (!(error instanceof suimming.SuimmingTransactionError)) {
+                const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+                addNotification('error', `Failed to mint NFT: ${errorMessage}`);
+            }
         } finally {
             setIsMinting(false);
         }
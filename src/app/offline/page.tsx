@@ -0,0 +1,108 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { loadLatestPlayerSnapshot } from '@/utils/offlineStore';
+import type { PlayerSnapshot } from '@/types/player';
+
+// Served by the service worker when a page can't be reached; everything here comes from IndexedDB
+
+function countLetters(letterBank: string): [string, number][] {
+  const counts = new Map<string, number>();
+  for (const char of letterBank.toUpperCase()) {
+    if (char.match(/[A-Z]/)) {
+      counts.set(char, (counts.get(char) || 0) + 1);
+    }
+  }
+  return Array.from(counts.entries()).sort(([a], [b]) => a.localeCompare(b));
+}
+
+export default function OfflinePage() {
+  const [snapshot, setSnapshot] = useState<PlayerSnapshot | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadLatestPlayerSnapshot()
+      .then(setSnapshot)
+      .finally(() => setLoading(false));
+  }, []);
+
+  // Go back to where the player was as soon as the connection returns
+  useEffect(() => {
+    const handleOnline = () => window.location.reload();
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, []);
+
+  const letters = snapshot ? countLetters(snapshot.letterBank) : [];
+
+  return (
+    <div className="min-h-screen bg-[#F5F5DC] py-8 px-4">
+      <div className="max-w-4xl mx-auto">
+        <div className="bg-[#DEB887] rounded-2xl p-6 mb-8 shadow-lg border-4 border-[#8B4513] text-[#8B4513]">
+          <h1 className="text-2xl font-bold mb-1">📴 You&apos;re offline</h1>
+          <p className="text-sm opacity-75 mb-4">
+            Claims you make on the map are saved and sent when you&apos;re back online.
+          </p>
+          <button
+            onClick={() => window.location.reload()}
+            className="px-4 py-2 bg-[#20B2AA] hover:bg-[#8B4513] text-white rounded-xl font-bold transition-all duration-200 shadow-md border-2 border-[#8B4513]"
+          >
+            Try again
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="text-center text-[#8B4513]">Loading saved data…</div>
+        ) : !snapshot ? (
+          <div className="bg-white rounded-2xl shadow-lg p-6 border-2 border-[#8B4513] text-center text-gray-600">
+            Open your letter bank once while online to have it available here.
+          </div>
+        ) : (
+          <>
+            <div className="bg-white rounded-2xl shadow-lg p-5 border-2 border-[#8B4513] mb-6">
+              <div className="flex items-baseline justify-between mb-3">
+                <h2 className="font-bold text-[#8B4513]">🔤 Letter bank</h2>
+                <span className="text-xs text-gray-500">
+                  Saved {new Date(snapshot.updatedAt).toLocaleString()}
+                </span>
+              </div>
+              {letters.length === 0 ? (
+                <p className="text-sm text-gray-600">No letters yet. Visit checkpoints to collect some.</p>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {letters.map(([letter, count]) => (
+                    <div
+                      key={letter}
+                      className="relative w-10 h-12 flex items-center justify-center bg-[#F5F5DC] rounded-lg border-2 border-[#8B4513] text-xl font-bold text-[#8B4513]"
+                    >
+                      {letter}
+                      <span className="absolute -top-2 -right-2 px-1.5 rounded-full bg-[#20B2AA] text-white text-xs">
+                        {count}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="bg-white rounded-2xl shadow-lg p-5 border-2 border-[#8B4513]">
+              <h2 className="font-bold text-[#8B4513] mb-3">📜 Recent NFTs</h2>
+              {snapshot.nfts.length === 0 ? (
+                <p className="text-sm text-gray-600">No Sentence NFTs minted yet.</p>
+              ) : (
+                <ul className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  {snapshot.nfts.map(nft => (
+                    <li key={nft.id} className="bg-[#F5F5DC] rounded-xl p-3 border-2 border-[#8B4513]">
+                      <p className="font-bold text-[#8B4513] break-words">{nft.text}</p>
+                      <p className="text-xs text-gray-500 mt-1">{new Date(nft.createdAt).toLocaleDateString()}</p>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import React, { useEffect, useState } from "react";
 import { useCurrentAccount, useSuiClient } from '@mysten/dapp-kit';
 import { useRouter } from 'next/navigation';
 import ConnectWallet from "@/app/components/ConnectWallet";
+import InstallBanner from "@/app/components/InstallBanner";
 import { hasUserProfile } from "@/utils/userProfile";
 
 export default function Home() {
@@ -55,6 +56,8 @@ export default function Home() {
     return (
         <div className="min-h-screen bg-[#F5F5DC] flex flex-col justify-center py-12 sm:px-6 lg:px-8">
             <div className="sm:mx-auto sm:w-full sm:max-w-md">
+                <InstallBanner />
+
                 <div className="text-center mb-6">
                     <div className="flex justify-center mb-4">
                         <img
@@ -0,0 +1,111 @@
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import { useSessionRecorder } from '@/hooks/useSessionRecorder';
+import { downloadSession, formatDuration, getSessionStats } from '@/utils/sessionExport';
+import { formatDistance } from '@/utils/geoUtils';
+import type { PlaySession } from '@/types/session';
+
+function SessionCard({ session, onDelete }: { session: PlaySession; onDelete: () => void }) {
+  const stats = getSessionStats(session);
+  const speedKmh = stats.averageSpeed * 3.6;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-5 border-2 border-[#8B4513]">
+      <div className="flex items-start justify-between mb-3">
+        <div>
+          <h3 className="font-bold text-[#8B4513]">
+            {new Date(session.startedAt).toLocaleString()}
+          </h3>
+          <p className="text-xs text-gray-500">{stats.pointCount} track points</p>
+        </div>
+        <button
+          onClick={onDelete}
+          className="text-xs text-red-600 hover:text-red-800"
+          title="Delete this session"
+        >
+          Delete
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-sm text-gray-700 mb-4">
+        <div>⏱️ {formatDuration(stats.duration)}</div>
+        <div>👣 {formatDistance(stats.distance)}</div>
+        <div>🏃 {speedKmh.toFixed(1)} km/h</div>
+        <div>📍 {stats.checkpointsEntered} · ⏰ {stats.dwells} · 🎁 {stats.claims}</div>
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => downloadSession(session, 'gpx')}
+          className="flex-1 bg-[#20B2AA] hover:bg-[#8B4513] text-white px-3 py-2 rounded-lg text-sm font-medium transition-colors duration-200 border-2 border-[#8B4513]"
+        >
+          Export GPX
+        </button>
+        <button
+          onClick={() => downloadSession(session, 'geojson')}
+          className="flex-1 bg-[#8B4513] hover:bg-[#20B2AA] text-white px-3 py-2 rounded-lg text-sm font-medium transition-colors duration-200 border-2 border-[#8B4513]"
+        >
+          Export GeoJSON
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Recorded play sessions with route stats and GPX/GeoJSON export
+ */
+export default function SessionsPage() {
+  const { sessions, activeSession, loading, deleteSession } = useSessionRecorder();
+
+  return (
+    <div className="min-h-screen bg-[#F5F5DC] py-8 px-4">
+      <div className="max-w-4xl mx-auto">
+        <div className="bg-[#DEB887] rounded-2xl p-6 mb-8 shadow-lg border-4 border-[#8B4513]">
+          <div className="flex items-center justify-between mb-4">
+            <Link
+              href="/map"
+              className="inline-flex items-center px-4 py-2 bg-[#F5F5DC] hover:bg-[#FFFACD] text-[#8B4513] rounded-xl font-bold transition-all duration-200 shadow-md hover:shadow-lg border-2 border-[#8B4513]"
+            >
+              <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+              </svg>
+              Back to Map
+            </Link>
+          </div>
+          <div className="text-center">
+            <h1 className="text-4xl font-bold text-gray-900 mb-2">Play Sessions</h1>
+            <p className="text-lg text-gray-700">Review your walks and export them as GPX or GeoJSON</p>
+          </div>
+        </div>
+
+        {activeSession && (
+          <div className="bg-[#DEB887] text-[#8B4513] rounded-xl p-4 mb-6 border-2 border-[#8B4513] text-sm font-medium">
+            🔴 A session is being recorded since {new Date(activeSession.startedAt).toLocaleTimeString()}.
+            Stop it from the map to export it.
+          </div>
+        )}
+
+        {loading ? (
+          <div className="text-center text-gray-600 py-12">Loading sessions...</div>
+        ) : sessions.length === 0 ? (
+          <div className="text-center text-gray-600 py-12">
+            No sessions yet. Press ⏺ Record on the map to start one.
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {sessions.map(session => (
+              <SessionCard
+                key={session.id}
+                session={session}
+                onDelete={() => deleteSession(session.id)}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
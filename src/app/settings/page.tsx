@@ -0,0 +1,219 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useCurrentAccount } from '@mysten/dapp-kit';
+import { useToast } from '@/app/components/Toaster';
+import { useNotificationSettings } from '@/hooks/useNotificationSettings';
+import { useAutoClaimSupport } from '@/hooks/useAutoClaim';
+import { useWalletSession } from '@/hooks/useWalletSession';
+import type { NotificationSettings } from '@/utils/notificationSettings';
+import {
+  playArrivalSound,
+  requestNotificationPermission,
+  showSystemNotification,
+  vibrateForArrival
+} from '@/utils/arrivalFeedback';
+import { isPushSupported, syncPushSubscription } from '@/utils/pushSubscription';
+import type { PushTopic } from '@/types/push';
+
+const SETTING_ROWS: { key: keyof NotificationSettings; label: string; description: string }[] = [
+  { key: 'arrivalSheet', label: 'Arrival sheet', description: 'Show a card at the top of the map when you walk into a checkpoint' },
+  { key: 'vibration', label: 'Vibration', description: 'Buzz on arrival (supported on most Android browsers)' },
+  { key: 'sound', label: 'Sound', description: 'Play a short chime on arrival' },
+  { key: 'notifyOnDwell', label: 'Dwell alerts', description: 'Alert again once you have stayed long enough to claim' },
+  { key: 'backgroundNotifications', label: 'Background notifications', description: 'Notify you through the system when the app is in the background' }
+];
+
+const CLAIM_ROWS: typeof SETTING_ROWS = [
+  { key: 'autoClaim', label: 'Auto-claim', description: 'Claim letters automatically once you have stayed long enough at a checkpoint' }
+];
+
+type PushSettingKey = 'pushSales' | 'pushNearbyCheckpoints';
+
+const PUSH_ROWS: { key: PushSettingKey; label: string; description: string }[] = [
+  { key: 'pushSales', label: 'NFT sales', description: 'Get notified when someone buys a Sentence NFT you listed' },
+  { key: 'pushNearbyCheckpoints', label: 'New checkpoints nearby', description: 'Get notified when a checkpoint appears near where you turned this on' }
+];
+
+const PUSH_TOPIC_SETTINGS: [PushTopic, PushSettingKey][] = [
+  ['sales', 'pushSales'],
+  ['nearby_checkpoints', 'pushNearbyCheckpoints']
+];
+
+/**
+ * Arrival and push notification preferences
+ */
+export default function SettingsPage() {
+  const { settings, updateSettings } = useNotificationSettings();
+  const { addNotification } = useToast();
+  const canAutoClaim = useAutoClaimSupport();
+  const currentAccount = useCurrentAccount();
+  const getWalletSession = useWalletSession();
+  const [permission, setPermission] = useState<NotificationPermission | 'unsupported'>('default');
+  const [canPush, setCanPush] = useState(false);
+  const [isSavingPush, setIsSavingPush] = useState(false);
+
+  useEffect(() => {
+    setPermission(typeof Notification === 'undefined' ? 'unsupported' : Notification.permission);
+    setCanPush(isPushSupported());
+  }, []);
+
+  // Push topics live on the server, so the subscription is updated before the setting is saved
+  const togglePushSetting = async (key: PushSettingKey) => {
+    const next = { ...settings, [key]: !settings[key] };
+    const topics = PUSH_TOPIC_SETTINGS.filter(([, settingKey]) => next[settingKey]).map(([topic]) => topic);
+
+    setIsSavingPush(true);
+    try {
+      // Sale notifications are tied to the wallet, so the wallet signs for them
+      const session = topics.includes('sales') ? await getWalletSession() : null;
+      await syncPushSubscription(topics, session);
+      updateSettings({ [key]: next[key] });
+    } catch (error) {
+      console.error('Failed to update push subscription:', error);
+      addNotification('error', error instanceof Error ? error.message : 'Could not update push notifications');
+    } finally {
+      setIsSavingPush(false);
+    }
+  };
+
+  const toggleSetting = async (key: keyof NotificationSettings) => {
+    const enabled = !settings[key];
+
+    // Background notifications are useless without permission, so ask before turning them on
+    if (key === 'backgroundNotifications' && enabled) {
+      const result = await requestNotificationPermission();
+      setPermission(typeof Notification === 'undefined' ? 'unsupported' : result);
+      if (result !== 'granted') {
+        addNotification('error', 'Notification permission was not granted');
+        return;
+      }
+    }
+
+    updateSettings({ [key]: enabled });
+  };
+
+  const sendTestAlert = async () => {
+    if (settings.vibration) vibrateForArrival('enter');
+    if (settings.sound) playArrivalSound('enter');
+
+    if (settings.backgroundNotifications) {
+      const shown = await showSystemNotification('Suimming test', 'Background notifications are working.', '/map', 'suimming-test');
+      if (!shown) {
+        addNotification('error', 'Could not show a system notification');
+        return;
+      }
+    }
+    addNotification('success', 'Test alert sent');
+  };
+
+  return (
+    <div className="min-h-screen bg-[#F5F5DC] py-8 px-4">
+      <div className="max-w-2xl mx-auto">
+        <div className="bg-[#DEB887] rounded-2xl p-6 mb-8 shadow-lg border-4 border-[#8B4513]">
+          <div className="flex items-center justify-between mb-4">
+            <Link
+              href="/map"
+              className="inline-flex items-center px-4 py-2 bg-[#F5F5DC] hover:bg-[#FFFACD] text-[#8B4513] rounded-xl font-bold transition-all duration-200 shadow-md hover:shadow-lg border-2 border-[#8B4513]"
+            >
+              <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+              </svg>
+              Back to Map
+            </Link>
+          </div>
+          <div className="text-center">
+            <h1 className="text-4xl font-bold text-gray-900 mb-2">Alerts</h1>
+            <p className="text-lg text-gray-700">Choose how you hear about checkpoints you reach</p>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-xl p-6 border-2 border-[#8B4513] divide-y divide-gray-100">
+          {SETTING_ROWS.map(row => (
+            <label key={row.key} className="flex items-center justify-between gap-4 py-4 cursor-pointer">
+              <div>
+                <div className="font-bold text-[#8B4513]">{row.label}</div>
+                <div className="text-sm text-gray-600">{row.description}</div>
+                {row.key === 'backgroundNotifications' && permission !== 'granted' && (
+                  <div className="text-xs text-gray-500 mt-1">
+                    {permission === 'unsupported'
+                      ? 'Not supported in this browser'
+                      : permission === 'denied'
+                        ? 'Blocked in your browser settings'
+                        : 'You will be asked for permission'}
+                  </div>
+                )}
+              </div>
+              <input
+                type="checkbox"
+                checked={settings[row.key]}
+                onChange={() => toggleSetting(row.key)}
+                disabled={row.key === 'backgroundNotifications' && permission === 'unsupported'}
+                className="w-5 h-5 accent-[#20B2AA]"
+              />
+            </label>
+          ))}
+        </div>
+
+        <h2 className="text-xl font-bold text-[#8B4513] mt-8 mb-3">Claiming</h2>
+        <div className="bg-white rounded-2xl shadow-xl p-6 border-2 border-[#8B4513] divide-y divide-gray-100">
+          {CLAIM_ROWS.map(row => (
+            <label key={row.key} className="flex items-center justify-between gap-4 py-4 cursor-pointer">
+              <div>
+                <div className="font-bold text-[#8B4513]">{row.label}</div>
+                <div className="text-sm text-gray-600">{row.description}</div>
+                {row.key === 'autoClaim' && !canAutoClaim && (
+                  <div className="text-xs text-gray-500 mt-1">
+                    Only available when signed in with Google, since other wallets ask you to approve every claim
+                  </div>
+                )}
+              </div>
+              <input
+                type="checkbox"
+                checked={settings[row.key]}
+                onChange={() => toggleSetting(row.key)}
+                className="w-5 h-5 accent-[#20B2AA]"
+              />
+            </label>
+          ))}
+        </div>
+
+        <h2 className="text-xl font-bold text-[#8B4513] mt-8 mb-3">Push notifications</h2>
+        <div className="bg-white rounded-2xl shadow-xl p-6 border-2 border-[#8B4513] divide-y divide-gray-100">
+          {PUSH_ROWS.map(row => {
+            const needsWallet = row.key === 'pushSales' && !currentAccount && !settings[row.key];
+
+            return (
+              <label key={row.key} className="flex items-center justify-between gap-4 py-4 cursor-pointer">
+                <div>
+                  <div className="font-bold text-[#8B4513]">{row.label}</div>
+                  <div className="text-sm text-gray-600">{row.description}</div>
+                  {(!canPush || needsWallet) && (
+                    <div className="text-xs text-gray-500 mt-1">
+                      {!canPush ? 'Not supported in this browser' : 'Connect your wallet to turn this on'}
+                    </div>
+                  )}
+                </div>
+                <input
+                  type="checkbox"
+                  checked={settings[row.key]}
+                  onChange={() => togglePushSetting(row.key)}
+                  disabled={!canPush || needsWallet || isSavingPush}
+                  className="w-5 h-5 accent-[#20B2AA]"
+                />
+              </label>
+            );
+          })}
+        </div>
+
+        <button
+          onClick={sendTestAlert}
+          className="mt-6 w-full bg-[#20B2AA] hover:bg-[#8B4513] text-white px-4 py-3 rounded-lg text-sm font-medium transition-colors duration-200 shadow-lg border-2 border-[#8B4513]"
+        >
+          🔔 Send test alert
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,17 +1,18 @@
 'use client';
 
 import React, { useState } from 'react';
-import { useCurrentAccount, useSuiClient, useSignAndExecuteTransaction, useDisconnectWallet } from '@mysten/dapp-kit';
+import { useCurrentAccount, useDisconnectWallet } from '@mysten/dapp-kit';
 import { Transaction } from '@mysten/sui/transactions';
 import { useRouter } from 'next/navigation';
 import { useToast } from '@/app/components/Toaster';
+import { useSuimmingTransaction } from '@/hooks/useSuimmingTransaction';
+import * as suimming from '@/web3/suimming';
 
 export default function SignupPage() {
     const currentAccount = useCurrentAccount();
-    const suiClient = useSuiClient();
     const router = useRouter();
     const { addNotification } = useToast();
-    const { mutate: signAndExecuteTransaction } = useSignAndExecuteTransaction();
+    const { runTransaction } = useSuimmingTransaction();
     const { mutate: disconnectWallet } = useDisconnectWallet();
 
     const [formData, setFormData] = useState({
@@ -41,80 +42,26 @@ export default function SignupPage() {
         try {
             // First, create the profile
             const createTransaction = new Transaction();
-            const moveTarget = `${process.env.NEXT_PUBLIC_SUIMMING_PACKAGE_ID}::user::create_profile`;
-
-            console.log('Creating profile with Move target:', moveTarget);
-            console.log('Package ID:', process.env.NEXT_PUBLIC_SUIMMING_PACKAGE_ID);
-
-            createTransaction.moveCall({
-                target: moveTarget,
-            });
-
-            // Execute the transaction using the hook
-            await new Promise((resolve, reject) => {
-                signAndExecuteTransaction(
-                    { transaction: createTransaction },
-                    {
-                        onSuccess: (result) => {
-                            console.log('Profile creation transaction successful:', result);
-                            resolve(result);
-                        },
-                        onError: (error) => {
-                            console.error('Profile creation transaction failed:', error);
-                            reject(error);
-                        }
-                    }
-                );
-            });
+            suimming.user.createProfile(createTransaction);
 
+            const result = await runTransaction(createTransaction, { label: 'Creating your profile', successMessage: false });
             console.log('Profile created successfully!');
 
             // If user provided display name or bio, update the profile
             if (formData.displayName.trim() || formData.bio.trim()) {
-                // Wait a moment for the profile to be created
-                await new Promise(resolve => setTimeout(resolve, 1000));
-
-                // Get the created profile object
-                const profileObjects = await suiClient.getOwnedObjects({
-                    owner: currentAccount.address,
-                    filter: {
-                        StructType: `${process.env.NEXT_PUBLIC_SUIMMING_PACKAGE_ID}::user::UserProfile`
-                    }
-                });
-
-                if (profileObjects.data.length > 0) {
-                    const profileId = profileObjects.data[0].data?.objectId;
-
-                    if (profileId) {
-                        const updateTransaction = new Transaction();
-
-                        const displayNameOption = formData.displayName.trim()
-                            ? [formData.displayName.trim()]
-                            : [];
-
-                        const bioOption = formData.bio.trim()
-                            ? [formData.bio.trim()]
-                            : [];
-
-                        updateTransaction.moveCall({
-                            target: `${process.env.NEXT_PUBLIC_SUIMMING_PACKAGE_ID}::user::update_profile`,
-                            arguments: [
-                                updateTransaction.object(profileId),
-                                updateTransaction.pure.option('string', displayNameOption.length > 0 ? displayNameOption[0] : null),
-                                updateTransaction.pure.option('string', bioOption.length > 0 ? bioOption[0] : null)
-                            ]
-                        });
-
-                        await new Promise((resolve, reject) => {
-                            signAndExecuteTransaction(
-                                { transaction: updateTransaction },
-                                {
-                                    onSuccess: (result) => resolve(result),
-                                    onError: (error) => reject(error)
-                                }
-                            );
-                        });
-                    }
+                const created = result.objectChanges?.find(
+                    change => change.type === 'created' && change.objectType === suimming.SUIMMING_TYPES.userProfile
+                );
+
+                if (created?.type === 'created') {
+                    const updateTransaction = new Transaction();
+                    suimming.user.updateProfile(updateTransaction, {
+                        profile: created.objectId,
+                        displayName: formData.displayName.trim() || null,
+                        bio: formData.bio.trim() || null
+                    });
+
+                    await runTransaction(updateTransaction, { label: 'Saving your profile details', successMessage: false });
                 }
             }
 
@@ -122,7 +69,10 @@ export default function SignupPage() {
             setTimeout(() => router.push('/map'), 2000);
         } catch (error) {
             console.error('Error creating profile:', error);
-            addNotification('error', 'Failed to create profile. Please try again.');
+            // Transaction errors are already shown by the toaster
+            if (!(error instanceof suimming.SuimmingTransactionError)) {
+                addNotification('error', 'An error occurred while creating your profile.');
+            }
         } finally {
             setIsLoading(false);
         }
@@ -0,0 +1,58 @@
+'use client';
+
+import { useCallback } from 'react';
+import { useToast } from '@/app/components/Toaster';
+import { useNotificationSettings } from '@/hooks/useNotificationSettings';
+import type { CheckpointCoordinates } from '@/hooks/useCheckpoints';
+import { playArrivalSound, showSystemNotification, vibrateForArrival } from '@/utils/arrivalFeedback';
+import { buildCheckpointLink } from '@/utils/mapLinks';
+
+/**
+ * Arrival feedback for geofence events, honoring the player's notification settings
+ *
+ * Foreground: in-app sheet, vibration and sound. Background (tab hidden): a system
+ * notification through the service worker that reopens the map on the checkpoint.
+ */
+export function useArrivalAlerts() {
+  const { settings } = useNotificationSettings();
+  const { showSheet } = useToast();
+
+  const alertArrival = useCallback((
+    kind: 'enter' | 'dwell',
+    checkpoint: CheckpointCoordinates,
+    onClaim?: () => void
+  ) => {
+    if (kind === 'dwell' && !settings.notifyOnDwell) return;
+
+    const title = kind === 'enter' ? `Arrived at ${checkpoint.label}` : `Still at ${checkpoint.label}`;
+    const message = kind === 'enter'
+      ? checkpoint.description || 'You are inside this checkpoint. Collect your letters!'
+      : 'Your letters are ready to claim here.';
+
+    if (settings.vibration) {
+      vibrateForArrival(kind);
+    }
+
+    if (typeof document !== 'undefined' && document.visibilityState === 'hidden') {
+      if (settings.backgroundNotifications) {
+        showSystemNotification(title, message, buildCheckpointLink(checkpoint.id), `checkpoint-${checkpoint.id}`);
+      }
+      return;
+    }
+
+    if (settings.sound) {
+      playArrivalSound(kind);
+    }
+    if (settings.arrivalSheet) {
+      showSheet({
+        icon: kind === 'enter' ? '📍' : '⏰',
+        title,
+        message,
+        actionLabel: onClaim && checkpoint.active ? '🎁 Get letters' : undefined,
+        onAction: onClaim
+      });
+    }
+  }, [settings, showSheet]);
+
+  return { alertArrival };
+}
@@ -0,0 +1,88 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useCurrentWallet } from '@mysten/dapp-kit';
+import { isEnokiWallet } from '@mysten/enoki';
+
+// Claims queued within this window are sent together, one after another
+const AUTO_CLAIM_BATCH_WINDOW_MS = 2000;
+
+interface UseAutoClaimOptions {
+  enabled: boolean;
+  busy: boolean; // a claim transaction is in flight; queued claims wait for it to settle
+  onFlush: (checkpointIds: string[]) => void;
+}
+
+/**
+ * Whether the connected wallet can sign without a prompt
+ * Enoki (zkLogin) wallets sign with a session key, so claims can go out without user interaction.
+ */
+export function useAutoClaimSupport(): boolean {
+  const { currentWallet } = useCurrentWallet();
+  return !!currentWallet && isEnokiWallet(currentWallet);
+}
+
+/**
+ * Queue of checkpoints to claim automatically
+ * Claims are collected for a short window and handed over together once no other claim is in flight,
+ * so checkpoints becoming claimable at once are sent back to back instead of racing each other.
+ *
+ * They can't share one transaction: claim_letters takes `Random`, and Sui only allows TransferObjects
+ * and MergeCoins after a MoveCall that uses it. Each claim is its own transaction (and signature).
+ */
+export function useAutoClaim({ enabled, busy, onFlush }: UseAutoClaimOptions) {
+  const isSupported = useAutoClaimSupport();
+  const isActive = enabled && isSupported;
+  const [queuedIds, setQueuedIds] = useState<string[]>([]);
+  const [isWindowOpen, setIsWindowOpen] = useState(false);
+  // The queue itself lives in a ref so a flush can take it atomically; the state only drives re-renders
+  const queueRef = useRef<string[]>([]);
+  const onFlushRef = useRef(onFlush);
+
+  useEffect(() => {
+    onFlushRef.current = onFlush;
+  }, [onFlush]);
+
+  /**
+   * Add a checkpoint to the next batch
+   * @returns Whether the checkpoint was queued (false when auto-claim is off)
+   */
+  const enqueue = useCallback((checkpointId: string): boolean => {
+    if (!isActive) return false;
+
+    if (!queueRef.current.includes(checkpointId)) {
+      queueRef.current = [...queueRef.current, checkpointId];
+      setQueuedIds(queueRef.current);
+    }
+    setIsWindowOpen(true);
+    return true;
+  }, [isActive]);
+
+  // Close the batch window a moment after the first claim is queued
+  useEffect(() => {
+    if (!isWindowOpen) return;
+    const timeout = setTimeout(() => setIsWindowOpen(false), AUTO_CLAIM_BATCH_WINDOW_MS);
+    return () => clearTimeout(timeout);
+  }, [isWindowOpen]);
+
+  // Flush once the window has closed and no other claim is in flight
+  useEffect(() => {
+    if (isWindowOpen || busy || queuedIds.length === 0) return;
+
+    // Take the queue before handing it over, so a re-run of this effect finds it empty
+    const batch = queueRef.current;
+    queueRef.current = [];
+    setQueuedIds([]);
+    if (batch.length > 0) onFlushRef.current(batch);
+  }, [isWindowOpen, busy, queuedIds]);
+
+  // Drop anything queued when auto-claim is turned off or the wallet changes
+  useEffect(() => {
+    if (!isActive) {
+      queueRef.current = [];
+      setQueuedIds([]);
+    }
+  }, [isActive]);
+
+  return { isSupported, isActive, queuedIds, enqueue };
+}
@@ -1,8 +1,19 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { useSuiClient } from '@mysten/dapp-kit';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useSuiClientContext } from '@mysten/dapp-kit';
+import type { EventId, SuiClient, SuiObjectResponse } from '@mysten/sui/client';
 import { useWalrusClient } from '@/web3/walrusClient';
+import type { CheckpointGeofence, CheckpointSkipReason, SkippedCheckpoint } from '@/types/checkpoint';
+import { validateCheckpointMetadata } from '@/utils/checkpointMetadata';
+import { SUIMMING_EVENTS, SUIMMING_PACKAGE_ID, SUIMMING_TYPES } from '@/web3/suimming/config';
+import { parseCheckpointCreatedEvent, parseCheckpointObject } from '@/web3/suimming/parse';
+import {
+  getCachedMetadata,
+  putCachedMetadata,
+  loadCheckpointSnapshot,
+  saveCheckpointSnapshot
+} from '@/utils/checkpointCache';
 
 export interface CheckpointCoordinates {
   id: string;
@@ -12,23 +23,360 @@ export interface CheckpointCoordinates {
   active: boolean;
   metaWalrusId: string;
   sealRef: string;
+  description: string;
+  imageUrl: string;
+  creator: string | null;
+  createdAt: string | null;
+  metadataVersion: string;
+  geofence: CheckpointGeofence;
+}
+
+export interface UseCheckpointsOptions {
+  live?: boolean; // poll for created/toggled checkpoints and patch the list in place
+  pollInterval?: number; // milliseconds
 }
 
 export interface UseCheckpointsResult {
   checkpoints: CheckpointCoordinates[];
+  skipped: SkippedCheckpoint[]; // checkpoints that could not be shown, with the reason
   loading: boolean;
   error: string | null;
   refetch: () => Promise<void>;
 }
 
-export function useCheckpoints(): UseCheckpointsResult {
+type CheckpointResolution =
+  | { checkpoint: CheckpointCoordinates }
+  | { skipped: SkippedCheckpoint };
+
+type MetadataLoadResult =
+  | { raw: unknown }
+  | { reason: CheckpointSkipReason; detail?: string };
+
+const CHECKPOINT_UPDATE_FUNCTION = 'toggle_checkpoint';
+const OBJECT_BATCH_SIZE = 50;
+const DEFAULT_POLL_INTERVAL_MS = 15000;
+
+/**
+ * Walk every page of CheckpointCreated events after `cursor` (oldest first)
+ * @returns Checkpoint object IDs in creation order and the cursor of the last event seen
+ */
+async function queryCreatedCheckpointIds(
+  suiClient: SuiClient,
+  cursor: EventId | null
+): Promise<{ checkpointIds: string[]; nextCursor: EventId | null }> {
+  const checkpointIds: string[] = [];
+  let nextCursor = cursor;
+  let hasNextPage = true;
+
+  while (hasNextPage) {
+    const page = await suiClient.queryEvents({
+      query: { MoveEventType: SUIMMING_EVENTS.checkpointCreated },
+      cursor: nextCursor,
+      order: 'ascending'
+    });
+
+    page.data.forEach(event => {
+      const checkpointId = parseCheckpointCreatedEvent(event);
+      if (checkpointId) {
+        checkpointIds.push(checkpointId);
+      }
+    });
+
+    // 빈 페이지는 커서를 돌려주지 않으므로 이전 커서 유지
+    nextCursor = page.nextCursor ?? nextCursor;
+    hasNextPage = page.hasNextPage && page.data.length > 0;
+  }
+
+  return { checkpointIds, nextCursor };
+}
+
+/**
+ * Get the digest of the most recent toggle_checkpoint transaction
+ * Used as the starting cursor so only toggles after mount are followed
+ */
+async function queryLatestUpdateDigest(suiClient: SuiClient): Promise<string | null> {
+  const page = await suiClient.queryTransactionBlocks({
+    filter: {
+      MoveFunction: { package: SUIMMING_PACKAGE_ID, module: 'checkpoint', function: CHECKPOINT_UPDATE_FUNCTION }
+    },
+    order: 'descending',
+    limit: 1
+  });
+
+  return page.data[0]?.digest ?? null;
+}
+
+/**
+ * Walk every toggle_checkpoint transaction after `cursor` and collect the checkpoints it mutated
+ * @returns Mutated checkpoint IDs and the digest of the last transaction seen
+ */
+async function queryUpdatedCheckpointIds(
+  suiClient: SuiClient,
+  cursor: string | null
+): Promise<{ checkpointIds: string[]; nextCursor: string | null }> {
+  const checkpointIds = new Set<string>();
+  let nextCursor = cursor;
+  let hasNextPage = true;
+
+  while (hasNextPage) {
+    const page = await suiClient.queryTransactionBlocks({
+      filter: {
+        MoveFunction: { package: SUIMMING_PACKAGE_ID, module: 'checkpoint', function: CHECKPOINT_UPDATE_FUNCTION }
+      },
+      cursor: nextCursor,
+      order: 'ascending',
+      options: { showObjectChanges: true }
+    });
+
+    page.data.forEach(tx => {
+      tx.objectChanges?.forEach(change => {
+        if (change.type === 'mutated' && change.objectType === SUIMMING_TYPES.checkpoint) {
+          checkpointIds.add(change.objectId);
+        }
+      });
+    });
+
+    nextCursor = page.nextCursor ?? nextCursor;
+    hasNextPage = page.hasNextPage && page.data.length > 0;
+  }
+
+  return { checkpointIds: Array.from(checkpointIds), nextCursor };
+}
+
+/**
+ * Fetch checkpoint objects in batches (multiGetObjects accepts at most 50 IDs per call)
+ * @returns Objects in the same order as `ids`
+ */
+async function fetchCheckpointObjects(suiClient: SuiClient, ids: string[]) {
+  const batches: string[][] = [];
+  for (let i = 0; i < ids.length; i += OBJECT_BATCH_SIZE) {
+    batches.push(ids.slice(i, i + OBJECT_BATCH_SIZE));
+  }
+
+  const results = await Promise.all(
+    batches.map(batch =>
+      suiClient.multiGetObjects({
+        ids: batch,
+        options: {
+          showContent: true,
+          showType: true,
+          showOwner: true
+        }
+      })
+    )
+  );
+
+  return results.flat();
+}
+
+/**
+ * Merge skip diagnostics, clearing entries for checkpoints that now resolve
+ */
+function mergeSkipped(
+  current: SkippedCheckpoint[],
+  incoming: SkippedCheckpoint[],
+  resolvedIds: string[]
+): SkippedCheckpoint[] {
+  const cleared = new Set([...resolvedIds, ...incoming.map(entry => entry.id)]);
+  return [...current.filter(entry => !cleared.has(entry.id)), ...incoming];
+}
+
+/**
+ * Merge newly resolved checkpoints into the current list, replacing entries with the same ID
+ * and dropping entries listed in `removedIds`
+ */
+function mergeCheckpoints(
+  current: CheckpointCoordinates[],
+  incoming: CheckpointCoordinates[],
+  removedIds: string[] = []
+): CheckpointCoordinates[] {
+  if (incoming.length === 0 && removedIds.length === 0) return current;
+
+  const removed = new Set(removedIds);
+  const incomingById = new Map(incoming.map(cp => [cp.id, cp]));
+  const merged = current
+    .filter(cp => !removed.has(cp.id))
+    .map(cp => incomingById.get(cp.id) ?? cp);
+  const existingIds = new Set(current.map(cp => cp.id));
+
+  incoming.forEach(cp => {
+    if (!existingIds.has(cp.id)) {
+      merged.push(cp);
+    }
+  });
+
+  return merged;
+}
+
+export function useCheckpoints(options: UseCheckpointsOptions = {}): UseCheckpointsResult {
+  const { live = false, pollInterval = DEFAULT_POLL_INTERVAL_MS } = options;
   const [checkpoints, setCheckpoints] = useState<CheckpointCoordinates[]>([]);
+  const [skipped, setSkipped] = useState<SkippedCheckpoint[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const suiClient = useSuiClient();
-  const { downloadJSON, blobExists } = useWalrusClient(suiClient, 'testnet');
+  const { client: suiClient, network } = useSuiClientContext();
+  const { downloadText, blobExists } = useWalrusClient(suiClient, 'testnet');
+
+  // 마지막으로 처리한 CheckpointCreated 이벤트 커서 (refetch 시 이후 이벤트만 조회)
+  const cursorRef = useRef<EventId | null>(null);
+  // 마지막으로 처리한 toggle_checkpoint 트랜잭션 digest (undefined면 아직 초기화 전)
+  const updateCursorRef = useRef<string | null | undefined>(undefined);
+  const checkpointsRef = useRef<CheckpointCoordinates[]>([]);
+  const skippedRef = useRef<SkippedCheckpoint[]>([]);
+  const hydratedRef = useRef(false);
+  // 현재 목록이 속한 클라이언트; 네트워크 전환 전에 시작된 조회 결과는 버림
+  const clientRef = useRef(suiClient);
+  const inFlightRef = useRef<{ client: SuiClient; promise: Promise<void> } | null>(null);
+
+  const loadMetadata = async (metaId: string): Promise<MetadataLoadResult> => {
+    // Walrus blob은 내용 주소 기반이라 캐시에 있으면 네트워크 생략
+    const cached = await getCachedMetadata(metaId);
+    if (cached) {
+      return { raw: cached };
+    }
+
+    // 실제 blob 존재 확인 (네트워크 오류는 없는 blob이 아니라 다음 조회 때 재시도)
+    try {
+      if (!await blobExists(metaId)) {
+        return { reason: 'missing_blob' };
+      }
+    } catch (e) {
+      return { reason: 'download_failed', detail: e instanceof Error ? e.message : undefined };
+    }
+
+    // metadata JSON 다운로드
+    let text: string;
+    try {
+      text = await downloadText(metaId);
+    } catch (e) {
+      return { reason: 'download_failed', detail: e instanceof Error ? e.message : undefined };
+    }
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(text);
+    } catch (e) {
+      return { reason: 'invalid_json', detail: e instanceof Error ? e.message : undefined };
+    }
+
+    // 원본 JSON을 캐시해 두고 마이그레이션은 읽을 때마다 적용
+    await putCachedMetadata(metaId, raw);
+    return { raw };
+  };
 
-  const fetchCheckpoints = async () => {
+  const resolveCheckpoint = async (obj: SuiObjectResponse, checkpointId: string): Promise<CheckpointResolution> => {
+    const skip = (
+      reason: CheckpointSkipReason,
+      info: { label?: string; metaWalrusId?: string; detail?: string } = {}
+    ): CheckpointResolution => {
+      console.warn(`Skipping checkpoint ${checkpointId}: ${reason}`, info.detail ?? '');
+      return {
+        skipped: {
+          id: checkpointId,
+          label: info.label || 'Unknown Checkpoint',
+          metaWalrusId: info.metaWalrusId || '',
+          reason,
+          detail: info.detail
+        }
+      };
+    };
+
+    const fields = parseCheckpointObject(obj.data?.content);
+    if (!obj.data || !fields) {
+      return skip('object_not_found', { detail: obj.error?.code });
+    }
+
+    const checkpointInfo = {
+      id: obj.data.objectId,
+      ...fields,
+      label: fields.label || 'Unknown Checkpoint'
+    };
+
+    const metaId = fields.metaWalrusId;
+    // placeholder인지 체크
+    if (!metaId) {
+      return skip('missing_metadata_id', checkpointInfo);
+    }
+    if (metaId.startsWith('metadata_')) {
+      return skip('placeholder_metadata', checkpointInfo);
+    }
+
+    const loaded = await loadMetadata(metaId);
+    if ('reason' in loaded) {
+      return skip(loaded.reason, { ...checkpointInfo, detail: loaded.detail });
+    }
+
+    // 스키마 검증 (구버전 메타데이터는 현재 버전으로 마이그레이션)
+    const validation = validateCheckpointMetadata(loaded.raw);
+    if (!validation.valid) {
+      return skip(validation.reason, { ...checkpointInfo, detail: validation.detail });
+    }
+
+    const { metadata } = validation;
+    return {
+      checkpoint: {
+        ...checkpointInfo,
+        lat: metadata.latitude,
+        lng: metadata.longitude,
+        description: metadata.description,
+        imageUrl: metadata.image_url,
+        creator: metadata.created_by,
+        createdAt: metadata.created_at,
+        metadataVersion: metadata.version,
+        geofence: {
+          radius: metadata.geofence.radius_meters,
+          dwellMs: metadata.geofence.dwell_ms,
+          polygon: metadata.geofence.polygon
+        }
+      }
+    };
+  };
+
+  const resolveCheckpoints = async (ids: string[]) => {
+    const objects = await fetchCheckpointObjects(suiClient, ids);
+    return Promise.all(objects.map((obj, index) => resolveCheckpoint(obj, ids[index])));
+  };
+
+  const applyResolutions = (resolutions: CheckpointResolution[]) => {
+    const resolved: CheckpointCoordinates[] = [];
+    const newlySkipped: SkippedCheckpoint[] = [];
+    resolutions.forEach(resolution => {
+      if ('checkpoint' in resolution) {
+        resolved.push(resolution.checkpoint);
+      } else {
+        newlySkipped.push(resolution.skipped);
+      }
+    });
+
+    // 건너뛴 항목은 목록에서 빼고 사유를 기록
+    const merged = mergeCheckpoints(checkpointsRef.current, resolved, newlySkipped.map(entry => entry.id));
+    checkpointsRef.current = merged;
+    setCheckpoints(merged);
+
+    skippedRef.current = mergeSkipped(skippedRef.current, newlySkipped, resolved.map(cp => cp.id));
+    setSkipped(skippedRef.current);
+  };
+
+  const isStale = () => clientRef.current !== suiClient;
+
+  const applyCheckpointUpdates = async () => {
+    // 최초 조회 시점의 객체 상태가 최신이므로 이후 트랜잭션만 추적
+    if (updateCursorRef.current === undefined) {
+      const latestDigest = await queryLatestUpdateDigest(suiClient);
+      if (!isStale()) updateCursorRef.current = latestDigest;
+      return;
+    }
+
+    const { checkpointIds, nextCursor } = await queryUpdatedCheckpointIds(suiClient, updateCursorRef.current);
+    if (isStale()) return;
+    updateCursorRef.current = nextCursor;
+    if (checkpointIds.length === 0) return;
+
+    const resolutions = await resolveCheckpoints(checkpointIds);
+    if (!isStale()) applyResolutions(resolutions);
+  };
+
+  const loadNewCheckpoints = async () => {
     if (!suiClient) {
       setError('Sui client not available');
       setLoading(false);
@@ -36,127 +384,106 @@ export function useCheckpoints(): UseCheckpointsResult {
     }
 
     try {
-      setLoading(true);
       setError(null);
 
-      // CheckpointCreated 이벤트 가져오기
-      const checkpointObjects = await suiClient.queryEvents({
-        query: {
-          MoveEventType: `${process.env.NEXT_PUBLIC_SUIMMING_PACKAGE_ID}::checkpoint::CheckpointCreated`
-        }
-      });
-
-      // 이벤트에서 object 가져오기
-      const checkpointObjectsData = await Promise.all(
-        checkpointObjects.data.map(async (event) => {
-          const eventData = event.parsedJson as any;
-          const checkpointAddress = eventData.checkpoint;
-          try {
-            return await suiClient.getObject({
-              id: checkpointAddress,
-              options: {
-                showContent: true,
-                showType: true,
-                showOwner: true
-              }
-            });
-          } catch (e) {
-            console.warn(`Failed to fetch checkpoint object ${checkpointAddress}:`, e);
-            return null;
-          }
-        })
-      );
-
-      // 유효한 오브젝트만 남기기
-      const validObjs = checkpointObjectsData.filter(obj => obj !== null && obj.data);
-      const checkpointObjs = validObjs.map(obj => obj!);
-
-      // 메타데이터로부터 좌표 읽기 (placeholder 아닌 것만)
-      const coordinatesPromises = checkpointObjs.map(async (obj) => {
-        if (!obj.data?.content || obj.data.content.dataType !== 'moveObject') {
-          return null;
+      // 최초 1회: 캐시된 목록으로 먼저 그리고, 체인 상태는 아래에서 다시 확인
+      let staleIds: string[] = [];
+      if (!hydratedRef.current) {
+        hydratedRef.current = true;
+        const snapshot = await loadCheckpointSnapshot(network, SUIMMING_PACKAGE_ID);
+        if (isStale()) return;
+        if (snapshot) {
+          cursorRef.current = snapshot.cursor;
+          checkpointsRef.current = snapshot.checkpoints;
+          skippedRef.current = snapshot.skipped;
+          setCheckpoints(snapshot.checkpoints);
+          setSkipped(snapshot.skipped);
+          // 건너뛰었던 체크포인트도 다시 시도 (blob 업로드 지연 등)
+          staleIds = [...snapshot.checkpoints, ...snapshot.skipped].map(cp => cp.id);
+          setLoading(false);
         }
+      }
 
-        const fields = (obj.data.content as any).fields;
-
-        const checkpointInfo = {
-          id: obj.data.objectId,
-          label: fields.label || 'Unknown Checkpoint',
-          active: fields.active || false,
-          metaWalrusId: fields.meta_walrus_id || '',
-          sealRef: fields.seal_ref || ''
-        };
-
-        const metaId = fields.meta_walrus_id;
-        // placeholder인지 체크
-        if (!metaId) {
-          // 메타가 없으면 무시
-          // console.warn(`Checkpoint ${checkpointInfo.id} has no metaWalrusId. Skipping.`);
-          return null;
-        }
-        if (metaId.startsWith('metadata_')) {
-          // placeholder이면 무시
-          // console.warn(`Checkpoint ${checkpointInfo.id} uses placeholder metadata. Skipping.`);
-          return null;
-        }
+      // 처음 로드할 때만 로딩 표시 (이후 refetch는 기존 목록 유지)
+      if (!cursorRef.current) {
+        setLoading(true);
+      }
 
-        // 실제 blob 존재 확인
-        const exists = await blobExists(metaId);
-        if (!exists) {
-          // console.warn(`Walrus blob ${metaId} does not exist for checkpoint ${checkpointInfo.id}. Skipping.`);
-          return null;
-        }
+      // 마지막 커서 이후의 CheckpointCreated 이벤트를 모든 페이지에 걸쳐 가져오기
+      const { checkpointIds, nextCursor } = await queryCreatedCheckpointIds(suiClient, cursorRef.current);
 
-        // metadata JSON 다운로드
-        const metadata = await downloadJSON<{
-          latitude: number;
-          longitude: number;
-          description?: string;
-          image_url?: string;
-          type?: string;
-          version?: string;
-        }>(metaId);
-
-        if (
-          !metadata ||
-          typeof metadata.latitude !== 'number' ||
-          typeof metadata.longitude !== 'number'
-        ) {
-          console.error(`Invalid metadata structure for checkpoint ${checkpointInfo.id}:`, metadata);
-          return null;
-        }
+      // 캐시된 체크포인트의 active/label 재검증 + 새 체크포인트 조회
+      const staleIdSet = new Set(staleIds);
+      const newIds = checkpointIds.filter(id => !staleIdSet.has(id));
 
-        return {
-          ...checkpointInfo,
-          lat: metadata.latitude,
-          lng: metadata.longitude
-        };
-      });
+      // 메타데이터로부터 좌표 읽기 (유효하지 않으면 사유와 함께 skipped로)
+      const resolutions = await resolveCheckpoints([...staleIds, ...newIds]);
+      if (isStale()) return;
+      applyResolutions(resolutions);
+      cursorRef.current = nextCursor;
 
-      const results = await Promise.all(coordinatesPromises);
-      // null인 항목들 제거
-      const validCheckpoints = results.filter(
-        (cp): cp is CheckpointCoordinates => cp !== null
-      );
+      // 생성 이후 on/off 된 체크포인트의 active/label 갱신
+      await applyCheckpointUpdates();
+      if (isStale()) return;
 
-      setCheckpoints(validCheckpoints);
+      await saveCheckpointSnapshot(network, SUIMMING_PACKAGE_ID, nextCursor, checkpointsRef.current, skippedRef.current);
     } catch (err) {
+      if (isStale()) return;
       console.error('Error fetching checkpoints:', err);
       setError(err instanceof Error ? err.message : 'Failed to fetch checkpoints');
     } finally {
-      setLoading(false);
+      if (!isStale()) setLoading(false);
+    }
+  };
+
+  const fetchCheckpoints = () => {
+    // 같은 클라이언트로 진행 중인 조회가 있으면 같은 커서로 중복 조회하지 않도록 공유
+    if (inFlightRef.current?.client !== suiClient) {
+      const promise = loadNewCheckpoints().finally(() => {
+        if (inFlightRef.current?.promise === promise) {
+          inFlightRef.current = null;
+        }
+      });
+      inFlightRef.current = { client: suiClient, promise };
     }
+    return inFlightRef.current.promise;
   };
 
+  // 이펙트와 refetch는 항상 최신 렌더의 fetchCheckpoints를 호출 (클라이언트가 바뀌어도 이펙트를 다시 걸지 않음)
+  const fetchCheckpointsRef = useRef(fetchCheckpoints);
   useEffect(() => {
-    fetchCheckpoints();
-  }, [suiClient]);
+    fetchCheckpointsRef.current = fetchCheckpoints;
+  });
+  const refetch = useCallback(() => fetchCheckpointsRef.current(), []);
+
+  useEffect(() => {
+    // 클라이언트(네트워크)가 바뀌면 캐시부터 다시 조회
+    clientRef.current = suiClient;
+    cursorRef.current = null;
+    updateCursorRef.current = undefined;
+    hydratedRef.current = false;
+    checkpointsRef.current = [];
+    skippedRef.current = [];
+    setCheckpoints([]);
+    setSkipped([]);
+    refetch();
+  }, [suiClient, refetch]);
+
+  // live 모드: 주기적으로 새 이벤트/토글을 조회해 목록을 그 자리에서 갱신
+  useEffect(() => {
+    if (!live || !suiClient) return;
+
+    const intervalId = setInterval(refetch, pollInterval);
+
+    return () => clearInterval(intervalId);
+  }, [live, pollInterval, suiClient, refetch]);
 
   return {
     checkpoints,
+    skipped,
     loading,
     error,
-    refetch: fetchCheckpoints
+    refetch
   };
 }
 
@@ -0,0 +1,119 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useSuiClient } from '@mysten/dapp-kit';
+import type { ClaimRecord, EpochInfo } from '@/types/claim';
+import { fetchClaimsSince, fetchEpochInfo, isClaimInEpoch } from '@/utils/claimHistory';
+
+export interface UseClaimHistoryOptions {
+  address: string | null | undefined;
+  profileId?: string | null;
+}
+
+export interface UseClaimHistoryResult {
+  epoch: EpochInfo | null;
+  claims: ClaimRecord[]; // this epoch, newest first
+  claimedCheckpointIds: Set<string>;
+  msUntilNextEpoch: number | null;
+  loading: boolean;
+  error: string | null;
+  isClaimedThisEpoch: (checkpointId: string) => boolean;
+  markClaimed: (claim: ClaimRecord) => void;
+  refetch: () => Promise<void>;
+}
+
+const COUNTDOWN_TICK_MS = 15000;
+// The system state can lag the epoch change by a few seconds
+const EPOCH_ROLLOVER_DELAY_MS = 5000;
+const EPOCH_RETRY_MS = 30000;
+
+/**
+ * Which checkpoints the user already claimed this epoch, and when claims reopen
+ * The contract allows one claim per checkpoint per epoch, so the UI can disable rewards up front.
+ */
+export function useClaimHistory({ address, profileId }: UseClaimHistoryOptions): UseClaimHistoryResult {
+  const suiClient = useSuiClient();
+  const [epoch, setEpoch] = useState<EpochInfo | null>(null);
+  const [claims, setClaims] = useState<ClaimRecord[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const epochRef = useRef<EpochInfo | null>(null);
+
+  const refetch = useCallback(async () => {
+    if (!address) {
+      setClaims([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const currentEpoch = await fetchEpochInfo(suiClient);
+      const recentClaims = await fetchClaimsSince(suiClient, { address, profileId }, currentEpoch.startMs);
+
+      epochRef.current = currentEpoch;
+      setEpoch(currentEpoch);
+      setClaims(recentClaims.filter(claim => isClaimInEpoch(claim, currentEpoch)));
+      setError(null);
+    } catch (err) {
+      console.error('Error loading claim history:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load claim history');
+    } finally {
+      setLoading(false);
+    }
+  }, [suiClient, address, profileId]);
+
+  useEffect(() => {
+    refetch();
+  }, [refetch]);
+
+  // Refresh once the epoch rolls over so claimed checkpoints unlock
+  useEffect(() => {
+    if (!epoch) return;
+
+    let retry: ReturnType<typeof setTimeout> | null = null;
+    const delay = Math.max(epoch.endMs - Date.now(), 0) + EPOCH_ROLLOVER_DELAY_MS;
+    const timeout = setTimeout(async () => {
+      const previousEpoch = epoch.epoch;
+      await refetch();
+      if (epochRef.current?.epoch === previousEpoch) {
+        // Still reported as the old epoch; try again shortly
+        retry = setTimeout(refetch, EPOCH_RETRY_MS);
+      }
+    }, delay);
+
+    return () => {
+      clearTimeout(timeout);
+      if (retry) clearTimeout(retry);
+    };
+  }, [epoch, refetch]);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), COUNTDOWN_TICK_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const claimedCheckpointIds = useMemo(() => new Set(claims.map(claim => claim.checkpointId)), [claims]);
+
+  const isClaimedThisEpoch = useCallback(
+    (checkpointId: string) => claimedCheckpointIds.has(checkpointId),
+    [claimedCheckpointIds]
+  );
+
+  // Record a claim right after it succeeds, before the event is indexed
+  const markClaimed = useCallback((claim: ClaimRecord) => {
+    setClaims(prev => [claim, ...prev.filter(existing => existing.digest !== claim.digest)]);
+  }, []);
+
+  return {
+    epoch,
+    claims,
+    claimedCheckpointIds,
+    msUntilNextEpoch: epoch ? Math.max(epoch.endMs - now, 0) : null,
+    loading,
+    error,
+    isClaimedThisEpoch,
+    markClaimed,
+    refetch
+  };
+}
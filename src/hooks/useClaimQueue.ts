@@ -0,0 +1,144 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { ClaimOutcome, PendingClaim } from '@/types/claim';
+import { deletePendingClaim, loadPendingClaims, savePendingClaim } from '@/utils/offlineStore';
+import {
+  PENDING_CLAIM_MAX_AGE_MS,
+  PENDING_CLAIM_MAX_ATTEMPTS,
+  pendingClaimId,
+  requestClaimSync,
+  subscribeClaimSyncRequests
+} from '@/utils/claimSync';
+
+interface UseClaimQueueOptions {
+  address: string | null | undefined;
+  busy: boolean; // a claim transaction is in flight; the queue waits for it to settle
+  onFlush: (claims: PendingClaim[]) => Promise<Map<string, ClaimOutcome>>; // outcome per checkpoint ID
+}
+
+export type NewPendingClaim = Pick<PendingClaim, 'checkpointId' | 'checkpointLabel' | 'proof'>;
+
+// Claimed, or rejected by the contract so sending it again won't help
+function isSettled(outcome: ClaimOutcome | undefined): boolean {
+  return outcome === 'claimed' || outcome === 'aborted';
+}
+
+function isExpired(claim: PendingClaim): boolean {
+  return Date.now() - claim.capturedAt > PENDING_CLAIM_MAX_AGE_MS || claim.attempts >= PENDING_CLAIM_MAX_ATTEMPTS;
+}
+
+/**
+ * Durable queue of claims captured while offline
+ * Claims are kept in IndexedDB and sent when the network returns: through Background Sync
+ * where the browser supports it, otherwise on the `online` event or the next visit.
+ */
+export function useClaimQueue({ address, busy, onFlush }: UseClaimQueueOptions) {
+  const [pending, setPending] = useState<PendingClaim[]>([]);
+  const [isOnline, setIsOnline] = useState(() => typeof navigator === 'undefined' || navigator.onLine);
+  const [isFlushing, setIsFlushing] = useState(false);
+  const flushingRef = useRef(false);
+  const busyRef = useRef(busy);
+  const onFlushRef = useRef(onFlush);
+
+  useEffect(() => {
+    busyRef.current = busy;
+    onFlushRef.current = onFlush;
+  }, [busy, onFlush]);
+
+  // Load the queue, dropping claims that are too old or keep failing
+  const reload = useCallback(async (): Promise<PendingClaim[]> => {
+    if (!address) {
+      setPending([]);
+      return [];
+    }
+
+    const claims = await loadPendingClaims(address);
+    const expired = claims.filter(isExpired);
+    if (expired.length > 0) {
+      console.warn(`Dropping ${expired.length} pending claim(s) that could not be sent in time`);
+      await Promise.all(expired.map(claim => deletePendingClaim(claim.id)));
+    }
+
+    const live = claims.filter(claim => !isExpired(claim));
+    setPending(live);
+    return live;
+  }, [address]);
+
+  /**
+   * Send everything in the queue
+   * Settled claims are removed; the rest stay queued with one more attempt counted.
+   * @returns Whether the queue is now empty
+   */
+  const flush = useCallback(async (): Promise<boolean> => {
+    if (flushingRef.current || busyRef.current) return false;
+
+    const claims = await reload();
+    if (claims.length === 0) return true;
+
+    flushingRef.current = true;
+    setIsFlushing(true);
+    try {
+      const outcomes = await onFlushRef.current(claims).catch(() => new Map<string, ClaimOutcome>());
+      const settled = claims.filter(claim => isSettled(outcomes.get(claim.checkpointId)));
+      await Promise.all(claims.map(claim => settled.includes(claim)
+        ? deletePendingClaim(claim.id)
+        : savePendingClaim({ ...claim, attempts: claim.attempts + 1 })));
+      return settled.length === claims.length;
+    } finally {
+      flushingRef.current = false;
+      setIsFlushing(false);
+      await reload();
+    }
+  }, [reload]);
+
+  /**
+   * Capture a claim to send later
+   * Re-queuing a checkpoint keeps the original capture time and proof.
+   */
+  const enqueue = useCallback(async (claim: NewPendingClaim): Promise<void> => {
+    if (!address) return;
+
+    const id = pendingClaimId(address, claim.checkpointId);
+    const existing = (await loadPendingClaims(address)).find(queued => queued.id === id);
+    if (!existing) {
+      await savePendingClaim({ ...claim, id, address, capturedAt: Date.now(), attempts: 0 });
+    }
+    await reload();
+    await requestClaimSync();
+  }, [address, reload]);
+
+  // Send whatever is left from a previous visit
+  useEffect(() => {
+    reload().then(claims => {
+      if (claims.length > 0 && navigator.onLine) flush();
+    });
+  }, [reload, flush]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      flush();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    const unsubscribe = subscribeClaimSyncRequests(flush);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      unsubscribe();
+    };
+  }, [flush]);
+
+  return {
+    pending,
+    pendingIds: pending.map(claim => claim.checkpointId),
+    isOnline,
+    isFlushing,
+    enqueue,
+    flush
+  };
+}
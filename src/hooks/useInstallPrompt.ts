@@ -0,0 +1,52 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  canPromptInstall,
+  dismissInstallBanner,
+  isInstallBannerDismissed,
+  isRunningStandalone,
+  needsManualInstall,
+  promptInstall,
+  subscribeInstallPrompt
+} from '@/utils/installPrompt';
+
+/**
+ * State of the "install the app" banner
+ * `canInstall` means the browser offered an install prompt; `showIosHint` means the player
+ * has to use Safari's "Add to Home Screen" instead.
+ */
+export function useInstallPrompt() {
+  const [canInstall, setCanInstall] = useState(false);
+  const [showIosHint, setShowIosHint] = useState(false);
+  const [isDismissed, setIsDismissed] = useState(true); // until localStorage has been read
+
+  useEffect(() => {
+    const update = () => setCanInstall(canPromptInstall() && !isRunningStandalone());
+    update();
+    setShowIosHint(needsManualInstall());
+    setIsDismissed(isInstallBannerDismissed());
+    return subscribeInstallPrompt(update);
+  }, []);
+
+  const install = useCallback(async () => {
+    const installed = await promptInstall();
+    if (!installed) {
+      dismissInstallBanner();
+      setIsDismissed(true);
+    }
+  }, []);
+
+  const dismiss = useCallback(() => {
+    dismissInstallBanner();
+    setIsDismissed(true);
+  }, []);
+
+  return {
+    isVisible: !isDismissed && (canInstall || showIosHint),
+    canInstall,
+    showIosHint,
+    install,
+    dismiss
+  };
+}
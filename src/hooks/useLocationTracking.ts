@@ -0,0 +1,227 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type {
+  LocationTrackingOptions,
+  LocationTrackingState,
+  LocationTrackingStatus,
+  LocationWithAccuracy,
+  MovementUpdate
+} from '@/types/location';
+import {
+  calculateBearing,
+  calculateDistance,
+  calculateSpeed,
+  getMobileGeolocationOptions,
+  isLocationAccurate
+} from '@/utils/geoUtils';
+import { KalmanLocationFilter } from '@/utils/locationFilter';
+import { deviceLocationProvider, type LocationProvider, type LocationProviderError } from '@/utils/locationProviders';
+
+export interface UseLocationTrackingOptions extends LocationTrackingOptions {
+  enabled?: boolean; // start watching automatically (default true)
+  provider?: LocationProvider; // source of fixes (default: the device GPS)
+  onMovement?: (update: MovementUpdate) => void;
+}
+
+export interface UseLocationTrackingResult extends LocationTrackingState {
+  status: LocationTrackingStatus;
+  lastMovement: MovementUpdate | null;
+  getRecentReadings: () => LocationWithAccuracy[]; // raw fixes, oldest first
+  start: () => void;
+  stop: () => void;
+}
+
+// Raw fixes kept for location integrity checks
+const READING_HISTORY_SIZE = 30;
+
+const DEFAULT_OPTIONS = {
+  minDistanceThreshold: 3,
+  updateThrottle: 1000,
+  maxAccuracy: 100
+};
+
+const INITIAL_STATE: LocationTrackingState = {
+  currentLocation: null,
+  previousLocation: null,
+  isWatching: false,
+  permission: 'prompt',
+  error: null,
+  watchId: null,
+  lastUpdate: 0,
+  totalDistance: 0,
+  averageSpeed: 0
+};
+
+/**
+ * Watch the device position with filtering and movement detection
+ *
+ * Readings worse than `maxAccuracy` are dropped, the rest go through a Kalman filter,
+ * and a MovementUpdate is emitted only once the filtered position has moved at least
+ * `minDistanceThreshold` meters and `updateThrottle` ms have passed since the last one.
+ */
+export function useLocationTracking(options: UseLocationTrackingOptions = {}): UseLocationTrackingResult {
+  const { enabled = true, provider = deviceLocationProvider } = options;
+  const [state, setState] = useState<LocationTrackingState>(INITIAL_STATE);
+  const [status, setStatus] = useState<LocationTrackingStatus>('idle');
+  const [lastMovement, setLastMovement] = useState<MovementUpdate | null>(null);
+
+  // Latest options in a ref so callers can pass inline objects without restarting the watch
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const watchIdRef = useRef<number | null>(null);
+  const filterRef = useRef(new KalmanLocationFilter());
+  const lastEmittedRef = useRef<LocationWithAccuracy | null>(null);
+  const trackingStartRef = useRef<number | null>(null);
+  const totalDistanceRef = useRef(0);
+  const readingsRef = useRef<LocationWithAccuracy[]>([]);
+
+  const handlePosition = useCallback((reading: LocationWithAccuracy) => {
+    const {
+      minDistanceThreshold = DEFAULT_OPTIONS.minDistanceThreshold,
+      updateThrottle = DEFAULT_OPTIONS.updateThrottle,
+      maxAccuracy = DEFAULT_OPTIONS.maxAccuracy,
+      onMovement
+    } = optionsRef.current;
+
+    readingsRef.current = [...readingsRef.current, reading].slice(-READING_HISTORY_SIZE);
+
+    if (!isLocationAccurate(reading, maxAccuracy)) {
+      return;
+    }
+
+    const filtered = filterRef.current.process(reading);
+    const previous = lastEmittedRef.current;
+
+    if (previous) {
+      if (filtered.timestamp - previous.timestamp < updateThrottle) return;
+      if (calculateDistance(previous, filtered) < minDistanceThreshold) return;
+    }
+
+    lastEmittedRef.current = filtered;
+    if (trackingStartRef.current === null) {
+      trackingStartRef.current = filtered.timestamp;
+    }
+
+    let movement: MovementUpdate | null = null;
+    if (previous) {
+      const distance = calculateDistance(previous, filtered);
+      movement = {
+        from: previous,
+        to: filtered,
+        distance,
+        bearing: calculateBearing(previous, filtered),
+        speed: calculateSpeed(previous, filtered),
+        duration: filtered.timestamp - previous.timestamp
+      };
+      totalDistanceRef.current += distance;
+    }
+
+    const elapsedSeconds = (filtered.timestamp - trackingStartRef.current) / 1000;
+
+    setState(prev => ({
+      ...prev,
+      currentLocation: filtered,
+      previousLocation: previous,
+      permission: 'granted',
+      error: null,
+      lastUpdate: Date.now(),
+      totalDistance: totalDistanceRef.current,
+      averageSpeed: elapsedSeconds > 0 ? totalDistanceRef.current / elapsedSeconds : 0
+    }));
+    setStatus('watching');
+
+    if (movement) {
+      setLastMovement(movement);
+      onMovement?.(movement);
+    }
+  }, []);
+
+  const handleError = useCallback((error: LocationProviderError) => {
+    console.warn('Location tracking error:', error);
+    const denied = error.code === 'permission_denied';
+
+    setState(prev => ({
+      ...prev,
+      error: error.message || 'Location unavailable',
+      permission: denied ? 'denied' : prev.permission,
+      isWatching: denied ? false : prev.isWatching
+    }));
+    setStatus('error');
+  }, []);
+
+  const getRecentReadings = useCallback(() => readingsRef.current, []);
+
+  const stop = useCallback(() => {
+    if (watchIdRef.current !== null) {
+      provider.clearWatch(watchIdRef.current);
+      watchIdRef.current = null;
+    }
+    setState(prev => ({ ...prev, isWatching: false, watchId: null }));
+    setStatus('idle');
+  }, [provider]);
+
+  const start = useCallback(() => {
+    if (!provider.isSupported()) {
+      setState(prev => ({ ...prev, error: 'Geolocation is not supported' }));
+      setStatus('error');
+      return;
+    }
+    if (watchIdRef.current !== null) return;
+
+    const defaults = getMobileGeolocationOptions();
+    const { enableHighAccuracy, timeout, maximumAge } = optionsRef.current;
+
+    // A different provider may start far from the last estimate
+    filterRef.current.reset();
+    setStatus('requesting');
+    const watchId = provider.watchLocation(handlePosition, handleError, {
+      enableHighAccuracy: enableHighAccuracy ?? defaults.enableHighAccuracy,
+      timeout: timeout ?? defaults.timeout,
+      maximumAge: maximumAge ?? defaults.maximumAge
+    });
+    watchIdRef.current = watchId;
+    setState(prev => ({ ...prev, isWatching: true, watchId, error: null }));
+  }, [provider, handlePosition, handleError]);
+
+  // Reflect the permission state where the Permissions API is available
+  useEffect(() => {
+    if (typeof navigator === 'undefined' || !navigator.permissions?.query) return;
+
+    let permissionStatus: PermissionStatus | null = null;
+    const updatePermission = () => {
+      if (!permissionStatus) return;
+      const permission = permissionStatus.state;
+      setState(prev => ({ ...prev, permission }));
+    };
+
+    navigator.permissions.query({ name: 'geolocation' })
+      .then(result => {
+        permissionStatus = result;
+        updatePermission();
+        result.addEventListener('change', updatePermission);
+      })
+      .catch(() => {
+        // Some browsers reject the geolocation permission name; keep 'prompt'
+      });
+
+    return () => permissionStatus?.removeEventListener('change', updatePermission);
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    start();
+    return () => stop();
+  }, [enabled, start, stop]);
+
+  return {
+    ...state,
+    status,
+    lastMovement,
+    getRecentReadings,
+    start,
+    stop
+  };
+}
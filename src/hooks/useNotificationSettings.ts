@@ -0,0 +1,40 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  DEFAULT_NOTIFICATION_SETTINGS,
+  loadNotificationSettings,
+  NOTIFICATION_SETTINGS_STORAGE_KEY,
+  saveNotificationSettings,
+  type NotificationSettings
+} from '@/utils/notificationSettings';
+
+/**
+ * Notification settings persisted in localStorage, kept in sync across tabs
+ */
+export function useNotificationSettings() {
+  // Defaults on the first render so server and client markup match
+  const [settings, setSettings] = useState<NotificationSettings>(DEFAULT_NOTIFICATION_SETTINGS);
+
+  useEffect(() => {
+    setSettings(loadNotificationSettings());
+
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === NOTIFICATION_SETTINGS_STORAGE_KEY) {
+        setSettings(loadNotificationSettings());
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  const updateSettings = useCallback((changes: Partial<NotificationSettings>) => {
+    setSettings(prev => {
+      const next = { ...prev, ...changes };
+      saveNotificationSettings(next);
+      return next;
+    });
+  }, []);
+
+  return { settings, updateSettings };
+}
@@ -0,0 +1,178 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { Location, LocationWithAccuracy } from '@/types/location';
+import type { PlaySession, SessionEventType } from '@/types/session';
+import { deletePlaySession, loadPlaySessions, savePlaySession } from '@/utils/offlineStore';
+
+export interface UseSessionRecorderResult {
+  sessions: PlaySession[]; // finished sessions, most recent first
+  activeSession: PlaySession | null; // its track grows in place while recording
+  isRecording: boolean;
+  loading: boolean;
+  start: () => void;
+  stop: () => void;
+  recordLocation: (location: LocationWithAccuracy) => void;
+  recordEvent: (type: SessionEventType, checkpoint: { id: string; label: string }, location: Location) => void;
+  deleteSession: (sessionId: string) => void;
+}
+
+// Persist the active track at most this often; events, stop and hiding the page save right away
+const PERSIST_INTERVAL_MS = 15000;
+
+/**
+ * Record play sessions (track, geofence events, claims) to IndexedDB
+ * An unfinished session found on mount is resumed, so navigating away from the map does not lose it.
+ */
+export function useSessionRecorder(): UseSessionRecorderResult {
+  const [sessions, setSessions] = useState<PlaySession[]>([]);
+  const [activeSession, setActiveSession] = useState<PlaySession | null>(null);
+  const [loading, setLoading] = useState(true);
+  const activeSessionRef = useRef<PlaySession | null>(null);
+  const lastPersistedAtRef = useRef(0);
+  const persistTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const updateActiveSession = useCallback((session: PlaySession | null) => {
+    activeSessionRef.current = session;
+    setActiveSession(session);
+  }, []);
+
+  // Save the active session now, dropping any pending throttled save
+  const persistActiveSession = useCallback(() => {
+    if (persistTimerRef.current) {
+      clearTimeout(persistTimerRef.current);
+      persistTimerRef.current = null;
+    }
+    if (!activeSessionRef.current) return;
+
+    lastPersistedAtRef.current = Date.now();
+    savePlaySession(activeSessionRef.current);
+  }, []);
+
+  const schedulePersist = useCallback(() => {
+    if (persistTimerRef.current) return;
+
+    const wait = Math.max(0, PERSIST_INTERVAL_MS - (Date.now() - lastPersistedAtRef.current));
+    persistTimerRef.current = setTimeout(persistActiveSession, wait);
+  }, [persistActiveSession]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loadPlaySessions().then(stored => {
+      if (cancelled) return;
+
+      const unfinished = stored.find(session => session.endedAt === null) ?? null;
+      setSessions(stored.filter(session => session !== unfinished));
+      if (unfinished && !activeSessionRef.current) {
+        updateActiveSession(unfinished);
+      }
+      setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [updateActiveSession]);
+
+  // Flush the last few fixes when the page is hidden (mobile browsers may kill it there) or the recorder goes away
+  useEffect(() => {
+    const flushPending = () => {
+      if (persistTimerRef.current) persistActiveSession();
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flushPending();
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('pagehide', flushPending);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('pagehide', flushPending);
+      flushPending();
+    };
+  }, [persistActiveSession]);
+
+  const start = useCallback(() => {
+    if (activeSessionRef.current) return;
+
+    const now = Date.now();
+    const session: PlaySession = {
+      id: `session-${now}`,
+      startedAt: now,
+      endedAt: null,
+      track: [],
+      events: []
+    };
+    updateActiveSession(session);
+    persistActiveSession();
+  }, [updateActiveSession, persistActiveSession]);
+
+  const stop = useCallback(() => {
+    const session = activeSessionRef.current;
+    if (!session) return;
+
+    const finished: PlaySession = { ...session, endedAt: Date.now() };
+    if (persistTimerRef.current) {
+      clearTimeout(persistTimerRef.current);
+      persistTimerRef.current = null;
+    }
+    updateActiveSession(null);
+    setSessions(prev => [finished, ...prev]);
+    savePlaySession(finished);
+  }, [updateActiveSession]);
+
+  const recordLocation = useCallback((location: LocationWithAccuracy) => {
+    const session = activeSessionRef.current;
+    if (!session) return;
+
+    const lastPoint = session.track[session.track.length - 1];
+    if (lastPoint && lastPoint.timestamp >= location.timestamp) return;
+
+    // Append in place: copying the whole track on every fix grows quadratically over a long session.
+    // The new session object only tells React something changed.
+    session.track.push(location);
+    updateActiveSession({ ...session });
+    schedulePersist();
+  }, [updateActiveSession, schedulePersist]);
+
+  const recordEvent = useCallback((
+    type: SessionEventType,
+    checkpoint: { id: string; label: string },
+    location: Location
+  ) => {
+    const session = activeSessionRef.current;
+    if (!session) return;
+
+    const updated: PlaySession = {
+      ...session,
+      events: [...session.events, {
+        type,
+        checkpointId: checkpoint.id,
+        checkpointLabel: checkpoint.label,
+        timestamp: Date.now(),
+        location: { lat: location.lat, lng: location.lng }
+      }]
+    };
+    // Events are rare and valuable for debugging, so they are saved right away
+    updateActiveSession(updated);
+    persistActiveSession();
+  }, [updateActiveSession, persistActiveSession]);
+
+  const deleteSession = useCallback((sessionId: string) => {
+    setSessions(prev => prev.filter(session => session.id !== sessionId));
+    deletePlaySession(sessionId);
+  }, []);
+
+  return {
+    sessions,
+    activeSession,
+    isRecording: activeSession !== null,
+    loading,
+    start,
+    stop,
+    recordLocation,
+    recordEvent,
+    deleteSession
+  };
+}
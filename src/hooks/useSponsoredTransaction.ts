@@ -0,0 +1,61 @@
+'use client';
+
+import { useCurrentAccount, useCurrentWallet, useSignAndExecuteTransaction, useSignTransaction, useSuiClient } from '@mysten/dapp-kit';
+import { isEnokiWallet } from '@mysten/enoki';
+import type { SuiTransactionBlockResponse } from '@mysten/sui/client';
+import type { Transaction } from '@mysten/sui/transactions';
+import { toBase64 } from '@mysten/sui/utils';
+import { useMutation } from '@tanstack/react-query';
+import { useWalletSession } from '@/hooks/useWalletSession';
+import { executeSponsoredTransaction, requestSponsorship } from '@/utils/sponsorship';
+import { parseMoveAbort, TRANSACTION_RESPONSE_OPTIONS as RESPONSE_OPTIONS } from '@/web3/suimming';
+
+/**
+ * Sign and execute a transaction, with gas paid by the sponsor backend for zkLogin (Enoki) players
+ *
+ * Drop-in for useSignAndExecuteTransaction: `mutate({ transaction }, { onSuccess, onError })`.
+ * Usually reached through useSuimmingTransaction, which adds effects checks and progress toasts.
+ * Standard wallets, and zkLogin players when sponsorship is unavailable, pay their own gas.
+ * Sponsor requests carry a wallet session, which zkLogin wallets sign without a prompt.
+ */
+export function useSponsoredTransaction() {
+  const suiClient = useSuiClient();
+  const currentAccount = useCurrentAccount();
+  const { currentWallet } = useCurrentWallet();
+  const { mutateAsync: signTransaction } = useSignTransaction();
+  const getWalletSession = useWalletSession();
+  const { mutateAsync: signAndExecuteTransaction } = useSignAndExecuteTransaction({
+    execute: async ({ bytes, signature }) =>
+      await suiClient.executeTransactionBlock({ transactionBlock: bytes, signature, options: RESPONSE_OPTIONS })
+  });
+
+  const execute = async (transaction: Transaction): Promise<SuiTransactionBlockResponse> => {
+    if (!currentAccount || !currentWallet || !isEnokiWallet(currentWallet)) {
+      return signAndExecuteTransaction({ transaction });
+    }
+
+    transaction.setSenderIfNotSet(currentAccount.address);
+    let sponsored;
+    let session;
+    try {
+      session = await getWalletSession();
+      const kindBytes = await transaction.build({ client: suiClient, onlyTransactionKind: true });
+      sponsored = await requestSponsorship({ transactionKindBytes: toBase64(kindBytes), sender: currentAccount.address }, session);
+    } catch (error) {
+      // The sponsor dry-runs the transaction; an abort there would abort when self-paid too
+      if (error instanceof Error && parseMoveAbort(error.message)) {
+        throw error;
+      }
+      console.warn('Sponsorship unavailable, paying gas from the wallet:', error);
+      return signAndExecuteTransaction({ transaction });
+    }
+
+    const { signature } = await signTransaction({ transaction: sponsored.bytes });
+    const { digest } = await executeSponsoredTransaction({ digest: sponsored.digest, bytes: sponsored.bytes, signature }, session);
+    return suiClient.waitForTransaction({ digest, options: RESPONSE_OPTIONS });
+  };
+
+  return useMutation({
+    mutationFn: ({ transaction }: { transaction: Transaction }) => execute(transaction)
+  });
+}
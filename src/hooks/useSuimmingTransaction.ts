@@ -0,0 +1,72 @@
+'use client';
+
+import { useCurrentAccount, useSuiClient } from '@mysten/dapp-kit';
+import type { SuiTransactionBlockResponse } from '@mysten/sui/client';
+import type { Transaction } from '@mysten/sui/transactions';
+import { useToast } from '@/app/components/Toaster';
+import { useTransactionPreview } from '@/app/components/TransactionPreview';
+import { useSponsoredTransaction } from '@/hooks/useSponsoredTransaction';
+import { executeTransaction, SuimmingTransactionError } from '@/web3/suimming';
+
+export interface RunTransactionOptions {
+  label: string; // what the player is doing, e.g. "Claiming letters"
+  successMessage?: string | false; // false when the caller shows its own success UI
+  confirm?: boolean; // show the dry-run preview and wait for the player before signing
+  letters?: string[]; // letters the transaction consumes from the letter bank, shown in the preview
+}
+
+/**
+ * Execute Suimming transactions with sponsored gas, effects checks and toaster progress
+ *
+ * Every transaction is dry-run first so aborts never reach the wallet; pass `confirm`
+ * to also show the player a preview of gas, SUI, letters and objects before signing.
+ *
+ * Usage:
+ * ```ts
+ * const { runTransaction } = useSuimmingTransaction();
+ * const result = await runTransaction(tx, { label: 'Creating profile' });
+ * ```
+ * Rejects with a SuimmingTransactionError whose localized message and suggested action have already been shown.
+ */
+export function useSuimmingTransaction() {
+  const suiClient = useSuiClient();
+  const { mutateAsync: signAndExecute } = useSponsoredTransaction();
+  const currentAccount = useCurrentAccount();
+  const { addNotification } = useToast();
+  const { confirmTransaction } = useTransactionPreview();
+
+  const runTransaction = async (
+    transaction: Transaction,
+    { label, successMessage, confirm, letters }: RunTransactionOptions
+  ): Promise<SuiTransactionBlockResponse> => {
+    try {
+      return await executeTransaction(suiClient, transaction, {
+        signAndExecute: tx => signAndExecute({ transaction: tx }),
+        preview: currentAccount
+          ? {
+            sender: currentAccount.address,
+            letters,
+            confirm: confirm ? preview => confirmTransaction(label, preview) : undefined
+          }
+          : undefined,
+        onProgress: stage => {
+          if (stage === 'signing') {
+            addNotification('info', `⏳ ${label}…`);
+          } else if (stage === 'success' && successMessage !== false) {
+            addNotification('success', successMessage ?? `${label}: done`);
+          }
+        }
+      });
+    } catch (error) {
+      const transactionError = error as SuimmingTransactionError;
+      console.error(`${label} failed [${transactionError.id}]:`, transactionError.cause ?? transactionError);
+      addNotification(
+        transactionError.kind === 'rejected' ? 'info' : 'error',
+        transactionError.action ? `${transactionError.message} ${transactionError.action}` : transactionError.message
+      );
+      throw transactionError;
+    }
+  };
+
+  return { runTransaction };
+}
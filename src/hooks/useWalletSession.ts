@@ -0,0 +1,35 @@
+'use client';
+
+import { useCallback } from 'react';
+import { useCurrentAccount, useSignPersonalMessage } from '@mysten/dapp-kit';
+import type { WalletSession } from '@/types/auth';
+import { loadWalletSession, storeWalletSession, WALLET_SESSION_TTL_MS, walletSessionMessage } from '@/utils/walletSession';
+
+/**
+ * Get a signed session for the connected wallet, asking the wallet to sign only when there is none yet
+ * zkLogin (Enoki) wallets sign without a prompt; other wallets show one signature request per session.
+ * @returns Function resolving to the session; rejects when no wallet is connected or signing is refused
+ */
+export function useWalletSession(): () => Promise<WalletSession> {
+  const currentAccount = useCurrentAccount();
+  const { mutateAsync: signPersonalMessage } = useSignPersonalMessage();
+
+  return useCallback(async () => {
+    if (!currentAccount) {
+      throw new Error('No wallet connected');
+    }
+
+    const existing = loadWalletSession(currentAccount.address);
+    if (existing) return existing;
+
+    const expiresAt = Date.now() + WALLET_SESSION_TTL_MS;
+    const { signature } = await signPersonalMessage({
+      message: new TextEncoder().encode(walletSessionMessage(currentAccount.address, expiresAt)),
+      account: currentAccount
+    });
+
+    const session: WalletSession = { address: currentAccount.address, expiresAt, signature };
+    storeWalletSession(session);
+    return session;
+  }, [currentAccount, signPersonalMessage]);
+}
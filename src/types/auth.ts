@@ -0,0 +1,7 @@
+// Proof that a caller controls a wallet: a personal message signed once, then sent with API requests
+
+export interface WalletSession {
+  address: string;
+  expiresAt: number; // milliseconds; part of the signed message
+  signature: string; // over walletSessionMessage(address, expiresAt)
+}
@@ -0,0 +1,52 @@
+import type { Location } from '@/types/location';
+
+export type CheckpointMetadataVersion = '1.1';
+
+export interface CheckpointGeofenceMetadata {
+  radius_meters: number; // circle around latitude/longitude, used when there is no polygon
+  dwell_ms: number; // time inside before a dwell event fires
+  polygon: { lat: number; lng: number }[] | null; // optional area (e.g. a whole park), at least 3 vertices
+}
+
+/**
+ * Geofence of a resolved checkpoint, as used by the map
+ */
+export interface CheckpointGeofence {
+  radius: number; // meters
+  dwellMs: number;
+  polygon: Location[] | null;
+}
+
+export interface CheckpointMetadata {
+  type: 'checkpoint_metadata';
+  version: CheckpointMetadataVersion;
+  latitude: number;
+  longitude: number;
+  description: string;
+  image_url: string;
+  created_at: string | null; // ISO 8601
+  created_by: string | null; // Sui address of the admin who uploaded it
+  geofence: CheckpointGeofenceMetadata;
+}
+
+export type CheckpointSkipReason =
+  | 'object_not_found' // checkpoint object missing or not a Move object
+  | 'missing_metadata_id' // meta_walrus_id field is empty
+  | 'placeholder_metadata' // meta_walrus_id is a `metadata_*` placeholder
+  | 'missing_blob' // Walrus blob does not exist
+  | 'download_failed' // Walrus aggregator request failed
+  | 'invalid_json' // blob content is not valid JSON
+  | 'unsupported_version' // no migration path to the current schema version
+  | 'invalid_metadata'; // JSON does not match the schema
+
+export interface SkippedCheckpoint {
+  id: string;
+  label: string;
+  metaWalrusId: string;
+  reason: CheckpointSkipReason;
+  detail?: string;
+}
+
+export type MetadataValidationResult =
+  | { valid: true; metadata: CheckpointMetadata }
+  | { valid: false; reason: Extract<CheckpointSkipReason, 'unsupported_version' | 'invalid_metadata'>; detail: string };
@@ -0,0 +1,40 @@
+import type { LocationWithAccuracy } from '@/types/location';
+import type { IntegrityFlag } from '@/utils/locationIntegrity';
+
+export interface ClaimRecord {
+  checkpointId: string;
+  profileId: string | null;
+  claimer: string; // address that signed the claim
+  letters: string[];
+  epoch: string | null; // from the event payload when present
+  timestampMs: number;
+  digest: string;
+}
+
+export interface EpochInfo {
+  epoch: string;
+  startMs: number;
+  durationMs: number;
+  endMs: number; // when the next epoch (and a new claim window) starts
+}
+
+// Where the player was when a claim was captured without a network connection
+export interface LocationProof {
+  location: LocationWithAccuracy; // latest raw fix
+  distanceMeters: number; // from the checkpoint center
+  integrityScore: number;
+  integrityFlags: IntegrityFlag[];
+}
+
+export interface PendingClaim {
+  id: string; // `${address}:${checkpointId}`, so a checkpoint is queued at most once per wallet
+  address: string;
+  checkpointId: string;
+  checkpointLabel: string;
+  capturedAt: number;
+  proof: LocationProof | null; // null when there was no fix yet
+  attempts: number; // failed sends so far
+}
+
+// How a claim attempt ended; 'claimed' and 'aborted' are final, the others can be sent again
+export type ClaimOutcome = 'claimed' | 'aborted' | 'failed' | 'queued';
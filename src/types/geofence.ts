@@ -0,0 +1,23 @@
+import type { CheckpointGeofence } from '@/types/checkpoint';
+import type { Location } from '@/types/location';
+
+export type GeofenceEventType = 'enter' | 'exit' | 'dwell';
+
+/**
+ * Anything the geofence engine can watch: an ID, a center and a geofence
+ */
+export interface GeofencedCheckpoint extends Location {
+  id: string;
+  geofence: CheckpointGeofence;
+}
+
+export interface GeofenceEvent<T extends GeofencedCheckpoint = GeofencedCheckpoint> {
+  type: GeofenceEventType;
+  checkpoint: T;
+  timestamp: number;
+  location: Location; // last known user location when the event fired
+  distance: number; // signed meters to the boundary, negative inside
+  dwellTime: number; // milliseconds since enter (0 for enter events)
+}
+
+export type GeofenceListener<T extends GeofencedCheckpoint = GeofencedCheckpoint> = (event: GeofenceEvent<T>) => void;
@@ -48,4 +48,10 @@ export interface LocationPermissionState {
   status: PermissionState;
   canRequest: boolean;
   isSupported: boolean;
-}
\ No newline at end of file
+}
+export interface GeoBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number; // greater than `east` when the bounds cross the antimeridian
+}
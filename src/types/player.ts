@@ -0,0 +1,16 @@
+export interface SentenceSummary {
+  id: string;
+  text: string;
+  walrusCid: string;
+  createdAt: number;
+}
+
+/**
+ * Last letter bank and NFTs seen for a wallet, shown on the offline page
+ */
+export interface PlayerSnapshot {
+  address: string;
+  letterBank: string; // raw letters, one character per letter
+  nfts: SentenceSummary[]; // most recent first
+  updatedAt: number;
+}
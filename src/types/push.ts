@@ -0,0 +1,48 @@
+import type { Location } from '@/types/location';
+
+export type PushTopic =
+  | 'sales' // one of the player's listed Sentence NFTs was bought
+  | 'nearby_checkpoints'; // a checkpoint was created near the player's last shared location
+
+// PushSubscription.toJSON() as sent by the browser
+export interface PushSubscriptionKeys {
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+}
+
+export interface PushSubscriptionRecord extends PushSubscriptionKeys {
+  address: string | null; // wallet to match sales against
+  topics: PushTopic[];
+  location: Location | null; // for nearby checkpoints
+  radiusMeters: number;
+  updatedAt: number;
+}
+
+// Sale notifications go to the wallet of the request's wallet session, which is required for them
+export interface PushSubscribeRequest {
+  subscription: PushSubscriptionKeys;
+  topics: PushTopic[];
+  location: Location | null;
+}
+
+export interface PushUnsubscribeRequest {
+  endpoint: string;
+}
+
+// What the service worker turns into a system notification
+export interface PushPayload {
+  title: string;
+  body: string;
+  url: string; // opened on click
+  tag?: string; // replaces an earlier notification with the same tag
+}
+
+export interface PushDispatchResponse {
+  events: number;
+  sent: number;
+  removed: number; // subscriptions the push service reported as gone
+}
+
+export interface PushErrorResponse {
+  error: string;
+}
@@ -0,0 +1,29 @@
+import type { Location, LocationWithAccuracy } from '@/types/location';
+
+export type SessionEventType = 'enter' | 'exit' | 'dwell' | 'claim';
+
+export interface SessionEvent {
+  type: SessionEventType;
+  checkpointId: string;
+  checkpointLabel: string;
+  timestamp: number;
+  location: Location;
+}
+
+export interface PlaySession {
+  id: string;
+  startedAt: number;
+  endedAt: number | null; // null while recording
+  track: LocationWithAccuracy[];
+  events: SessionEvent[];
+}
+
+export interface SessionStats {
+  distance: number; // meters
+  duration: number; // milliseconds
+  averageSpeed: number; // m/s
+  pointCount: number;
+  checkpointsEntered: number;
+  dwells: number;
+  claims: number;
+}
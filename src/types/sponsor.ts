@@ -0,0 +1,25 @@
+// Sponsor backend API (POST /api/sponsor and /api/sponsor/execute by default)
+
+export interface SponsorTransactionRequest {
+  transactionKindBytes: string; // base64 TransactionKind, built with onlyTransactionKind
+  sender: string;
+}
+
+export interface SponsorTransactionResponse {
+  bytes: string; // base64 TransactionData with the sponsor as gas owner
+  digest: string;
+}
+
+export interface ExecuteSponsoredTransactionRequest {
+  digest: string;
+  bytes: string; // lets stand-in sponsors co-sign without keeping state
+  signature: string; // sender signature over `bytes`
+}
+
+export interface ExecuteSponsoredTransactionResponse {
+  digest: string;
+}
+
+export interface SponsorErrorResponse {
+  error: string;
+}
@@ -0,0 +1,94 @@
+// Short-long pattern so an arrival feels different from a generic buzz
+const ARRIVAL_VIBRATION_PATTERN = [120, 60, 240];
+const DWELL_VIBRATION_PATTERN = [80, 40, 80, 40, 80];
+
+let audioContext: AudioContext | null = null;
+
+/**
+ * Vibrate the device if the Vibration API is available (Android browsers; iOS ignores it)
+ * @param kind Which pattern to play
+ */
+export function vibrateForArrival(kind: 'enter' | 'dwell'): void {
+  if (typeof navigator === 'undefined' || typeof navigator.vibrate !== 'function') return;
+  navigator.vibrate(kind === 'enter' ? ARRIVAL_VIBRATION_PATTERN : DWELL_VIBRATION_PATTERN);
+}
+
+/**
+ * Play a short two-note chime with Web Audio (no audio asset needed)
+ * Browsers only allow audio after a user gesture on the page, so the first chime may be silent.
+ * @param kind 'enter' rises, 'dwell' repeats the high note
+ */
+export function playArrivalSound(kind: 'enter' | 'dwell'): void {
+  if (typeof window === 'undefined' || typeof AudioContext === 'undefined') return;
+
+  try {
+    audioContext ??= new AudioContext();
+    const context = audioContext;
+    if (context.state === 'suspended') {
+      context.resume();
+    }
+
+    const notes = kind === 'enter' ? [660, 880] : [880, 880];
+    notes.forEach((frequency, index) => {
+      const start = context.currentTime + index * 0.15;
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+
+      oscillator.type = 'sine';
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.0001, start);
+      gain.gain.exponentialRampToValueAtTime(0.2, start + 0.02);
+      gain.gain.exponentialRampToValueAtTime(0.0001, start + 0.14);
+
+      oscillator.connect(gain).connect(context.destination);
+      oscillator.start(start);
+      oscillator.stop(start + 0.15);
+    });
+  } catch (error) {
+    console.warn('Failed to play arrival sound:', error);
+  }
+}
+
+/**
+ * Whether system notifications can be shown (supported and granted)
+ */
+export function canShowSystemNotifications(): boolean {
+  return typeof Notification !== 'undefined' && Notification.permission === 'granted';
+}
+
+/**
+ * Ask for notification permission
+ * @returns The resulting permission, or 'denied' when notifications are unsupported
+ */
+export async function requestNotificationPermission(): Promise<NotificationPermission> {
+  if (typeof Notification === 'undefined') return 'denied';
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+}
+
+/**
+ * Show a system notification through the service worker (works while the tab is in the background)
+ * @param title Notification title
+ * @param body Notification text
+ * @param url Page to open when the notification is clicked
+ * @param tag Notifications with the same tag replace each other
+ * @returns True if the notification was handed to the service worker
+ */
+export async function showSystemNotification(title: string, body: string, url: string, tag?: string): Promise<boolean> {
+  if (!canShowSystemNotifications() || !('serviceWorker' in navigator)) return false;
+
+  try {
+    const registration = await navigator.serviceWorker.ready;
+    await registration.showNotification(title, {
+      body,
+      tag,
+      icon: '/dino-192x192.png',
+      badge: '/icon-192x192.png',
+      data: { url }
+    });
+    return true;
+  } catch (error) {
+    console.warn('Failed to show notification:', error);
+    return false;
+  }
+}
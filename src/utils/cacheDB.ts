@@ -0,0 +1,140 @@
+// IndexedDB plumbing shared by checkpointCache.ts and offlineStore.ts
+
+const DB_NAME = 'suimming-cache';
+const DB_VERSION = 5;
+export const METADATA_STORE = 'walrus-metadata';
+export const SNAPSHOT_STORE = 'checkpoint-snapshots';
+export const SESSION_STORE = 'play-sessions';
+// Also read by the service worker's background sync (public/sw.js)
+export const PENDING_CLAIM_STORE = 'pending-claims';
+export const PLAYER_STORE = 'player-snapshots';
+// Version 5 keyed checkpoint snapshots by network as well as package
+const SNAPSHOT_KEY_VERSION = 5;
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Open (and upgrade if needed) the cache database
+ * An upgrade waits for every other tab to close its connection, so connections close themselves
+ * when a newer version asks, and a blocked upgrade falls back to running without the cache.
+ * @returns Database handle, or null when IndexedDB is unavailable (SSR, private mode, blocked upgrade)
+ */
+function openCacheDB(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.resolve(null);
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase | null>((resolve) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      let gaveUp = false;
+
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(METADATA_STORE)) {
+          db.createObjectStore(METADATA_STORE);
+        }
+        // Snapshots are only a cache, so older ones are dropped rather than re-keyed
+        if (event.oldVersion < SNAPSHOT_KEY_VERSION && db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+          db.deleteObjectStore(SNAPSHOT_STORE);
+        }
+        if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+          db.createObjectStore(SNAPSHOT_STORE, { keyPath: 'key' });
+        }
+        if (!db.objectStoreNames.contains(SESSION_STORE)) {
+          db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(PENDING_CLAIM_STORE)) {
+          db.createObjectStore(PENDING_CLAIM_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(PLAYER_STORE)) {
+          db.createObjectStore(PLAYER_STORE, { keyPath: 'address' });
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        if (gaveUp) {
+          db.close();
+          return;
+        }
+
+        // Let a newer version of the app (in another tab) upgrade instead of blocking it
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onblocked = () => {
+        console.warn('Cache upgrade is blocked by another open tab; running without the cache');
+        gaveUp = true;
+        dbPromise = null;
+        resolve(null);
+      };
+      request.onerror = () => {
+        console.warn('Cache database unavailable:', request.error);
+        resolve(null);
+      };
+    });
+  }
+
+  return dbPromise;
+}
+
+export async function readRecord<T>(storeName: string, key: IDBValidKey): Promise<T | null> {
+  try {
+    const db = await openCacheDB();
+    if (!db) return null;
+
+    const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+    const record = await requestToPromise(store.get(key));
+    return (record as T) ?? null;
+  } catch (error) {
+    console.warn(`Failed to read ${storeName} cache:`, error);
+    return null;
+  }
+}
+
+export async function writeRecord(storeName: string, value: unknown, key?: IDBValidKey): Promise<void> {
+  try {
+    const db = await openCacheDB();
+    if (!db) return;
+
+    const store = db.transaction(storeName, 'readwrite').objectStore(storeName);
+    await requestToPromise(key === undefined ? store.put(value) : store.put(value, key));
+  } catch (error) {
+    console.warn(`Failed to write ${storeName} cache:`, error);
+  }
+}
+
+export async function readAllRecords<T>(storeName: string): Promise<T[]> {
+  try {
+    const db = await openCacheDB();
+    if (!db) return [];
+
+    const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+    return (await requestToPromise(store.getAll())) as T[];
+  } catch (error) {
+    console.warn(`Failed to read ${storeName} cache:`, error);
+    return [];
+  }
+}
+
+export async function deleteRecord(storeName: string, key: IDBValidKey): Promise<void> {
+  try {
+    const db = await openCacheDB();
+    if (!db) return;
+
+    const store = db.transaction(storeName, 'readwrite').objectStore(storeName);
+    await requestToPromise(store.delete(key));
+  } catch (error) {
+    console.warn(`Failed to delete from ${storeName} cache:`, error);
+  }
+}
@@ -0,0 +1,83 @@
+import type { EventId } from '@mysten/sui/client';
+import type { CheckpointCoordinates } from '@/hooks/useCheckpoints';
+import type { SkippedCheckpoint } from '@/types/checkpoint';
+import { METADATA_STORE, readRecord, SNAPSHOT_STORE, writeRecord } from '@/utils/cacheDB';
+
+// Bump when the shape of CheckpointCoordinates changes so old snapshots are ignored
+const SNAPSHOT_FORMAT = 3;
+
+/**
+ * Last known checkpoint list for a package on one network, used to paint the map before the chain is queried
+ */
+export interface CheckpointSnapshot {
+  key: string; // `${network}:${packageId}`
+  network: string;
+  packageId: string;
+  format: number;
+  cursor: EventId | null;
+  checkpoints: CheckpointCoordinates[];
+  skipped: SkippedCheckpoint[];
+  updatedAt: number;
+}
+
+function snapshotKey(network: string, packageId: string): string {
+  return `${network}:${packageId}`;
+}
+
+/**
+ * Get metadata JSON previously downloaded from Walrus
+ * Walrus blobs are content-addressed, so a cached entry never goes stale
+ * @param blobId Walrus blob ID
+ * @returns Cached JSON or null on a miss
+ */
+export function getCachedMetadata<T = any>(blobId: string): Promise<T | null> {
+  return readRecord<T>(METADATA_STORE, blobId);
+}
+
+/**
+ * Store metadata JSON downloaded from Walrus
+ * @param blobId Walrus blob ID
+ * @param metadata Parsed JSON content of the blob
+ */
+export function putCachedMetadata(blobId: string, metadata: unknown): Promise<void> {
+  return writeRecord(METADATA_STORE, metadata, blobId);
+}
+
+/**
+ * Get the last checkpoint list and event cursor stored for a package
+ * @param network Sui network the package is deployed on
+ * @param packageId Suimming package ID the checkpoints were created by
+ * @returns Snapshot or null if nothing is cached yet
+ */
+export async function loadCheckpointSnapshot(network: string, packageId: string): Promise<CheckpointSnapshot | null> {
+  const snapshot = await readRecord<CheckpointSnapshot>(SNAPSHOT_STORE, snapshotKey(network, packageId));
+  return snapshot?.format === SNAPSHOT_FORMAT ? snapshot : null;
+}
+
+/**
+ * Persist the current checkpoint list and event cursor for a package
+ * @param network Sui network the package is deployed on
+ * @param packageId Suimming package ID the checkpoints were created by
+ * @param cursor Cursor of the last CheckpointCreated event processed
+ * @param checkpoints Resolved checkpoints
+ * @param skipped Checkpoints that could not be resolved, retried on the next load
+ */
+export function saveCheckpointSnapshot(
+  network: string,
+  packageId: string,
+  cursor: EventId | null,
+  checkpoints: CheckpointCoordinates[],
+  skipped: SkippedCheckpoint[]
+): Promise<void> {
+  const snapshot: CheckpointSnapshot = {
+    key: snapshotKey(network, packageId),
+    network,
+    packageId,
+    format: SNAPSHOT_FORMAT,
+    cursor,
+    checkpoints,
+    skipped,
+    updatedAt: Date.now()
+  };
+  return writeRecord(SNAPSHOT_STORE, snapshot);
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createCheckpointMetadata,
+  CURRENT_METADATA_VERSION,
+  DEFAULT_DWELL_MS,
+  DEFAULT_GEOFENCE_RADIUS_METERS,
+  migrateCheckpointMetadata,
+  validateCheckpointMetadata
+} from '@/utils/checkpointMetadata';
+
+const ADMIN = '0x7a2e9c4b1d3f5e8a0c6b2d4f6e8a1c3b5d7f9e0a2c4b6d8f1e3a5c7b9d0f2e4a';
+
+function currentMetadata(overrides: Record<string, unknown> = {}) {
+  return {
+    ...createCheckpointMetadata({ latitude: 37.5665, longitude: 126.978, createdBy: ADMIN }),
+    ...overrides
+  };
+}
+
+describe('migrateCheckpointMetadata', () => {
+  it('upgrades unversioned metadata with string coordinates to the current version', () => {
+    const migrated = migrateCheckpointMetadata({ latitude: '37.5665', longitude: '126.978' });
+
+    expect(migrated).toMatchObject({
+      type: 'checkpoint_metadata',
+      version: CURRENT_METADATA_VERSION,
+      latitude: 37.5665,
+      longitude: 126.978,
+      description: '',
+      image_url: '',
+      created_at: null,
+      created_by: null,
+      geofence: { radius_meters: DEFAULT_GEOFENCE_RADIUS_METERS, dwell_ms: DEFAULT_DWELL_MS, polygon: null }
+    });
+  });
+
+  it('gives 1.0 metadata the previous global geofence defaults', () => {
+    const migrated = migrateCheckpointMetadata({
+      type: 'checkpoint_metadata',
+      version: '1.0',
+      latitude: 1,
+      longitude: 2,
+      description: 'Fountain',
+      image_url: '',
+      created_at: '2025-01-01T00:00:00.000Z',
+      created_by: ADMIN
+    });
+
+    expect(migrated?.version).toBe('1.1');
+    expect(migrated?.description).toBe('Fountain');
+    expect(migrated?.geofence).toEqual({ radius_meters: DEFAULT_GEOFENCE_RADIUS_METERS, dwell_ms: DEFAULT_DWELL_MS, polygon: null });
+  });
+
+  it('leaves current metadata alone', () => {
+    const metadata = currentMetadata();
+
+    expect(migrateCheckpointMetadata(metadata)).toBe(metadata);
+  });
+
+  it('has no path from an unknown version', () => {
+    expect(migrateCheckpointMetadata({ version: '2.0', latitude: 1, longitude: 2 })).toBeNull();
+  });
+});
+
+describe('validateCheckpointMetadata', () => {
+  it('accepts metadata built by createCheckpointMetadata', () => {
+    const result = validateCheckpointMetadata(currentMetadata());
+
+    expect(result.valid).toBe(true);
+  });
+
+  it('accepts and migrates legacy metadata', () => {
+    const result = validateCheckpointMetadata({ latitude: '37.5', longitude: '127' });
+
+    expect(result).toMatchObject({ valid: true, metadata: { version: CURRENT_METADATA_VERSION, latitude: 37.5, longitude: 127 } });
+  });
+
+  it('keeps polygon vertices as plain lat/lng pairs', () => {
+    const polygon = [{ lat: 1, lng: 1, extra: true }, { lat: 1, lng: 2 }, { lat: 2, lng: 2 }];
+    const result = validateCheckpointMetadata(currentMetadata({
+      geofence: { radius_meters: 50, dwell_ms: 10000, polygon }
+    }));
+
+    expect(result.valid && result.metadata.geofence.polygon).toEqual([{ lat: 1, lng: 1 }, { lat: 1, lng: 2 }, { lat: 2, lng: 2 }]);
+  });
+
+  it.each([
+    ['a non-object', ['not', 'metadata'], 'invalid_metadata'],
+    ['another metadata type', { type: 'sentence_metadata' }, 'invalid_metadata'],
+    ['an unknown version', { version: '9.9', latitude: 1, longitude: 2 }, 'unsupported_version'],
+    ['an unparsable legacy latitude', { latitude: 'north', longitude: '127' }, 'invalid_metadata']
+  ])('rejects %s', (_, raw, reason) => {
+    expect(validateCheckpointMetadata(raw)).toMatchObject({ valid: false, reason });
+  });
+
+  it.each([
+    ['latitude out of range', { latitude: 91 }, 'latitude'],
+    ['longitude out of range', { longitude: -181 }, 'longitude'],
+    ['a non-string description', { description: 42 }, 'description'],
+    ['a numeric created_at', { created_at: 1700000000 }, 'created_at'],
+    ['a radius above the limit', { geofence: { radius_meters: 5000, dwell_ms: 0, polygon: null } }, 'radius_meters'],
+    ['a negative dwell time', { geofence: { radius_meters: 50, dwell_ms: -1, polygon: null } }, 'dwell_ms'],
+    ['a polygon with two vertices', { geofence: { radius_meters: 50, dwell_ms: 0, polygon: [{ lat: 0, lng: 0 }, { lat: 1, lng: 1 }] } }, 'polygon'],
+    ['a polygon with a bad vertex', { geofence: { radius_meters: 50, dwell_ms: 0, polygon: [{ lat: 0, lng: 0 }, { lat: 1, lng: 1 }, { lat: 100, lng: 1 }] } }, 'vertices'],
+    ['a missing geofence', { geofence: undefined }, 'geofence']
+  ])('explains %s', (_, overrides, field) => {
+    const result = validateCheckpointMetadata(currentMetadata(overrides));
+
+    expect(result.valid).toBe(false);
+    expect(!result.valid && result.reason).toBe('invalid_metadata');
+    expect(!result.valid && result.detail).toContain(field);
+  });
+});
@@ -0,0 +1,218 @@
+import type {
+  CheckpointGeofenceMetadata,
+  CheckpointMetadata,
+  CheckpointMetadataVersion,
+  MetadataValidationResult
+} from '@/types/checkpoint';
+
+export const CHECKPOINT_METADATA_TYPE = 'checkpoint_metadata';
+export const CURRENT_METADATA_VERSION: CheckpointMetadataVersion = '1.1';
+
+export const DEFAULT_GEOFENCE_RADIUS_METERS = 50;
+export const DEFAULT_DWELL_MS = 10000;
+export const GEOFENCE_RADIUS_LIMITS = { min: 5, max: 1000 }; // meters
+export const DWELL_MS_LIMITS = { min: 0, max: 10 * 60 * 1000 };
+const MIN_POLYGON_VERTICES = 3;
+
+// Metadata uploaded before the admin page stamped a version
+const LEGACY_VERSION = '0';
+
+// Metadata JSON as downloaded, before validation
+export type RawCheckpointMetadata = Record<string, unknown>;
+
+interface MetadataMigration {
+  from: string;
+  to: string;
+  migrate: (raw: RawCheckpointMetadata) => RawCheckpointMetadata;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Ordered migrations; each step upgrades raw JSON by exactly one version
+ */
+const MIGRATIONS: MetadataMigration[] = [
+  {
+    // Early uploads only carried coordinates, sometimes as strings
+    from: LEGACY_VERSION,
+    to: '1.0',
+    migrate: (raw) => ({
+      ...raw,
+      type: CHECKPOINT_METADATA_TYPE,
+      version: '1.0',
+      latitude: typeof raw.latitude === 'string' ? parseFloat(raw.latitude) : raw.latitude,
+      longitude: typeof raw.longitude === 'string' ? parseFloat(raw.longitude) : raw.longitude,
+      description: raw.description ?? '',
+      image_url: raw.image_url ?? '',
+      created_at: raw.created_at ?? null,
+      created_by: raw.created_by ?? null
+    })
+  },
+  {
+    // Per-checkpoint geofences; older checkpoints keep the previous global defaults
+    from: '1.0',
+    to: '1.1',
+    migrate: (raw) => ({
+      ...raw,
+      version: '1.1',
+      geofence: {
+        radius_meters: DEFAULT_GEOFENCE_RADIUS_METERS,
+        dwell_ms: DEFAULT_DWELL_MS,
+        polygon: null
+      }
+    })
+  }
+];
+
+function isValidVertex(vertex: unknown): vertex is { lat: number; lng: number } {
+  if (!isRecord(vertex)) return false;
+  const { lat, lng } = vertex;
+  return typeof lat === 'number' && Number.isFinite(lat) && lat >= -90 && lat <= 90 &&
+    typeof lng === 'number' && Number.isFinite(lng) && lng >= -180 && lng <= 180;
+}
+
+/**
+ * Check a geofence block from metadata JSON
+ * @returns The geofence, or the error detail when it is invalid
+ */
+function parseGeofence(geofence: unknown): { geofence: CheckpointGeofenceMetadata } | { error: string } {
+  if (!isRecord(geofence)) {
+    return { error: 'geofence must be an object' };
+  }
+
+  const { radius_meters, dwell_ms, polygon } = geofence;
+  if (typeof radius_meters !== 'number' || radius_meters < GEOFENCE_RADIUS_LIMITS.min || radius_meters > GEOFENCE_RADIUS_LIMITS.max) {
+    return { error: `geofence.radius_meters must be between ${GEOFENCE_RADIUS_LIMITS.min} and ${GEOFENCE_RADIUS_LIMITS.max}` };
+  }
+  if (typeof dwell_ms !== 'number' || dwell_ms < DWELL_MS_LIMITS.min || dwell_ms > DWELL_MS_LIMITS.max) {
+    return { error: `geofence.dwell_ms must be between ${DWELL_MS_LIMITS.min} and ${DWELL_MS_LIMITS.max}` };
+  }
+  if (polygon === null) {
+    return { geofence: { radius_meters, dwell_ms, polygon: null } };
+  }
+  if (!Array.isArray(polygon) || polygon.length < MIN_POLYGON_VERTICES) {
+    return { error: `geofence.polygon must be null or a list of at least ${MIN_POLYGON_VERTICES} vertices` };
+  }
+  if (!polygon.every(isValidVertex)) {
+    return { error: 'geofence.polygon vertices must be { lat, lng } pairs' };
+  }
+
+  return {
+    geofence: {
+      radius_meters,
+      dwell_ms,
+      polygon: polygon.map(vertex => ({ lat: vertex.lat, lng: vertex.lng }))
+    }
+  };
+}
+
+/**
+ * Build metadata JSON in the current schema version for upload to Walrus
+ * @param fields Checkpoint details entered by the admin
+ * @returns Metadata ready for `uploadJSON`
+ */
+export function createCheckpointMetadata(fields: {
+  latitude: number;
+  longitude: number;
+  description?: string;
+  imageUrl?: string;
+  createdBy: string;
+  geofenceRadius?: number;
+  dwellMs?: number;
+  polygon?: { lat: number; lng: number }[] | null;
+}): CheckpointMetadata {
+  return {
+    type: CHECKPOINT_METADATA_TYPE,
+    version: CURRENT_METADATA_VERSION,
+    latitude: fields.latitude,
+    longitude: fields.longitude,
+    description: fields.description ?? '',
+    image_url: fields.imageUrl ?? '',
+    created_at: new Date().toISOString(),
+    created_by: fields.createdBy,
+    geofence: {
+      radius_meters: fields.geofenceRadius ?? DEFAULT_GEOFENCE_RADIUS_METERS,
+      dwell_ms: fields.dwellMs ?? DEFAULT_DWELL_MS,
+      polygon: fields.polygon && fields.polygon.length > 0 ? fields.polygon : null
+    }
+  };
+}
+
+/**
+ * Upgrade raw metadata JSON to the current schema version
+ * @param raw Parsed JSON downloaded from Walrus
+ * @returns Migrated JSON, or null if there is no migration path from its version
+ */
+export function migrateCheckpointMetadata(raw: RawCheckpointMetadata): RawCheckpointMetadata | null {
+  let migrated = raw;
+  let version = typeof raw.version === 'string' ? raw.version : LEGACY_VERSION;
+
+  while (version !== CURRENT_METADATA_VERSION) {
+    const migration = MIGRATIONS.find(m => m.from === version);
+    if (!migration) return null;
+
+    migrated = migration.migrate(migrated);
+    version = migration.to;
+  }
+
+  return migrated;
+}
+
+/**
+ * Migrate and validate raw metadata JSON against the current schema
+ * @param raw Parsed JSON downloaded from Walrus
+ * @returns Typed metadata, or the reason it was rejected
+ */
+export function validateCheckpointMetadata(raw: unknown): MetadataValidationResult {
+  if (!isRecord(raw)) {
+    return { valid: false, reason: 'invalid_metadata', detail: 'Metadata is not a JSON object' };
+  }
+
+  if (raw.type !== undefined && raw.type !== CHECKPOINT_METADATA_TYPE) {
+    return { valid: false, reason: 'invalid_metadata', detail: `Unexpected metadata type "${String(raw.type)}"` };
+  }
+
+  const migrated = migrateCheckpointMetadata(raw);
+  if (!migrated) {
+    return { valid: false, reason: 'unsupported_version', detail: `Unsupported metadata version "${String(raw.version)}"` };
+  }
+
+  const { latitude, longitude, description, image_url, created_at, created_by, geofence } = migrated;
+
+  if (typeof latitude !== 'number' || !Number.isFinite(latitude) || latitude < -90 || latitude > 90) {
+    return { valid: false, reason: 'invalid_metadata', detail: 'latitude must be a number between -90 and 90' };
+  }
+  if (typeof longitude !== 'number' || !Number.isFinite(longitude) || longitude < -180 || longitude > 180) {
+    return { valid: false, reason: 'invalid_metadata', detail: 'longitude must be a number between -180 and 180' };
+  }
+  if (typeof description !== 'string' || typeof image_url !== 'string') {
+    return { valid: false, reason: 'invalid_metadata', detail: 'description and image_url must be strings' };
+  }
+  if (created_at !== null && typeof created_at !== 'string') {
+    return { valid: false, reason: 'invalid_metadata', detail: 'created_at must be an ISO date string' };
+  }
+  if (created_by !== null && typeof created_by !== 'string') {
+    return { valid: false, reason: 'invalid_metadata', detail: 'created_by must be an address string' };
+  }
+  const parsedGeofence = parseGeofence(geofence);
+  if ('error' in parsedGeofence) {
+    return { valid: false, reason: 'invalid_metadata', detail: parsedGeofence.error };
+  }
+
+  return {
+    valid: true,
+    metadata: {
+      type: CHECKPOINT_METADATA_TYPE,
+      version: CURRENT_METADATA_VERSION,
+      latitude,
+      longitude,
+      description,
+      image_url,
+      created_at,
+      created_by,
+      geofence: parsedGeofence.geofence
+    }
+  };
+}
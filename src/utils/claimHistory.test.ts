@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import type { SuiEvent } from '@mysten/sui/client';
+import { isClaimInEpoch, LETTERS_CLAIMED_EVENT, parseLettersClaimedEvent } from '@/utils/claimHistory';
+
+const CHECKPOINT_ID = '0x3c1f8e5a7b9d2c4e6f0a1b3d5e7f9a2c4b6d8e0f1a3c5e7b9d2f4a6c8e0b1d3f';
+const PROFILE_ID = '0x9e2d4c6b8a0f1e3d5c7b9a2e4f6d8c0b1a3e5f7d9c2b4a6e8f0d1c3b5a7e9f2d';
+const PLAYER = '0x4b6d8f0a2c4e6b8d0f1a3c5e7b9d2f4a6c8e0b1d3f5a7c9e2b4d6f8a0c1e3b5d';
+
+// Shaped like a queryEvents result: u64 fields arrive as strings, vector<u8> letters as byte arrays
+function claimEvent(parsedJson: Record<string, unknown>): SuiEvent {
+  return {
+    id: { txDigest: '7Xk2pQz9sLmN4vRb8TcW1yHd5fGj3aEu6oKi0nBqYt2M', eventSeq: '1' },
+    packageId: '0xbfb79081f4722d4c9535731bf27ef96229e9aff6284bac3fda7922506873935b',
+    transactionModule: 'checkpoint',
+    sender: PLAYER,
+    type: LETTERS_CLAIMED_EVENT,
+    parsedJson,
+    bcs: '',
+    bcsEncoding: 'base64',
+    timestampMs: '1760860800000'
+  } as SuiEvent;
+}
+
+describe('parseLettersClaimedEvent', () => {
+  it('reads a LettersClaimed payload', () => {
+    const claim = parseLettersClaimedEvent(claimEvent({
+      checkpoint: CHECKPOINT_ID,
+      user_profile: PROFILE_ID,
+      letters: [83, 85, 73],
+      epoch: '871'
+    }));
+
+    expect(claim).toEqual({
+      checkpointId: CHECKPOINT_ID,
+      profileId: PROFILE_ID,
+      claimer: PLAYER,
+      letters: ['S', 'U', 'I'],
+      epoch: '871',
+      timestampMs: 1760860800000,
+      digest: '7Xk2pQz9sLmN4vRb8TcW1yHd5fGj3aEu6oKi0nBqYt2M'
+    });
+  });
+
+  it('accepts letters sent as strings', () => {
+    expect(parseLettersClaimedEvent(claimEvent({ checkpoint: CHECKPOINT_ID, letters: ['A', 'B'] }))?.letters).toEqual(['A', 'B']);
+  });
+
+  it('does not guess other field names for the checkpoint', () => {
+    expect(parseLettersClaimedEvent(claimEvent({ checkpoint_id: CHECKPOINT_ID, letters: [65] }))).toBeNull();
+  });
+});
+
+describe('isClaimInEpoch', () => {
+  const epoch = { epoch: '871', startMs: 1760832000000, durationMs: 86_400_000, endMs: 1760918400000 };
+
+  it('compares the payload epoch when there is one', () => {
+    const claim = parseLettersClaimedEvent(claimEvent({ checkpoint: CHECKPOINT_ID, epoch: '870' }))!;
+
+    expect(isClaimInEpoch(claim, epoch)).toBe(false);
+  });
+
+  it('falls back to the event time', () => {
+    const claim = parseLettersClaimedEvent(claimEvent({ checkpoint: CHECKPOINT_ID }))!;
+
+    expect(isClaimInEpoch(claim, epoch)).toBe(true);
+  });
+});
@@ -0,0 +1,119 @@
+import type { SuiClient, SuiEvent } from '@mysten/sui/client';
+import type { ClaimRecord, EpochInfo } from '@/types/claim';
+
+import { SUIMMING_EVENTS } from '@/web3/suimming/config';
+import { parseLettersClaimedEvent as parseClaimEvent } from '@/web3/suimming/parse';
+
+export const LETTERS_CLAIMED_EVENT = SUIMMING_EVENTS.lettersClaimed;
+
+// Safety cap on pages scanned per refresh (claims are read newest first)
+const MAX_EVENT_PAGES = 20;
+
+/**
+ * Read the current epoch and when it ends
+ * @param suiClient Sui client
+ */
+export async function fetchEpochInfo(suiClient: SuiClient): Promise<EpochInfo> {
+  const state = await suiClient.getLatestSuiSystemState();
+  const startMs = Number(state.epochStartTimestampMs);
+  const durationMs = Number(state.epochDurationMs);
+
+  return {
+    epoch: state.epoch,
+    startMs,
+    durationMs,
+    endMs: startMs + durationMs
+  };
+}
+
+/**
+ * Convert a LettersClaimed event into a claim record
+ * @param event Event from queryEvents or transaction effects
+ * @returns Claim record, or null if the event has no checkpoint ID
+ */
+export function parseLettersClaimedEvent(event: SuiEvent): ClaimRecord | null {
+  const fields = parseClaimEvent(event);
+  if (!fields) return null;
+
+  return {
+    ...fields,
+    claimer: event.sender,
+    timestampMs: Number(event.timestampMs ?? Date.now()),
+    digest: event.id.txDigest
+  };
+}
+
+/**
+ * Whether a claim happened in the given epoch
+ * Uses the epoch from the event payload, falling back to the event timestamp.
+ */
+export function isClaimInEpoch(claim: ClaimRecord, epoch: EpochInfo): boolean {
+  if (claim.epoch !== null) {
+    return claim.epoch === epoch.epoch;
+  }
+  return claim.timestampMs >= epoch.startMs;
+}
+
+/**
+ * Load the user's LettersClaimed events newer than a point in time
+ * @param suiClient Sui client
+ * @param owner Claimer address and (optionally) profile ID to match
+ * @param sinceMs Stop paging once events are older than this
+ * @returns Matching claims, newest first
+ */
+export async function fetchClaimsSince(
+  suiClient: SuiClient,
+  owner: { address: string; profileId?: string | null },
+  sinceMs: number
+): Promise<ClaimRecord[]> {
+  const claims: ClaimRecord[] = [];
+  let cursor: SuiEvent['id'] | null = null;
+
+  for (let page = 0; page < MAX_EVENT_PAGES; page++) {
+    const result = await suiClient.queryEvents({
+      query: { MoveEventType: LETTERS_CLAIMED_EVENT },
+      cursor,
+      order: 'descending'
+    });
+
+    let reachedOlderEvents = false;
+    result.data.forEach(event => {
+      const claim = parseLettersClaimedEvent(event);
+      if (!claim) {
+        // Otherwise the checkpoint would quietly look unclaimed and the claim would abort on chain
+        console.warn(`Unreadable LettersClaimed event in ${event.id.txDigest}`);
+        return;
+      }
+      if (claim.timestampMs < sinceMs) {
+        reachedOlderEvents = true;
+        return;
+      }
+
+      const isOwnClaim = claim.profileId && owner.profileId
+        ? claim.profileId === owner.profileId
+        : claim.claimer === owner.address;
+      if (isOwnClaim) {
+        claims.push(claim);
+      }
+    });
+
+    if (reachedOlderEvents || !result.hasNextPage || !result.nextCursor) break;
+    cursor = result.nextCursor;
+  }
+
+  return claims;
+}
+
+/**
+ * Format the time left until claims reopen
+ * @param ms Milliseconds remaining
+ * @returns e.g. "5h 12m", "12m", "<1m"
+ */
+export function formatCountdown(ms: number): string {
+  const totalMinutes = Math.floor(Math.max(0, ms) / 60000);
+  if (totalMinutes < 1) return '<1m';
+
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+}
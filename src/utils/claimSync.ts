@@ -0,0 +1,68 @@
+// Keep in sync with the sync handler in public/sw.js
+export const CLAIM_SYNC_TAG = 'claim-queue';
+const CLAIM_SYNC_MESSAGE = 'suimming:claim-sync';
+
+// Claims captured offline are dropped after this long or after this many failed sends
+export const PENDING_CLAIM_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+export const PENDING_CLAIM_MAX_ATTEMPTS = 5;
+
+type SyncCapableRegistration = ServiceWorkerRegistration & {
+  sync?: { register: (tag: string) => Promise<void> };
+};
+
+/**
+ * ID of a pending claim; one per checkpoint per wallet
+ */
+export function pendingClaimId(address: string, checkpointId: string): string {
+  return `${address}:${checkpointId}`;
+}
+
+/**
+ * Ask the service worker to send pending claims once the network is back
+ * @returns Whether Background Sync is available; without it the page retries when it sees the `online` event
+ */
+export async function requestClaimSync(): Promise<boolean> {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return false;
+
+  try {
+    const registration = await navigator.serviceWorker.ready as SyncCapableRegistration;
+    if (!registration.sync) return false;
+
+    await registration.sync.register(CLAIM_SYNC_TAG);
+    return true;
+  } catch (error) {
+    console.warn('Background sync unavailable:', error);
+    return false;
+  }
+}
+
+/**
+ * Handle the service worker's requests to send pending claims
+ * The worker cannot sign transactions, so it asks an open tab and waits for the outcome;
+ * an unsuccessful send makes the browser retry the sync later.
+ * @param listener Sends the pending claims, resolving to whether they all went out
+ * @returns Unsubscribe function
+ */
+export function subscribeClaimSyncRequests(listener: () => Promise<boolean>): () => void {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return () => {};
+
+  const handleMessage = async (event: MessageEvent) => {
+    if (event.data?.type !== CLAIM_SYNC_MESSAGE) return;
+
+    const sent = await listener().catch(() => false);
+    event.ports[0]?.postMessage({ sent });
+  };
+
+  navigator.serviceWorker.addEventListener('message', handleMessage);
+  return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+}
+
+/**
+ * Whether a failed transaction looks like lost connectivity rather than a rejection by the chain
+ * @param cause Underlying error (e.g. SuimmingTransactionError.cause)
+ */
+export function isNetworkFailure(cause: unknown): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  // fetch rejects with a TypeError when the request never reaches the server
+  return cause instanceof TypeError;
+}
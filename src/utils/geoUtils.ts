@@ -39,6 +39,30 @@ export function calculateBearing(point1: Location, point2: Location): number {
   return ((θ * 180) / Math.PI + 360) % 360;
 }
 
+/**
+ * Calculate the point reached by travelling a distance along a bearing
+ * @param origin Starting point
+ * @param bearing Direction of travel in degrees (0 = north)
+ * @param distance Distance to travel in meters
+ * @returns Destination point (altitude is carried over from the origin)
+ */
+export function calculateDestination(origin: Location, bearing: number, distance: number): Location {
+  const R = 6371000; // Earth's radius in meters
+  const δ = distance / R;
+  const θ = (bearing * Math.PI) / 180;
+  const φ1 = (origin.lat * Math.PI) / 180;
+  const λ1 = (origin.lng * Math.PI) / 180;
+
+  const φ2 = Math.asin(Math.sin(φ1) * Math.cos(δ) + Math.cos(φ1) * Math.sin(δ) * Math.cos(θ));
+  const λ2 = λ1 + Math.atan2(Math.sin(θ) * Math.sin(δ) * Math.cos(φ1), Math.cos(δ) - Math.sin(φ1) * Math.sin(φ2));
+
+  return {
+    lat: (φ2 * 180) / Math.PI,
+    lng: ((((λ2 * 180) / Math.PI) + 540) % 360) - 180,
+    altitude: origin.altitude
+  };
+}
+
 /**
  * Calculate speed between two location points
  * @param from Previous location with timestamp
@@ -140,6 +164,18 @@ export function formatLocation(location: Location, precision: number = 6): strin
   return `${location.lat.toFixed(precision)}, ${location.lng.toFixed(precision)}`;
 }
 
+/**
+ * Format a distance for display
+ * @param meters Distance in meters
+ * @returns e.g. "850 m" or "2.4 km"
+ */
+export function formatDistance(meters: number): string {
+  if (meters < 1000) {
+    return `${Math.round(meters)} m`;
+  }
+  return `${(meters / 1000).toFixed(meters < 10000 ? 1 : 0)} km`;
+}
+
 /**
  * Calculate average speed over multiple readings
  * @param locations Array of location readings with timestamps
@@ -223,6 +259,57 @@ export function calculateDistanceFast(point1: Location, point2: Location, maxDis
   return calculateDistance(point1, point2);
 }
 
+/**
+ * Check whether a point lies inside a polygon (ray casting)
+ * @param point Point to test
+ * @param polygon Polygon vertices in order; the closing edge is implied
+ * @returns True if the point is inside
+ */
+export function isPointInPolygon(point: Location, polygon: Location[]): boolean {
+  let inside = false;
+
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    const crosses = (a.lat > point.lat) !== (b.lat > point.lat) &&
+      point.lng < ((b.lng - a.lng) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lng;
+    if (crosses) inside = !inside;
+  }
+
+  return inside;
+}
+
+/**
+ * Distance from a point to the nearest edge of a polygon
+ * Uses a local flat projection around the point, accurate for geofence-sized polygons.
+ * @param point Point to measure from
+ * @param polygon Polygon vertices in order; the closing edge is implied
+ * @returns Distance in meters
+ */
+export function distanceToPolygonEdge(point: Location, polygon: Location[]): number {
+  const metersPerDegLat = 110540;
+  const metersPerDegLng = 111320 * Math.cos((point.lat * Math.PI) / 180);
+  const project = (vertex: Location) => ({
+    x: (vertex.lng - point.lng) * metersPerDegLng,
+    y: (vertex.lat - point.lat) * metersPerDegLat
+  });
+
+  let minDistance = Infinity;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = project(polygon[j]);
+    const b = project(polygon[i]);
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSquared = dx * dx + dy * dy;
+
+    // Closest point on segment a→b to the origin (the point being measured)
+    const t = lengthSquared > 0 ? Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / lengthSquared)) : 0;
+    minDistance = Math.min(minDistance, Math.hypot(a.x + t * dx, a.y + t * dy));
+  }
+
+  return minDistance;
+}
+
 /**
  * Check if device is mobile for performance optimizations
  */
@@ -0,0 +1,55 @@
+import type { GeofencedCheckpoint } from '@/types/geofence';
+import type { Location } from '@/types/location';
+import { calculateDistance, distanceToPolygonEdge, isPointInPolygon } from '@/utils/geoUtils';
+
+// Exit margin bounds: a fix must be this far outside the boundary (scaled by its accuracy) to count as an exit
+const MIN_EXIT_MARGIN_METERS = 3;
+const MAX_EXIT_MARGIN_METERS = 30;
+
+/**
+ * Signed distance from a location to a checkpoint's geofence boundary
+ * @param location User location
+ * @param checkpoint Checkpoint center and geofence (polygon if set, otherwise the radius circle)
+ * @returns Meters; negative inside the geofence, positive outside
+ */
+export function getGeofenceDistance(location: Location, checkpoint: GeofencedCheckpoint): number {
+  const { polygon, radius } = checkpoint.geofence;
+
+  if (polygon) {
+    const edgeDistance = distanceToPolygonEdge(location, polygon);
+    return isPointInPolygon(location, polygon) ? -edgeDistance : edgeDistance;
+  }
+
+  return calculateDistance(location, checkpoint) - radius;
+}
+
+/**
+ * Farthest distance from the checkpoint center that its geofence covers
+ * Used to size spatial index queries so large polygons are not missed.
+ * @param checkpoint Checkpoint center and geofence
+ * @returns Meters
+ */
+export function getGeofenceReach(checkpoint: GeofencedCheckpoint): number {
+  const { polygon, radius } = checkpoint.geofence;
+  if (!polygon) return radius;
+
+  return Math.max(...polygon.map(vertex => calculateDistance(checkpoint, vertex)));
+}
+
+/**
+ * Decide whether the user is inside a geofence, with hysteresis against GPS jitter
+ * Entering needs a fix inside the boundary; leaving needs a fix outside it by more than
+ * the fix's accuracy (clamped), so a noisy reading at the edge doesn't flip the state.
+ * @param distance Signed distance from getGeofenceDistance
+ * @param wasInside Whether the user was inside on the previous fix
+ * @param accuracy Accuracy of the current fix in meters
+ * @returns True if the user should be considered inside
+ */
+export function isInsideGeofence(distance: number, wasInside: boolean, accuracy: number): boolean {
+  if (!wasInside) {
+    return distance <= 0;
+  }
+
+  const exitMargin = Math.min(Math.max(accuracy, MIN_EXIT_MARGIN_METERS), MAX_EXIT_MARGIN_METERS);
+  return distance <= exitMargin;
+}
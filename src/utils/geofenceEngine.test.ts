@@ -0,0 +1,240 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { GeofenceEvent, GeofencedCheckpoint } from '@/types/geofence';
+import type { Location } from '@/types/location';
+import { calculateDestination } from '@/utils/geoUtils';
+import { GeofenceEngine, type GeofenceFix } from '@/utils/geofenceEngine';
+
+const CENTER: Location = { lat: 37.5665, lng: 126.978 };
+const RADIUS = 50;
+const DWELL_MS = 30000;
+const T0 = 1_700_000_000_000;
+
+function circleCheckpoint(id: string, center: Location = CENTER, radius = RADIUS): GeofencedCheckpoint {
+  return { id, ...center, geofence: { radius, dwellMs: DWELL_MS, polygon: null } };
+}
+
+/**
+ * Fix at a distance and bearing from the checkpoint center
+ */
+function fixAt(meters: number, timestamp: number, { bearing = 90, accuracy = 5, origin = CENTER } = {}): GeofenceFix {
+  return { ...calculateDestination(origin, bearing, meters), accuracy, timestamp };
+}
+
+/**
+ * Straight walk along one bearing, one fix per second
+ * @param distances Meters from the center at each step
+ */
+function track(distances: number[], { start = T0, accuracy = 5 } = {}): GeofenceFix[] {
+  return distances.map((meters, step) => fixAt(meters, start + step * 1000, { accuracy }));
+}
+
+function replay(engine: GeofenceEngine, fixes: GeofenceFix[]): GeofenceEvent[] {
+  return fixes.flatMap(fix => engine.update(fix));
+}
+
+function types(events: GeofenceEvent[]): string[] {
+  return events.map(event => `${event.type}:${event.checkpoint.id}`);
+}
+
+describe('GeofenceEngine', () => {
+  describe('enter', () => {
+    it('fires once on the first fix inside the radius', () => {
+      const engine = new GeofenceEngine([circleCheckpoint('a')]);
+      const events = replay(engine, track([200, 120, 60, 40, 20, 10]));
+
+      expect(types(events)).toEqual(['enter:a']);
+      expect(events[0].timestamp).toBe(T0 + 3000);
+      expect(events[0].distance).toBeLessThan(0);
+      expect(events[0].dwellTime).toBe(0);
+      expect(engine.isInside('a')).toBe(true);
+    });
+
+    it('ignores checkpoints the track never reaches', () => {
+      const engine = new GeofenceEngine([circleCheckpoint('a')]);
+      const events = replay(engine, track([400, 300, 200, 120, 60, 120, 200]));
+
+      expect(events).toEqual([]);
+      expect(engine.getInsideIds()).toEqual([]);
+    });
+
+    it('enters overlapping checkpoints independently', () => {
+      const nearby = calculateDestination(CENTER, 90, 40);
+      const engine = new GeofenceEngine([circleCheckpoint('a'), circleCheckpoint('b', nearby)]);
+      const events = replay(engine, track([200, 20]));
+
+      expect(types(events).sort()).toEqual(['enter:a', 'enter:b']);
+    });
+  });
+
+  describe('exit', () => {
+    it('fires once the track leaves past the exit margin', () => {
+      const engine = new GeofenceEngine([circleCheckpoint('a')]);
+      const events = replay(engine, track([10, 30, 60, 100, 200]));
+
+      expect(types(events)).toEqual(['enter:a', 'exit:a']);
+      expect(events[1].timestamp).toBe(T0 + 2000);
+      expect(events[1].distance).toBeGreaterThan(0);
+      expect(events[1].dwellTime).toBe(2000);
+      expect(engine.isInside('a')).toBe(false);
+    });
+
+    it('fires when the checkpoint is removed while inside', () => {
+      const engine = new GeofenceEngine([circleCheckpoint('a'), circleCheckpoint('b', calculateDestination(CENTER, 0, 500))]);
+      engine.update(fixAt(10, T0));
+
+      const events = engine.setCheckpoints([circleCheckpoint('b', calculateDestination(CENTER, 0, 500))]);
+      expect(types(events)).toEqual(['exit:a']);
+      expect(engine.getInsideIds()).toEqual([]);
+    });
+
+    it('does not fire after reset', () => {
+      const engine = new GeofenceEngine([circleCheckpoint('a')]);
+      engine.update(fixAt(10, T0));
+      engine.reset();
+
+      expect(engine.update(fixAt(200, T0 + 1000))).toEqual([]);
+    });
+  });
+
+  describe('dwell', () => {
+    it('fires once after staying inside for the dwell time', () => {
+      const engine = new GeofenceEngine([circleCheckpoint('a')]);
+      const stay = Array.from({ length: 40 }, () => 20);
+      const events = replay(engine, track([100, ...stay]));
+
+      expect(types(events)).toEqual(['enter:a', 'dwell:a']);
+      expect(events[1].timestamp - events[0].timestamp).toBe(DWELL_MS);
+      expect(events[1].dwellTime).toBe(DWELL_MS);
+    });
+
+    it('fires from tick when fixes stop while standing still', () => {
+      const engine = new GeofenceEngine([circleCheckpoint('a')]);
+      engine.update(fixAt(10, T0));
+
+      expect(engine.tick(T0 + DWELL_MS - 1)).toEqual([]);
+      expect(types(engine.tick(T0 + DWELL_MS))).toEqual(['dwell:a']);
+      expect(engine.tick(T0 + DWELL_MS * 2)).toEqual([]);
+    });
+
+    it('does not fire when the visit is shorter than the dwell time', () => {
+      const engine = new GeofenceEngine([circleCheckpoint('a')]);
+      const events = replay(engine, [fixAt(10, T0), fixAt(10, T0 + DWELL_MS / 2), fixAt(200, T0 + DWELL_MS - 1000)]);
+
+      expect(types(events)).toEqual(['enter:a', 'exit:a']);
+      expect(engine.tick(T0 + DWELL_MS * 2)).toEqual([]);
+    });
+
+    it('restarts the timer on a new visit', () => {
+      const engine = new GeofenceEngine([circleCheckpoint('a')]);
+      replay(engine, [fixAt(10, T0), fixAt(10, T0 + DWELL_MS), fixAt(200, T0 + DWELL_MS + 1000)]);
+
+      const revisit = T0 + DWELL_MS * 3;
+      engine.update(fixAt(10, revisit));
+      expect(engine.tick(revisit + DWELL_MS - 1)).toEqual([]);
+      expect(types(engine.tick(revisit + DWELL_MS))).toEqual(['dwell:a']);
+    });
+  });
+
+  describe('hysteresis', () => {
+    it('stays inside while accurate fixes jitter just outside the boundary', () => {
+      const engine = new GeofenceEngine([circleCheckpoint('a')]);
+      const events = replay(engine, track([45, 52, 48, 53, 49, 52], { accuracy: 5 }));
+
+      expect(types(events)).toEqual(['enter:a']);
+      expect(engine.isInside('a')).toBe(true);
+    });
+
+    it('needs a fix inside the boundary to enter', () => {
+      const engine = new GeofenceEngine([circleCheckpoint('a')]);
+      const events = replay(engine, track([52, 51, 53], { accuracy: 20 }));
+
+      expect(events).toEqual([]);
+    });
+
+    it('widens the exit margin with poor accuracy', () => {
+      const engine = new GeofenceEngine([circleCheckpoint('a')]);
+      engine.update(fixAt(10, T0));
+
+      // 15 m outside: within a 20 m accuracy margin, but beyond the 3 m minimum
+      expect(engine.update(fixAt(RADIUS + 15, T0 + 1000, { accuracy: 20 }))).toEqual([]);
+      expect(types(engine.update(fixAt(RADIUS + 15, T0 + 2000, { accuracy: 1 })))).toEqual(['exit:a']);
+    });
+
+    it('caps the exit margin for very inaccurate fixes', () => {
+      const engine = new GeofenceEngine([circleCheckpoint('a')]);
+      engine.update(fixAt(10, T0));
+
+      expect(engine.update(fixAt(RADIUS + 25, T0 + 1000, { accuracy: 500 }))).toEqual([]);
+      expect(types(engine.update(fixAt(RADIUS + 35, T0 + 2000, { accuracy: 500 })))).toEqual(['exit:a']);
+    });
+  });
+
+  describe('polygons', () => {
+    // A 400 m x 100 m strip east of the center; the 10 m radius circle is ignored when a polygon is set
+    const strip: Location[] = [
+      calculateDestination(calculateDestination(CENTER, 0, 50), 270, 20),
+      calculateDestination(calculateDestination(CENTER, 0, 50), 90, 380),
+      calculateDestination(calculateDestination(CENTER, 180, 50), 90, 380),
+      calculateDestination(calculateDestination(CENTER, 180, 50), 270, 20)
+    ];
+    const park: GeofencedCheckpoint = { id: 'park', ...CENTER, geofence: { radius: 10, dwellMs: DWELL_MS, polygon: strip } };
+
+    it('enters far from the center when inside the polygon', () => {
+      const engine = new GeofenceEngine([park]);
+      const events = replay(engine, [fixAt(300, T0, { bearing: 0 }), fixAt(300, T0 + 1000, { bearing: 90 })]);
+
+      expect(types(events)).toEqual(['enter:park']);
+    });
+
+    it('does not enter near the center when outside the polygon', () => {
+      const engine = new GeofenceEngine([park]);
+      const events = replay(engine, [fixAt(70, T0, { bearing: 0 }), fixAt(40, T0 + 1000, { bearing: 270 })]);
+
+      expect(events).toEqual([]);
+    });
+
+    it('walks across the strip with enter, dwell and exit', () => {
+      const engine = new GeofenceEngine([park]);
+      const crossing = Array.from({ length: 50 }, (_, step) => fixAt(step * 10 - 60, T0 + step * 1000));
+      const events = replay(engine, crossing);
+
+      expect(types(events)).toEqual(['enter:park', 'dwell:park', 'exit:park']);
+      const [enter, dwell, exit] = events;
+      expect(dwell.timestamp - enter.timestamp).toBe(DWELL_MS);
+      expect(exit.distance).toBeGreaterThan(0);
+    });
+  });
+
+  describe('listeners', () => {
+    it('delivers events to subscribers and filtered listeners until unsubscribed', () => {
+      const engine = new GeofenceEngine([circleCheckpoint('a')]);
+      const all: string[] = [];
+      const exits: string[] = [];
+      const unsubscribe = engine.subscribe(event => all.push(event.type));
+      engine.on('exit', event => exits.push(event.checkpoint.id));
+
+      replay(engine, track([10, 200]));
+      unsubscribe();
+      replay(engine, track([10, 200], { start: T0 + 10000 }));
+
+      expect(all).toEqual(['enter', 'exit']);
+      expect(exits).toEqual(['a', 'a']);
+    });
+
+    it('keeps dispatching when a listener throws', () => {
+      const engine = new GeofenceEngine([circleCheckpoint('a')]);
+      const received: string[] = [];
+      engine.subscribe(() => {
+        throw new Error('listener failed');
+      });
+      engine.subscribe(event => received.push(event.type));
+
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+      engine.update(fixAt(10, T0));
+      expect(consoleError).toHaveBeenCalledOnce();
+      consoleError.mockRestore();
+
+      expect(received).toEqual(['enter']);
+    });
+  });
+});
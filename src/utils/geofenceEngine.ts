@@ -0,0 +1,201 @@
+import type { GeofenceEvent, GeofenceEventType, GeofenceListener, GeofencedCheckpoint } from '@/types/geofence';
+import type { Location } from '@/types/location';
+import { getGeofenceDistance, getGeofenceReach, isInsideGeofence } from '@/utils/geofence';
+import { SpatialIndex } from '@/utils/spatialIndex';
+
+export interface GeofenceFix extends Location {
+  accuracy: number; // meters, widens the exit hysteresis
+  timestamp: number;
+}
+
+interface InsideState {
+  enteredAt: number;
+  dwellFired: boolean;
+  distance: number;
+}
+
+/**
+ * Enter/exit/dwell detection for checkpoint geofences
+ *
+ * Pure and framework-free: feed it checkpoints and location fixes, and it emits typed
+ * events to subscribers and returns them from each call. All timing comes from fix
+ * timestamps (or the time passed to `tick`), so synthetic tracks replay deterministically.
+ *
+ * Usage:
+ * ```ts
+ * const engine = new GeofenceEngine(checkpoints);
+ * const unsubscribe = engine.on('enter', event => console.log(event.checkpoint.id));
+ * engine.update({ lat, lng, accuracy, timestamp });
+ * engine.tick(Date.now()); // fire dwell events while standing still
+ * ```
+ */
+export class GeofenceEngine<T extends GeofencedCheckpoint = GeofencedCheckpoint> {
+  private index = new SpatialIndex<T>();
+  private reach = 0;
+  private inside = new Map<string, InsideState>();
+  private listeners = new Set<GeofenceListener<T>>();
+  private lastFix: GeofenceFix | null = null;
+
+  constructor(checkpoints: T[] = []) {
+    this.setCheckpoints(checkpoints);
+  }
+
+  /**
+   * Replace the watched checkpoints
+   * Checkpoints the user was inside that are no longer present (or whose geofence no longer
+   * contains the last fix) produce exit events.
+   * @returns Events emitted by the re-evaluation
+   */
+  setCheckpoints(checkpoints: T[]): GeofenceEvent<T>[] {
+    const previousIndex = this.index;
+    this.index = new SpatialIndex(checkpoints);
+    this.reach = checkpoints.reduce((max, checkpoint) => Math.max(max, getGeofenceReach(checkpoint)), 0);
+
+    const events: GeofenceEvent<T>[] = [];
+    this.inside.forEach((state, checkpointId) => {
+      if (this.index.get(checkpointId)) return;
+
+      const removed = previousIndex.get(checkpointId);
+      this.inside.delete(checkpointId);
+      if (removed && this.lastFix) {
+        events.push(this.createEvent('exit', removed, this.lastFix.timestamp, state));
+      }
+    });
+
+    if (this.lastFix) {
+      events.push(...this.evaluate(this.lastFix));
+    }
+    return this.dispatch(events);
+  }
+
+  /**
+   * Process a new location fix
+   * @param fix User location with accuracy and timestamp
+   * @returns Events emitted for this fix, in enter/dwell/exit order per checkpoint
+   */
+  update(fix: GeofenceFix): GeofenceEvent<T>[] {
+    this.lastFix = fix;
+    return this.dispatch(this.evaluate(fix));
+  }
+
+  /**
+   * Check dwell timers without a new fix (GPS updates stop while the user stands still)
+   * @param timestamp Current time in milliseconds
+   * @returns Dwell events that became due
+   */
+  tick(timestamp: number): GeofenceEvent<T>[] {
+    const events: GeofenceEvent<T>[] = [];
+    this.inside.forEach((state, checkpointId) => {
+      const checkpoint = this.index.get(checkpointId);
+      if (checkpoint) {
+        this.checkDwell(checkpoint, state, timestamp, events);
+      }
+    });
+    return this.dispatch(events);
+  }
+
+  /**
+   * Listen to every geofence event
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: GeofenceListener<T>): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Listen to one event type
+   * @returns Unsubscribe function
+   */
+  on(type: GeofenceEventType, listener: GeofenceListener<T>): () => void {
+    return this.subscribe(event => {
+      if (event.type === type) listener(event);
+    });
+  }
+
+  /**
+   * IDs of the checkpoints the user is currently inside, in enter order
+   */
+  getInsideIds(): string[] {
+    return Array.from(this.inside.keys());
+  }
+
+  isInside(checkpointId: string): boolean {
+    return this.inside.has(checkpointId);
+  }
+
+  /**
+   * Forget inside/dwell state without emitting exits (e.g. when switching location source)
+   */
+  reset(): void {
+    this.inside.clear();
+    this.lastFix = null;
+  }
+
+  private evaluate(fix: GeofenceFix): GeofenceEvent<T>[] {
+    const events: GeofenceEvent<T>[] = [];
+
+    // Only checkpoints near the user can be entered; ones already inside are re-checked for exit
+    const candidates = new Map<string, T>();
+    this.index.withinRadius(fix, this.reach).forEach(({ point }) => candidates.set(point.id, point));
+    this.inside.forEach((_, checkpointId) => {
+      const checkpoint = this.index.get(checkpointId);
+      if (checkpoint) candidates.set(checkpointId, checkpoint);
+    });
+
+    candidates.forEach(checkpoint => {
+      const state = this.inside.get(checkpoint.id);
+      const distance = getGeofenceDistance(fix, checkpoint);
+      const isInside = isInsideGeofence(distance, !!state, fix.accuracy);
+
+      if (isInside && !state) {
+        const entered: InsideState = { enteredAt: fix.timestamp, dwellFired: false, distance };
+        this.inside.set(checkpoint.id, entered);
+        events.push(this.createEvent('enter', checkpoint, fix.timestamp, entered));
+        this.checkDwell(checkpoint, entered, fix.timestamp, events);
+      } else if (isInside && state) {
+        state.distance = distance;
+        this.checkDwell(checkpoint, state, fix.timestamp, events);
+      } else if (!isInside && state) {
+        state.distance = distance;
+        this.inside.delete(checkpoint.id);
+        events.push(this.createEvent('exit', checkpoint, fix.timestamp, state));
+      }
+    });
+
+    return events;
+  }
+
+  private checkDwell(checkpoint: T, state: InsideState, timestamp: number, events: GeofenceEvent<T>[]): void {
+    if (state.dwellFired || timestamp - state.enteredAt < checkpoint.geofence.dwellMs) return;
+
+    state.dwellFired = true;
+    events.push(this.createEvent('dwell', checkpoint, timestamp, state));
+  }
+
+  private createEvent(type: GeofenceEventType, checkpoint: T, timestamp: number, state: InsideState): GeofenceEvent<T> {
+    return {
+      type,
+      checkpoint,
+      timestamp,
+      location: this.lastFix ? { lat: this.lastFix.lat, lng: this.lastFix.lng } : { lat: checkpoint.lat, lng: checkpoint.lng },
+      distance: state.distance,
+      dwellTime: type === 'enter' ? 0 : Math.max(0, timestamp - state.enteredAt)
+    };
+  }
+
+  private dispatch(events: GeofenceEvent<T>[]): GeofenceEvent<T>[] {
+    events.forEach(event => {
+      this.listeners.forEach(listener => {
+        try {
+          listener(event);
+        } catch (error) {
+          console.error(`Geofence ${event.type} listener failed:`, error);
+        }
+      });
+    });
+    return events;
+  }
+}
@@ -0,0 +1,101 @@
+// Chromium's install prompt event; not in the DOM typings yet
+export interface BeforeInstallPromptEvent extends Event {
+  prompt: () => Promise<void>;
+  userChoice: Promise<{ outcome: 'accepted' | 'dismissed'; platform: string }>;
+}
+
+const INSTALL_DISMISSED_STORAGE_KEY = 'suimming-install-dismissed-at';
+// Ask again this long after the player closed the banner
+const INSTALL_DISMISS_COOLDOWN_MS = 14 * 24 * 60 * 60 * 1000;
+
+let deferredPrompt: BeforeInstallPromptEvent | null = null;
+const listeners = new Set<() => void>();
+
+function notify(): void {
+  listeners.forEach(listener => listener());
+}
+
+// The event can fire before any component mounts, so it is captured as soon as this module loads
+if (typeof window !== 'undefined') {
+  window.addEventListener('beforeinstallprompt', (event) => {
+    event.preventDefault(); // keep the browser's mini-infobar away; the app shows its own banner
+    deferredPrompt = event as BeforeInstallPromptEvent;
+    notify();
+  });
+  window.addEventListener('appinstalled', () => {
+    deferredPrompt = null;
+    notify();
+  });
+}
+
+/**
+ * Whether the app is running as an installed PWA
+ */
+export function isRunningStandalone(): boolean {
+  if (typeof window === 'undefined') return false;
+  return window.matchMedia('(display-mode: standalone)').matches
+    || (navigator as Navigator & { standalone?: boolean }).standalone === true;
+}
+
+/**
+ * Whether this is iOS Safari, which has no install prompt and needs "Add to Home Screen" instead
+ */
+export function needsManualInstall(): boolean {
+  if (typeof navigator === 'undefined') return false;
+  const isIOS = /iphone|ipad|ipod/i.test(navigator.userAgent);
+  return isIOS && !isRunningStandalone();
+}
+
+/**
+ * Whether the browser offered to install the app
+ */
+export function canPromptInstall(): boolean {
+  return deferredPrompt !== null;
+}
+
+/**
+ * Show the browser's install dialog
+ * The deferred event can only be used once, so the banner goes away whatever the player picks.
+ * @returns Whether the player installed the app
+ */
+export async function promptInstall(): Promise<boolean> {
+  if (!deferredPrompt) return false;
+
+  const prompt = deferredPrompt;
+  deferredPrompt = null;
+  notify();
+
+  await prompt.prompt();
+  const { outcome } = await prompt.userChoice;
+  return outcome === 'accepted';
+}
+
+/**
+ * Listen for the install prompt becoming available or used up
+ * @returns Unsubscribe function
+ */
+export function subscribeInstallPrompt(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Whether the player closed the install banner recently
+ */
+export function isInstallBannerDismissed(): boolean {
+  if (typeof localStorage === 'undefined') return false;
+
+  const dismissedAt = Number(localStorage.getItem(INSTALL_DISMISSED_STORAGE_KEY));
+  return Number.isFinite(dismissedAt) && Date.now() - dismissedAt < INSTALL_DISMISS_COOLDOWN_MS;
+}
+
+/**
+ * Hide the install banner for a while
+ */
+export function dismissInstallBanner(): void {
+  try {
+    localStorage.setItem(INSTALL_DISMISSED_STORAGE_KEY, String(Date.now()));
+  } catch (error) {
+    console.warn('Failed to save install banner dismissal:', error);
+  }
+}
@@ -0,0 +1,46 @@
+const CHANNEL_NAME = 'suimming-letter-bank';
+const WINDOW_EVENT = 'suimming:letter-bank-changed';
+
+export interface LetterBankChange {
+  letters: string[]; // letters added (empty when unknown)
+  digest: string; // transaction that changed the bank
+}
+
+/**
+ * Tell open views (this tab and others) that the letter bank changed on chain
+ * @param change Letters added and the transaction digest
+ */
+export function notifyLetterBankChanged(change: LetterBankChange): void {
+  if (typeof window === 'undefined') return;
+
+  window.dispatchEvent(new CustomEvent<LetterBankChange>(WINDOW_EVENT, { detail: change }));
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.postMessage(change);
+    channel.close();
+  }
+}
+
+/**
+ * Listen for letter bank changes from this tab and other tabs
+ * @param listener Called with each change
+ * @returns Unsubscribe function
+ */
+export function subscribeLetterBankChanges(listener: (change: LetterBankChange) => void): () => void {
+  if (typeof window === 'undefined') return () => { };
+
+  const handleWindowEvent = (event: Event) => listener((event as CustomEvent<LetterBankChange>).detail);
+  window.addEventListener(WINDOW_EVENT, handleWindowEvent);
+
+  let channel: BroadcastChannel | null = null;
+  if (typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<LetterBankChange>) => listener(event.data);
+  }
+
+  return () => {
+    window.removeEventListener(WINDOW_EVENT, handleWindowEvent);
+    channel?.close();
+  };
+}
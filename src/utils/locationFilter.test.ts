@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import type { LocationWithAccuracy } from '@/types/location';
+import { KalmanLocationFilter } from '@/utils/locationFilter';
+
+function fix(lat: number, lng: number, accuracy: number, seconds: number): LocationWithAccuracy {
+  return { lat, lng, accuracy, timestamp: seconds * 1000 };
+}
+
+describe('KalmanLocationFilter', () => {
+  it('passes the first fix through unchanged', () => {
+    const filter = new KalmanLocationFilter();
+
+    expect(filter.uncertaintyMeters).toBeNull();
+    expect(filter.process(fix(37.5, 127, 10, 0))).toEqual(fix(37.5, 127, 10, 0));
+    expect(filter.uncertaintyMeters).toBe(10);
+  });
+
+  it('weights an equally accurate fix halfway when no time has passed', () => {
+    const filter = new KalmanLocationFilter();
+    filter.process(fix(37.5, 127, 10, 0));
+
+    const result = filter.process(fix(37.5002, 127.0002, 10, 0));
+
+    expect(result.lat).toBeCloseTo(37.5001, 8);
+    expect(result.lng).toBeCloseTo(127.0001, 8);
+    expect(result.accuracy).toBeCloseTo(Math.sqrt(50), 8);
+  });
+
+  it('barely moves for a noisy fix and follows an accurate one', () => {
+    const noisy = new KalmanLocationFilter();
+    noisy.process(fix(37.5, 127, 5, 0));
+    const afterNoisy = noisy.process(fix(37.501, 127, 200, 1));
+
+    const accurate = new KalmanLocationFilter();
+    accurate.process(fix(37.5, 127, 50, 0));
+    const afterAccurate = accurate.process(fix(37.501, 127, 3, 1));
+
+    expect(afterNoisy.lat - 37.5).toBeLessThan(0.00002);
+    expect(37.501 - afterAccurate.lat).toBeLessThan(0.00002);
+  });
+
+  it('trusts a new fix more the longer it has been since the last one', () => {
+    const soon = new KalmanLocationFilter();
+    soon.process(fix(37.5, 127, 10, 0));
+    const afterSecond = soon.process(fix(37.501, 127, 10, 1));
+
+    const later = new KalmanLocationFilter();
+    later.process(fix(37.5, 127, 10, 0));
+    const afterMinute = later.process(fix(37.501, 127, 10, 60));
+
+    expect(afterMinute.lat).toBeGreaterThan(afterSecond.lat);
+  });
+
+  it('keeps the latest fix timestamp and extra fields', () => {
+    const filter = new KalmanLocationFilter();
+    filter.process(fix(37.5, 127, 10, 0));
+
+    const result = filter.process({ ...fix(37.5001, 127, 10, 5), heading: 90, speed: 1.2 });
+
+    expect(result).toMatchObject({ timestamp: 5000, heading: 90, speed: 1.2 });
+  });
+
+  it('clamps reported accuracy below one meter', () => {
+    const filter = new KalmanLocationFilter();
+
+    expect(filter.process(fix(37.5, 127, 0, 0)).accuracy).toBe(1);
+  });
+
+  it('starts over after reset', () => {
+    const filter = new KalmanLocationFilter();
+    filter.process(fix(37.5, 127, 10, 0));
+    filter.reset();
+
+    expect(filter.uncertaintyMeters).toBeNull();
+    expect(filter.process(fix(35.1, 129, 20, 10))).toEqual(fix(35.1, 129, 20, 10));
+  });
+});
@@ -0,0 +1,79 @@
+import type { LocationWithAccuracy } from '@/types/location';
+
+const DEFAULT_PROCESS_NOISE = 3; // m/s - how fast the true position is expected to drift (walking pace)
+const MIN_ACCURACY_METERS = 1;
+
+/**
+ * Kalman filter for GPS fixes
+ *
+ * Treats latitude/longitude as a position with a variance (in m²). Each new fix is
+ * blended in proportion to its reported accuracy, and uncertainty grows with the
+ * time since the last fix, so accurate readings pull hard while noisy ones barely
+ * move the estimate.
+ *
+ * Usage:
+ * ```ts
+ * const filter = new KalmanLocationFilter();
+ * const smoothed = filter.process(rawFix);
+ * ```
+ */
+export class KalmanLocationFilter {
+  private processNoise: number;
+  private estimate: LocationWithAccuracy | null = null;
+  private variance = -1; // m², negative until the first fix
+
+  constructor(processNoiseMetersPerSecond: number = DEFAULT_PROCESS_NOISE) {
+    this.processNoise = processNoiseMetersPerSecond;
+  }
+
+  /**
+   * Blend a new fix into the estimate
+   * @param fix Raw geolocation reading
+   * @returns Filtered location; `accuracy` is the filter's own uncertainty in meters
+   */
+  process(fix: LocationWithAccuracy): LocationWithAccuracy {
+    const accuracy = Math.max(fix.accuracy, MIN_ACCURACY_METERS);
+
+    if (!this.estimate || this.variance < 0) {
+      this.estimate = { ...fix, accuracy };
+      this.variance = accuracy * accuracy;
+      return this.estimate;
+    }
+
+    // Predict: uncertainty grows with elapsed time
+    const elapsedSeconds = (fix.timestamp - this.estimate.timestamp) / 1000;
+    if (elapsedSeconds > 0) {
+      this.variance += elapsedSeconds * this.processNoise * this.processNoise;
+    }
+
+    // Update: gain close to 1 trusts the new fix, close to 0 trusts the estimate
+    const gain = this.variance / (this.variance + accuracy * accuracy);
+    const lat = this.estimate.lat + gain * (fix.lat - this.estimate.lat);
+    const lng = this.estimate.lng + gain * (fix.lng - this.estimate.lng);
+    this.variance = (1 - gain) * this.variance;
+
+    this.estimate = {
+      ...fix,
+      lat,
+      lng,
+      accuracy: Math.sqrt(this.variance)
+    };
+    return this.estimate;
+  }
+
+  /**
+   * Forget the current estimate (e.g. after a long gap or a teleporting dev provider)
+   */
+  reset(): void {
+    this.estimate = null;
+    this.variance = -1;
+  }
+
+  /**
+   * Current uncertainty in meters, or null before the first fix
+   */
+  get uncertaintyMeters(): number | null {
+    return this.variance < 0 ? null : Math.sqrt(this.variance);
+  }
+}
+
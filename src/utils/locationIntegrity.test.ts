@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import type { LocationWithAccuracy } from '@/types/location';
+import { calculateDestination } from '@/utils/geoUtils';
+import { assessLocationIntegrity } from '@/utils/locationIntegrity';
+
+const START = { lat: 37.5665, lng: 126.978 };
+const T0 = 1_700_000_000_000;
+
+function walk(stepMeters: number[], { accuracy = (step: number) => 8 + (step % 3), altitude = (step: number) => 30 + step * 0.3 } = {}) {
+  let position = START;
+  return stepMeters.map((meters, step): LocationWithAccuracy => {
+    position = calculateDestination(position, 90, meters);
+    return { ...position, accuracy: accuracy(step), altitude: altitude(step), timestamp: T0 + step * 5000 };
+  });
+}
+
+describe('assessLocationIntegrity', () => {
+  it('trusts a normal walk', () => {
+    const report = assessLocationIntegrity(walk([0, 6, 7, 6, 5, 7]));
+
+    expect(report.flags).toEqual([]);
+    expect(report.verdict).toBe('ok');
+  });
+
+  it('trusts a phone standing still that repeats its accuracy', () => {
+    const report = assessLocationIntegrity(walk([0, 0, 0, 0, 0, 0], { accuracy: () => 5 }));
+
+    expect(report.flags).not.toContain('perfect_accuracy');
+    expect(report.verdict).toBe('ok');
+  });
+
+  it('flags constant accuracy only together with implausible movement', () => {
+    const report = assessLocationIntegrity(walk([0, 6, 5000, 6, 5, 7], { accuracy: () => 5 }));
+
+    expect(report.flags).toEqual(expect.arrayContaining(['teleport', 'perfect_accuracy']));
+    expect(report.verdict).toBe('blocked');
+  });
+
+  it('blocks a claim right after jumping onto a checkpoint', () => {
+    // Normal walk, a 5 km jump, then standing at the checkpoint with ordinary-looking accuracy
+    const report = assessLocationIntegrity(walk([0, 6, 7, 5000, 0, 0, 1]));
+
+    expect(report.flags).toEqual(['teleport']);
+    expect(report.verdict).toBe('blocked');
+  });
+
+  it('notes a short history without blocking the claim', () => {
+    const report = assessLocationIntegrity(walk([0]));
+
+    expect(report.flags).toEqual(['insufficient_history']);
+    expect(report.verdict).toBe('ok');
+  });
+});
@@ -0,0 +1,116 @@
+import type { LocationWithAccuracy } from '@/types/location';
+import { calculateDistance, calculateSpeed } from '@/utils/geoUtils';
+
+export type IntegrityFlag =
+  | 'insufficient_history' // too few fixes to judge
+  | 'impossible_speed' // moved faster than a player plausibly can
+  | 'teleport' // large jump in a short time
+  | 'perfect_accuracy' // accuracy too good or never changes, while the track also moves implausibly
+  | 'flat_altitude'; // altitude never varies
+
+export type IntegrityVerdict = 'ok' | 'suspicious' | 'blocked';
+
+export interface LocationIntegrityReport {
+  score: number; // 0-100, higher is more trustworthy
+  flags: IntegrityFlag[];
+  verdict: IntegrityVerdict;
+}
+
+export interface LocationIntegrityOptions {
+  maxPlausibleSpeed?: number; // m/s
+  teleportDistance?: number; // meters
+  teleportWindow?: number; // milliseconds
+  minHistory?: number; // fixes
+  suspiciousBelow?: number; // score
+  blockedBelow?: number; // score
+}
+
+const DEFAULT_OPTIONS: Required<LocationIntegrityOptions> = {
+  maxPlausibleSpeed: 45, // ≈160 km/h, generous for players in cars or trains
+  teleportDistance: 1000,
+  teleportWindow: 10000,
+  minHistory: 3,
+  suspiciousBelow: 70,
+  blockedBelow: 40
+};
+
+const FLAG_PENALTIES: Record<IntegrityFlag, number> = {
+  insufficient_history: 10,
+  impossible_speed: 40,
+  teleport: 65, // enough to block on its own: jumping onto a checkpoint is the farming case this guards against
+  perfect_accuracy: 20,
+  flat_altitude: 15
+};
+
+// Real GPS receivers rarely report better than this
+const PERFECT_ACCURACY_METERS = 1;
+// A phone standing still often repeats the same accuracy, so that only counts next to these
+const MOVEMENT_FLAGS: IntegrityFlag[] = ['impossible_speed', 'teleport'];
+// Variance checks need at least this many samples to mean anything
+const MIN_VARIANCE_SAMPLES = 5;
+
+/**
+ * Score how trustworthy a series of raw GPS fixes looks
+ *
+ * Mocked-location apps tend to produce fixes that move impossibly fast, jump across
+ * the map, report a constant or perfect accuracy, and never change altitude.
+ * Each detected pattern lowers the score; the verdict decides whether a reward
+ * claim should go ahead. Accuracy patterns are only counted on top of a movement anomaly.
+ * @param history Raw (unfiltered) fixes, oldest first
+ * @param options Thresholds
+ * @returns Score, detected flags and verdict
+ */
+export function assessLocationIntegrity(
+  history: LocationWithAccuracy[],
+  options: LocationIntegrityOptions = {}
+): LocationIntegrityReport {
+  const config = { ...DEFAULT_OPTIONS, ...options };
+  const flags = new Set<IntegrityFlag>();
+
+  if (history.length < config.minHistory) {
+    flags.add('insufficient_history');
+  }
+
+  for (let i = 1; i < history.length; i++) {
+    const from = history[i - 1];
+    const to = history[i];
+    const elapsed = to.timestamp - from.timestamp;
+    if (elapsed <= 0) continue;
+
+    // Subtract reported accuracy so ordinary GPS noise isn't mistaken for speed
+    const distance = Math.max(0, calculateDistance(from, to) - from.accuracy - to.accuracy);
+    if (distance >= config.teleportDistance && elapsed <= config.teleportWindow) {
+      flags.add('teleport');
+    } else if (distance > 0 && calculateSpeed(from, to) > config.maxPlausibleSpeed) {
+      flags.add('impossible_speed');
+    }
+  }
+
+  const hasMovementAnomaly = MOVEMENT_FLAGS.some(flag => flags.has(flag));
+  const hasPerfectAccuracy = history.some(fix => fix.accuracy > 0 && fix.accuracy < PERFECT_ACCURACY_METERS)
+    || (history.length >= MIN_VARIANCE_SAMPLES && new Set(history.map(fix => fix.accuracy)).size === 1);
+  if (hasMovementAnomaly && hasPerfectAccuracy) {
+    flags.add('perfect_accuracy');
+  }
+
+  const altitudes = history
+    .map(fix => fix.altitude)
+    .filter((altitude): altitude is number => typeof altitude === 'number');
+  if (altitudes.length >= MIN_VARIANCE_SAMPLES && new Set(altitudes).size === 1) {
+    flags.add('flat_altitude');
+  }
+
+  const score = Math.max(
+    0,
+    100 - Array.from(flags).reduce((total, flag) => total + FLAG_PENALTIES[flag], 0)
+  );
+
+  let verdict: IntegrityVerdict = 'ok';
+  if (score < config.blockedBelow) {
+    verdict = 'blocked';
+  } else if (score < config.suspiciousBelow) {
+    verdict = 'suspicious';
+  }
+
+  return { score, flags: Array.from(flags), verdict };
+}
@@ -0,0 +1,360 @@
+import type { Location, LocationWithAccuracy } from '@/types/location';
+import { calculateDestination } from '@/utils/geoUtils';
+
+export type LocationProviderKind = 'device' | 'simulated' | 'replay';
+
+export interface LocationProviderError {
+  code: 'permission_denied' | 'unavailable' | 'timeout';
+  message: string;
+}
+
+/**
+ * Source of position fixes
+ * Mirrors the shape of navigator.geolocation so the real device can be swapped for
+ * simulated sources during development.
+ */
+export interface LocationProvider {
+  readonly kind: LocationProviderKind;
+  isSupported(): boolean;
+  getCurrentLocation(options?: PositionOptions): Promise<LocationWithAccuracy>;
+  watchLocation(
+    onLocation: (location: LocationWithAccuracy) => void,
+    onError: (error: LocationProviderError) => void,
+    options?: PositionOptions
+  ): number;
+  clearWatch(watchId: number): void;
+}
+
+// Default position for simulated providers (same as the map's initial center)
+const DEFAULT_SIMULATED_LOCATION: Location = { lat: 40.7614, lng: -73.9776, altitude: 10 };
+
+// Simulated sources re-emit their position like a real GPS does while standing still
+const SIMULATED_FIX_INTERVAL_MS = 1000;
+
+// Replay never waits longer than this between two points, so gaps in a recording don't stall playback
+const MAX_REPLAY_GAP_MS = 5000;
+
+function toProviderError(error: GeolocationPositionError): LocationProviderError {
+  const code = error.code === error.PERMISSION_DENIED
+    ? 'permission_denied'
+    : error.code === error.TIMEOUT ? 'timeout' : 'unavailable';
+  return { code, message: error.message || 'Location unavailable' };
+}
+
+function toLocationWithAccuracy(position: GeolocationPosition): LocationWithAccuracy {
+  const { coords } = position;
+  return {
+    lat: coords.latitude,
+    lng: coords.longitude,
+    altitude: coords.altitude ?? undefined,
+    accuracy: coords.accuracy,
+    altitudeAccuracy: coords.altitudeAccuracy ?? undefined,
+    heading: coords.heading ?? undefined,
+    speed: coords.speed ?? undefined,
+    timestamp: position.timestamp
+  };
+}
+
+/**
+ * Real device position through navigator.geolocation
+ */
+export class DeviceLocationProvider implements LocationProvider {
+  readonly kind = 'device';
+
+  isSupported(): boolean {
+    return typeof navigator !== 'undefined' && 'geolocation' in navigator;
+  }
+
+  getCurrentLocation(options?: PositionOptions): Promise<LocationWithAccuracy> {
+    return new Promise((resolve, reject) => {
+      if (!this.isSupported()) {
+        reject({ code: 'unavailable', message: 'Geolocation is not supported' } satisfies LocationProviderError);
+        return;
+      }
+      navigator.geolocation.getCurrentPosition(
+        position => resolve(toLocationWithAccuracy(position)),
+        error => reject(toProviderError(error)),
+        options
+      );
+    });
+  }
+
+  watchLocation(
+    onLocation: (location: LocationWithAccuracy) => void,
+    onError: (error: LocationProviderError) => void,
+    options?: PositionOptions
+  ): number {
+    return navigator.geolocation.watchPosition(
+      position => onLocation(toLocationWithAccuracy(position)),
+      error => onError(toProviderError(error)),
+      options
+    );
+  }
+
+  clearWatch(watchId: number): void {
+    navigator.geolocation.clearWatch(watchId);
+  }
+}
+
+// Geolocation is a browser singleton, so one device provider is shared by every consumer
+export const deviceLocationProvider = new DeviceLocationProvider();
+
+/**
+ * Shared listener bookkeeping for providers that generate fixes themselves
+ */
+abstract class EmittingLocationProvider implements LocationProvider {
+  abstract readonly kind: LocationProviderKind;
+  private listeners = new Map<number, (location: LocationWithAccuracy) => void>();
+  private nextWatchId = 1;
+
+  protected abstract currentFix(): LocationWithAccuracy | null;
+  protected abstract onFirstWatch(): void;
+  protected abstract onLastClearWatch(): void;
+
+  isSupported(): boolean {
+    return true;
+  }
+
+  getCurrentLocation(): Promise<LocationWithAccuracy> {
+    const fix = this.currentFix();
+    return fix
+      ? Promise.resolve(fix)
+      : Promise.reject({ code: 'unavailable', message: 'No simulated position yet' } satisfies LocationProviderError);
+  }
+
+  watchLocation(onLocation: (location: LocationWithAccuracy) => void): number {
+    const watchId = this.nextWatchId++;
+    this.listeners.set(watchId, onLocation);
+    if (this.listeners.size === 1) {
+      this.onFirstWatch();
+    }
+
+    // Deliver the current position right away, as watchPosition does
+    const fix = this.currentFix();
+    if (fix) {
+      setTimeout(() => this.listeners.get(watchId)?.(fix), 0);
+    }
+    return watchId;
+  }
+
+  clearWatch(watchId: number): void {
+    if (this.listeners.delete(watchId) && this.listeners.size === 0) {
+      this.onLastClearWatch();
+    }
+  }
+
+  protected emit(fix: LocationWithAccuracy): void {
+    this.listeners.forEach(listener => listener(fix));
+  }
+}
+
+/**
+ * Position controlled by hand from the debug panel: teleport to a point or nudge it joystick-style
+ */
+export class SimulatedLocationProvider extends EmittingLocationProvider {
+  readonly kind = 'simulated';
+  private location: Location;
+  private accuracy = 5;
+  private interval: ReturnType<typeof setInterval> | null = null;
+
+  constructor(initialLocation: Location = DEFAULT_SIMULATED_LOCATION) {
+    super();
+    this.location = initialLocation;
+  }
+
+  get currentLocation(): Location {
+    return this.location;
+  }
+
+  get currentAccuracy(): number {
+    return this.accuracy;
+  }
+
+  /**
+   * Jump to a location
+   * @param location Target location
+   */
+  teleport(location: Location): void {
+    this.location = { ...location, altitude: location.altitude ?? this.location.altitude };
+    this.emit(this.currentFix());
+  }
+
+  /**
+   * Walk a distance in a direction from the current location
+   * @param bearing Direction in degrees (0 = north)
+   * @param meters Distance to move
+   */
+  move(bearing: number, meters: number): void {
+    this.teleport(calculateDestination(this.location, bearing, meters));
+  }
+
+  /**
+   * Change the accuracy reported with each fix, e.g. to exercise accuracy filtering
+   * @param meters Reported accuracy radius
+   */
+  setAccuracy(meters: number): void {
+    this.accuracy = Math.max(0, meters);
+    this.emit(this.currentFix());
+  }
+
+  protected currentFix(): LocationWithAccuracy {
+    return { ...this.location, accuracy: this.accuracy, timestamp: Date.now() };
+  }
+
+  protected onFirstWatch(): void {
+    this.interval = setInterval(() => this.emit(this.currentFix()), SIMULATED_FIX_INTERVAL_MS);
+  }
+
+  protected onLastClearWatch(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+}
+
+/**
+ * Plays back a recorded track (e.g. a GPX export of a play session) at a configurable speed
+ * Fixes are re-stamped with the current time so downstream throttling behaves as on a live walk.
+ */
+export class ReplayLocationProvider extends EmittingLocationProvider {
+  readonly kind = 'replay';
+  private track: LocationWithAccuracy[] = [];
+  private index = 0;
+  private playing = false;
+  private watching = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  speed = 1;
+  loop = false;
+
+  constructor(track: LocationWithAccuracy[] = []) {
+    super();
+    this.track = track;
+  }
+
+  get isPlaying(): boolean {
+    return this.playing;
+  }
+
+  get progress(): { index: number; length: number } {
+    return { index: this.index, length: this.track.length };
+  }
+
+  /**
+   * Replace the track being replayed and rewind to its first point
+   * @param track Recorded points in chronological order
+   */
+  load(track: LocationWithAccuracy[]): void {
+    this.pause();
+    this.track = track;
+    this.index = 0;
+    if (track.length > 0) {
+      this.emit(this.currentFix()!);
+    }
+  }
+
+  play(): void {
+    if (this.playing || this.track.length === 0) return;
+    if (this.index >= this.track.length - 1) {
+      this.index = 0;
+    }
+    this.playing = true;
+    this.scheduleNext();
+  }
+
+  pause(): void {
+    this.playing = false;
+    this.clearTimer();
+  }
+
+  protected currentFix(): LocationWithAccuracy | null {
+    const point = this.track[this.index];
+    return point ? { ...point, timestamp: Date.now() } : null;
+  }
+
+  protected onFirstWatch(): void {
+    this.watching = true;
+    this.scheduleNext();
+  }
+
+  protected onLastClearWatch(): void {
+    this.watching = false;
+    this.clearTimer();
+  }
+
+  private scheduleNext(): void {
+    this.clearTimer();
+    if (!this.playing || !this.watching) return;
+
+    const current = this.track[this.index];
+    const next = this.track[this.index + 1];
+    if (!next) {
+      if (this.loop) {
+        this.index = 0;
+        this.timer = setTimeout(() => this.advance(), SIMULATED_FIX_INTERVAL_MS);
+      } else {
+        this.playing = false;
+      }
+      return;
+    }
+
+    const gap = Math.min(Math.max(next.timestamp - current.timestamp, 0), MAX_REPLAY_GAP_MS);
+    this.timer = setTimeout(() => {
+      this.index++;
+      this.advance();
+    }, gap / Math.max(this.speed, 0.1));
+  }
+
+  private advance(): void {
+    const fix = this.currentFix();
+    if (fix) {
+      this.emit(fix);
+    }
+    this.scheduleNext();
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+/**
+ * Whether simulated location sources may be used
+ * Always on in development; production builds need NEXT_PUBLIC_ENABLE_LOCATION_SIMULATION=true.
+ * Claims from simulated sources still go through the location integrity check in production builds.
+ */
+export function isLocationSimulationEnabled(): boolean {
+  return process.env.NODE_ENV !== 'production' || process.env.NEXT_PUBLIC_ENABLE_LOCATION_SIMULATION === 'true';
+}
+
+/**
+ * Pick the location source from the `location` query param, falling back to NEXT_PUBLIC_LOCATION_PROVIDER
+ * @param params Page query parameters
+ * @returns Provider kind; always 'device' when simulation is disabled
+ */
+export function resolveLocationProviderKind(params: URLSearchParams): LocationProviderKind {
+  if (!isLocationSimulationEnabled()) {
+    return 'device';
+  }
+
+  const requested = params.get('location') ?? process.env.NEXT_PUBLIC_LOCATION_PROVIDER;
+  return requested === 'simulated' || requested === 'replay' ? requested : 'device';
+}
+
+/**
+ * Create a location provider of the given kind
+ * @param kind Provider kind from resolveLocationProviderKind
+ */
+export function createLocationProvider(kind: LocationProviderKind): LocationProvider {
+  switch (kind) {
+    case 'simulated':
+      return new SimulatedLocationProvider();
+    case 'replay':
+      return new ReplayLocationProvider();
+    default:
+      return deviceLocationProvider;
+  }
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { buildCheckpointLink, buildLocationLink, parseMapFocus } from '@/utils/mapLinks';
+
+function focusOf(link: string) {
+  return parseMapFocus(new URL(link, 'https://example.com').searchParams);
+}
+
+describe('parseMapFocus', () => {
+  it('returns a checkpoint focus when a checkpoint id is given', () => {
+    const params = new URLSearchParams({ checkpoint: '0xabc', lat: '37.5', lng: '127' });
+
+    expect(parseMapFocus(params)).toEqual({ type: 'checkpoint', checkpointId: '0xabc' });
+  });
+
+  it('returns a location focus with zoom', () => {
+    const params = new URLSearchParams({ lat: '37.5665', lng: '126.978', zoom: '17' });
+
+    expect(parseMapFocus(params)).toEqual({
+      type: 'location',
+      location: { lat: 37.5665, lng: 126.978 },
+      zoom: 17
+    });
+  });
+
+  it('leaves zoom undefined when it is missing or not a number', () => {
+    expect(parseMapFocus(new URLSearchParams({ lat: '1', lng: '2' }))).toMatchObject({ zoom: undefined });
+    expect(parseMapFocus(new URLSearchParams({ lat: '1', lng: '2', zoom: 'far' }))).toMatchObject({ zoom: undefined });
+  });
+
+  it('clamps zoom to the supported range', () => {
+    expect(parseMapFocus(new URLSearchParams({ lat: '1', lng: '2', zoom: '3' }))).toMatchObject({ zoom: 10 });
+    expect(parseMapFocus(new URLSearchParams({ lat: '1', lng: '2', zoom: '30' }))).toMatchObject({ zoom: 21 });
+  });
+
+  it('returns null for missing, malformed or out-of-range coordinates', () => {
+    expect(parseMapFocus(new URLSearchParams())).toBeNull();
+    expect(parseMapFocus(new URLSearchParams({ checkpoint: '' }))).toBeNull();
+    expect(parseMapFocus(new URLSearchParams({ lat: '37.5' }))).toBeNull();
+    expect(parseMapFocus(new URLSearchParams({ lat: 'north', lng: '127' }))).toBeNull();
+    expect(parseMapFocus(new URLSearchParams({ lat: '91', lng: '127' }))).toBeNull();
+    expect(parseMapFocus(new URLSearchParams({ lat: '37.5', lng: '-180.5' }))).toBeNull();
+  });
+
+  it('reads back the links built for sharing', () => {
+    expect(focusOf(buildCheckpointLink('0xabc'))).toEqual({ type: 'checkpoint', checkpointId: '0xabc' });
+    expect(focusOf(buildLocationLink({ lat: 37.5665, lng: 126.978 }, 16.6))).toEqual({
+      type: 'location',
+      location: { lat: 37.5665, lng: 126.978 },
+      zoom: 17
+    });
+  });
+});
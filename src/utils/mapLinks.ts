@@ -0,0 +1,95 @@
+import type { Location } from '@/types/location';
+
+const MIN_ZOOM = 10;
+const MAX_ZOOM = 21;
+
+/**
+ * Where the map camera should start, parsed from /map URL parameters
+ */
+export type MapFocus =
+  | { type: 'checkpoint'; checkpointId: string }
+  | { type: 'location'; location: Location; zoom?: number };
+
+function getOrigin(): string {
+  return typeof window !== 'undefined' ? window.location.origin : '';
+}
+
+/**
+ * Build a shareable link that opens the map on a checkpoint
+ * @param checkpointId Checkpoint object ID
+ * @returns Absolute URL like `https://.../map?checkpoint=0x...`
+ */
+export function buildCheckpointLink(checkpointId: string): string {
+  const params = new URLSearchParams({ checkpoint: checkpointId });
+  return `${getOrigin()}/map?${params.toString()}`;
+}
+
+/**
+ * Build a shareable link that opens the map on a coordinate
+ * @param location Point to center on
+ * @param zoom Optional zoom level
+ * @returns Absolute URL like `https://.../map?lat=..&lng=..&zoom=..`
+ */
+export function buildLocationLink(location: Location, zoom?: number): string {
+  const params = new URLSearchParams({
+    lat: location.lat.toFixed(6),
+    lng: location.lng.toFixed(6)
+  });
+  if (zoom !== undefined) {
+    params.set('zoom', String(Math.round(zoom)));
+  }
+  return `${getOrigin()}/map?${params.toString()}`;
+}
+
+/**
+ * Parse `checkpoint` or `lat`/`lng`/`zoom` map parameters
+ * @param params URL search parameters of the /map page
+ * @returns Focus target, or null if the parameters are missing or out of range
+ */
+export function parseMapFocus(params: URLSearchParams): MapFocus | null {
+  const checkpointId = params.get('checkpoint');
+  if (checkpointId) {
+    return { type: 'checkpoint', checkpointId };
+  }
+
+  const lat = parseFloat(params.get('lat') ?? '');
+  const lng = parseFloat(params.get('lng') ?? '');
+  if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    return null;
+  }
+
+  const zoom = parseFloat(params.get('zoom') ?? '');
+  return {
+    type: 'location',
+    location: { lat, lng },
+    zoom: Number.isFinite(zoom) ? Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom)) : undefined
+  };
+}
+
+/**
+ * Share a map link with the native share sheet, falling back to the clipboard
+ * @param url Link to share
+ * @param title Title shown in the share sheet
+ * @returns How the link was shared, or null if the user cancelled or both methods failed
+ */
+export async function shareMapLink(url: string, title: string): Promise<'shared' | 'copied' | null> {
+  if (typeof navigator !== 'undefined' && navigator.share) {
+    try {
+      await navigator.share({ title, url });
+      return 'shared';
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        return null;
+      }
+      // Fall through to clipboard when sharing is unavailable for this content
+    }
+  }
+
+  try {
+    await navigator.clipboard.writeText(url);
+    return 'copied';
+  } catch (error) {
+    console.error('Failed to copy link:', error);
+    return null;
+  }
+}
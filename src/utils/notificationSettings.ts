@@ -0,0 +1,53 @@
+export interface NotificationSettings {
+  arrivalSheet: boolean; // in-app sheet when entering a checkpoint
+  vibration: boolean;
+  sound: boolean;
+  backgroundNotifications: boolean; // system notification while the app is in the background
+  notifyOnDwell: boolean; // also alert once the dwell time is reached
+  autoClaim: boolean; // claim automatically on dwell (wallets that sign without a prompt only)
+  pushSales: boolean; // web push when a listed NFT sells
+  pushNearbyCheckpoints: boolean; // web push when a checkpoint is created nearby
+}
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  arrivalSheet: true,
+  vibration: true,
+  sound: false,
+  backgroundNotifications: false,
+  notifyOnDwell: true,
+  autoClaim: false,
+  pushSales: false,
+  pushNearbyCheckpoints: false
+};
+
+export const NOTIFICATION_SETTINGS_STORAGE_KEY = 'suimming-notification-settings';
+
+/**
+ * Read notification settings from localStorage
+ * @returns Stored settings merged over the defaults (defaults on the server or if storage is unavailable)
+ */
+export function loadNotificationSettings(): NotificationSettings {
+  if (typeof localStorage === 'undefined') {
+    return DEFAULT_NOTIFICATION_SETTINGS;
+  }
+
+  try {
+    const stored = localStorage.getItem(NOTIFICATION_SETTINGS_STORAGE_KEY);
+    return stored ? { ...DEFAULT_NOTIFICATION_SETTINGS, ...JSON.parse(stored) } : DEFAULT_NOTIFICATION_SETTINGS;
+  } catch (error) {
+    console.warn('Failed to read notification settings:', error);
+    return DEFAULT_NOTIFICATION_SETTINGS;
+  }
+}
+
+/**
+ * Persist notification settings to localStorage
+ * @param settings Settings to store
+ */
+export function saveNotificationSettings(settings: NotificationSettings): void {
+  try {
+    localStorage.setItem(NOTIFICATION_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('Failed to save notification settings:', error);
+  }
+}
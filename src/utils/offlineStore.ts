@@ -0,0 +1,95 @@
+import type { PendingClaim } from '@/types/claim';
+import type { PlayerSnapshot } from '@/types/player';
+import type { PlaySession } from '@/types/session';
+import {
+  deleteRecord,
+  PENDING_CLAIM_STORE,
+  PLAYER_STORE,
+  readAllRecords,
+  readRecord,
+  SESSION_STORE,
+  writeRecord
+} from '@/utils/cacheDB';
+
+// Player data kept on the device: recorded sessions, claims waiting to be sent and the offline copy of the letter bank
+
+/**
+ * Get all recorded play sessions
+ * @returns Sessions, most recent first
+ */
+export async function loadPlaySessions(): Promise<PlaySession[]> {
+  const sessions = await readAllRecords<PlaySession>(SESSION_STORE);
+  return sessions.sort((a, b) => b.startedAt - a.startedAt);
+}
+
+/**
+ * Create or overwrite a play session
+ * @param session Session to store, keyed by its id
+ */
+export function savePlaySession(session: PlaySession): Promise<void> {
+  return writeRecord(SESSION_STORE, session);
+}
+
+/**
+ * Remove a recorded play session
+ * @param sessionId ID of the session to delete
+ */
+export function deletePlaySession(sessionId: string): Promise<void> {
+  return deleteRecord(SESSION_STORE, sessionId);
+}
+
+/**
+ * Get claims captured offline that have not been sent yet
+ * @param address Wallet the claims were captured for
+ * @returns Pending claims, oldest first
+ */
+export async function loadPendingClaims(address: string): Promise<PendingClaim[]> {
+  const claims = await readAllRecords<PendingClaim>(PENDING_CLAIM_STORE);
+  return claims
+    .filter(claim => claim.address === address)
+    .sort((a, b) => a.capturedAt - b.capturedAt);
+}
+
+/**
+ * Create or overwrite a pending claim
+ * @param claim Claim to store, keyed by its id
+ */
+export function savePendingClaim(claim: PendingClaim): Promise<void> {
+  return writeRecord(PENDING_CLAIM_STORE, claim);
+}
+
+/**
+ * Remove a pending claim once it has been sent or given up on
+ * @param claimId ID of the claim to delete
+ */
+export function deletePendingClaim(claimId: string): Promise<void> {
+  return deleteRecord(PENDING_CLAIM_STORE, claimId);
+}
+
+/**
+ * Update the offline copy of a wallet's letter bank and NFTs
+ * @param address Wallet the data belongs to
+ * @param update Fields that were just loaded from the chain
+ */
+export async function updatePlayerSnapshot(
+  address: string,
+  update: Partial<Pick<PlayerSnapshot, 'letterBank' | 'nfts'>>
+): Promise<void> {
+  const existing = await readRecord<PlayerSnapshot>(PLAYER_STORE, address);
+  const snapshot: PlayerSnapshot = {
+    address,
+    letterBank: update.letterBank ?? existing?.letterBank ?? '',
+    nfts: update.nfts ?? existing?.nfts ?? [],
+    updatedAt: Date.now()
+  };
+  return writeRecord(PLAYER_STORE, snapshot);
+}
+
+/**
+ * Get the most recently updated player snapshot, whichever wallet it belongs to
+ * @returns Snapshot or null if no player data was ever cached
+ */
+export async function loadLatestPlayerSnapshot(): Promise<PlayerSnapshot | null> {
+  const snapshots = await readAllRecords<PlayerSnapshot>(PLAYER_STORE);
+  return snapshots.sort((a, b) => b.updatedAt - a.updatedAt)[0] ?? null;
+}
@@ -0,0 +1,230 @@
+import webpush, { WebPushError } from 'web-push';
+import { getFullnodeUrl, SuiClient, type EventId, type SuiEvent } from '@mysten/sui/client';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import type { Location } from '@/types/location';
+import type { PushDispatchResponse, PushPayload, PushSubscriptionRecord } from '@/types/push';
+import { calculateDistance, formatDistance } from '@/utils/geoUtils';
+import { validateCheckpointMetadata } from '@/utils/checkpointMetadata';
+import { loadPushStore, removePushSubscriptions, updatePushStore, type PushStoreData, type WatchedEvent } from '@/utils/pushStore';
+import { SUIMMING_EVENTS } from '@/web3/suimming/config';
+import { parseCheckpointCreatedEvent, parseCheckpointObject, parseNftListedEvent, parseNftPurchasedEvent } from '@/web3/suimming/parse';
+import { formatMist } from '@/web3/suimming/preview';
+
+// Server-only: reads the VAPID private key. Used by the /api/push/dispatch route.
+
+const NETWORK = (process.env.SUI_NETWORK ?? 'testnet') as 'testnet' | 'mainnet' | 'devnet';
+const WALRUS_AGGREGATOR_URL = process.env.WALRUS_AGGREGATOR_URL ?? 'https://aggregator.walrus-testnet.walrus.space';
+
+const VAPID_PUBLIC_KEY = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+const VAPID_PRIVATE_KEY = process.env.VAPID_PRIVATE_KEY;
+const VAPID_SUBJECT = process.env.VAPID_SUBJECT ?? 'mailto:admin@example.com';
+
+// Cap per pass so a long backlog is worked through over several runs
+const MAX_EVENT_PAGES = 5;
+const PUSH_TTL_SECONDS = 60 * 60;
+
+const WATCHED_EVENT_TYPES: Record<WatchedEvent, string> = {
+  checkpointCreated: SUIMMING_EVENTS.checkpointCreated,
+  nftListed: SUIMMING_EVENTS.nftListed,
+  nftPurchased: SUIMMING_EVENTS.nftPurchased
+};
+
+interface Delivery {
+  subscription: PushSubscriptionRecord;
+  payload: PushPayload;
+}
+
+let client: SuiClient | null = null;
+
+function getClient(): SuiClient {
+  client ??= new SuiClient({ url: getFullnodeUrl(NETWORK) });
+  return client;
+}
+
+/**
+ * Whether VAPID keys are configured, without which nothing can be sent
+ */
+export function isPushConfigured(): boolean {
+  return !!VAPID_PUBLIC_KEY && !!VAPID_PRIVATE_KEY;
+}
+
+/**
+ * New events of one type since the stored cursor, oldest first
+ * On the first run the cursor is set to the newest event so old history isn't announced.
+ */
+async function pollEvents(
+  type: string,
+  cursor: EventId | null | undefined
+): Promise<{ events: SuiEvent[]; cursor: EventId | null }> {
+  if (cursor === undefined) {
+    const latest = await getClient().queryEvents({ query: { MoveEventType: type }, order: 'descending', limit: 1 });
+    return { events: [], cursor: latest.data[0]?.id ?? null };
+  }
+
+  const events: SuiEvent[] = [];
+  let nextCursor = cursor;
+  for (let page = 0; page < MAX_EVENT_PAGES; page++) {
+    const result = await getClient().queryEvents({ query: { MoveEventType: type }, cursor: nextCursor, order: 'ascending' });
+    events.push(...result.data);
+    nextCursor = result.nextCursor ?? nextCursor;
+    if (!result.hasNextPage || result.data.length === 0) break;
+  }
+  return { events, cursor: nextCursor };
+}
+
+function sameAddress(a: string | null | undefined, b: string | null | undefined): boolean {
+  return !!a && !!b && normalizeSuiAddress(a) === normalizeSuiAddress(b);
+}
+
+function saleDeliveries(event: SuiEvent, store: PushStoreData): Delivery[] {
+  const sale = parseNftPurchasedEvent(event);
+  if (!sale) {
+    // Skipped rather than thrown, so one bad event can't stop every later pass
+    console.warn(`Skipping unreadable NFTPurchased event in ${event.id.txDigest}`);
+    return [];
+  }
+
+  // Purchase events may not repeat the seller, so fall back to the listing we saw
+  const seller = sale.seller ?? store.sellers[sale.nftId];
+  const price = sale.price !== null ? ` for ${formatMist(sale.price)}` : '';
+  const text = sale.text ? `"${sale.text}"` : 'Your Sentence NFT';
+
+  return store.subscriptions
+    .filter(subscription => subscription.topics.includes('sales') && sameAddress(subscription.address, seller))
+    .map(subscription => ({
+      subscription,
+      payload: { title: '🎉 Your NFT sold!', body: `${text} was bought${price}.`, url: '/market', tag: `sale-${sale.nftId}` }
+    }));
+}
+
+/**
+ * Label and coordinates of a new checkpoint, from its object and Walrus metadata
+ */
+async function resolveCheckpointLocation(checkpointId: string): Promise<{ label: string; location: Location } | null> {
+  const object = await getClient().getObject({ id: checkpointId, options: { showContent: true } });
+  const fields = parseCheckpointObject(object.data?.content);
+  if (!fields?.metaWalrusId) return null;
+
+  const response = await fetch(`${WALRUS_AGGREGATOR_URL}/v1/blobs/${fields.metaWalrusId}`);
+  if (!response.ok) return null;
+
+  const validation = validateCheckpointMetadata(await response.json().catch(() => null));
+  if (!validation.valid) return null;
+
+  return {
+    label: fields.label || 'A new checkpoint',
+    location: { lat: validation.metadata.latitude, lng: validation.metadata.longitude }
+  };
+}
+
+async function checkpointDeliveries(event: SuiEvent, store: PushStoreData): Promise<Delivery[]> {
+  const checkpointId = parseCheckpointCreatedEvent(event);
+  const subscribers = store.subscriptions.filter(subscription =>
+    subscription.topics.includes('nearby_checkpoints') && subscription.location);
+  if (!checkpointId || subscribers.length === 0) return [];
+
+  const checkpoint = await resolveCheckpointLocation(checkpointId);
+  if (!checkpoint) return [];
+
+  return subscribers.flatMap(subscription => {
+    const distance = calculateDistance(subscription.location!, checkpoint.location);
+    if (distance > subscription.radiusMeters) return [];
+
+    const params = new URLSearchParams({ checkpoint: checkpointId });
+    return [{
+      subscription,
+      payload: {
+        title: '📍 New checkpoint nearby',
+        body: `${checkpoint.label} appeared ${formatDistance(distance)} from you.`,
+        url: `/map?${params.toString()}`,
+        tag: `checkpoint-${checkpointId}`
+      }
+    }];
+  });
+}
+
+/**
+ * Send one notification
+ * @returns Whether the push service says the subscription no longer exists
+ */
+async function deliver({ subscription, payload }: Delivery): Promise<boolean> {
+  try {
+    await webpush.sendNotification(
+      { endpoint: subscription.endpoint, keys: subscription.keys },
+      JSON.stringify(payload),
+      { TTL: PUSH_TTL_SECONDS }
+    );
+    return false;
+  } catch (error) {
+    if (error instanceof WebPushError && (error.statusCode === 404 || error.statusCode === 410)) {
+      return true;
+    }
+    console.warn(`Push to ${subscription.endpoint.slice(0, 48)}… failed:`, error);
+    return false;
+  }
+}
+
+/**
+ * Run one dispatch pass: read new marketplace and checkpoint events and notify matching subscribers
+ * Cursors are saved after each pass, so every event is announced at most once.
+ */
+export async function dispatchPushNotifications(): Promise<PushDispatchResponse> {
+  if (!isPushConfigured()) {
+    throw new Error('VAPID keys are not configured');
+  }
+  webpush.setVapidDetails(VAPID_SUBJECT, VAPID_PUBLIC_KEY!, VAPID_PRIVATE_KEY!);
+
+  const store = await loadPushStore();
+  const polled = {} as Record<WatchedEvent, { events: SuiEvent[]; cursor: EventId | null }>;
+  for (const [name, type] of Object.entries(WATCHED_EVENT_TYPES) as [WatchedEvent, string][]) {
+    polled[name] = await pollEvents(type, store.cursors[name]);
+  }
+
+  // Listings first, so a sale in the same pass can be matched to its seller
+  const sellers = { ...store.sellers };
+  polled.nftListed.events.forEach(event => {
+    const listing = parseNftListedEvent(event);
+    if (listing?.seller) {
+      sellers[listing.nftId] = listing.seller;
+    }
+  });
+  const current = { ...store, sellers };
+
+  const deliveries: Delivery[] = polled.nftPurchased.events.flatMap(event => saleDeliveries(event, current));
+  for (const event of polled.checkpointCreated.events) {
+    deliveries.push(...await checkpointDeliveries(event, current).catch(error => {
+      console.warn(`Could not resolve checkpoint from ${event.id.txDigest}:`, error);
+      return [];
+    }));
+  }
+
+  const gone = new Set<string>();
+  for (const delivery of deliveries) {
+    if (await deliver(delivery)) gone.add(delivery.subscription.endpoint);
+  }
+
+  // Sold NFTs no longer need their seller
+  polled.nftPurchased.events.forEach(event => {
+    const sale = parseNftPurchasedEvent(event);
+    if (sale) delete sellers[sale.nftId];
+  });
+
+  await updatePushStore(data => ({
+    ...data,
+    sellers,
+    cursors: {
+      checkpointCreated: polled.checkpointCreated.cursor,
+      nftListed: polled.nftListed.cursor,
+      nftPurchased: polled.nftPurchased.cursor
+    }
+  }));
+  if (gone.size > 0) {
+    await removePushSubscriptions(Array.from(gone));
+  }
+
+  return {
+    events: Object.values(polled).reduce((total, { events }) => total + events.length, 0),
+    sent: deliveries.length - gone.size,
+    removed: gone.size
+  };
+}
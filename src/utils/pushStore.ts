@@ -0,0 +1,99 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { EventId } from '@mysten/sui/client';
+import type { PushSubscriptionRecord } from '@/types/push';
+
+// Server-only: a JSON file is enough for a single dispatcher; swap in a database when running several instances
+
+const STORE_PATH = process.env.PUSH_STORE_PATH ?? path.join(process.cwd(), '.data', 'push-store.json');
+
+export type WatchedEvent = 'checkpointCreated' | 'nftListed' | 'nftPurchased';
+
+export interface PushStoreData {
+  subscriptions: PushSubscriptionRecord[];
+  cursors: Partial<Record<WatchedEvent, EventId | null>>; // null: no events existed when watching started
+  sellers: Record<string, string>; // NFT ID -> seller, from NFTListed
+}
+
+const EMPTY_STORE: PushStoreData = { subscriptions: [], cursors: {}, sellers: {} };
+
+async function readStore(): Promise<PushStoreData> {
+  try {
+    return { ...EMPTY_STORE, ...JSON.parse(await fs.readFile(STORE_PATH, 'utf8')) };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return EMPTY_STORE;
+    throw error;
+  }
+}
+
+async function writeStore(data: PushStoreData): Promise<void> {
+  await fs.mkdir(path.dirname(STORE_PATH), { recursive: true });
+  // Write then rename so a crash never leaves half a file
+  const tempPath = `${STORE_PATH}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(data, null, 2));
+  await fs.rename(tempPath, STORE_PATH);
+}
+
+// Updates run one at a time so API requests and dispatch passes don't overwrite each other
+let pending: Promise<unknown> = Promise.resolve();
+
+/**
+ * Read the store
+ */
+export function loadPushStore(): Promise<PushStoreData> {
+  return pending.then(readStore);
+}
+
+/**
+ * Apply a change to the store and save it
+ * @param update Returns the new contents
+ */
+export function updatePushStore(update: (data: PushStoreData) => PushStoreData): Promise<PushStoreData> {
+  const next = pending.then(async () => {
+    const data = update(await readStore());
+    await writeStore(data);
+    return data;
+  });
+  pending = next.catch(() => undefined);
+  return next;
+}
+
+/**
+ * Create or replace the subscription for an endpoint
+ * A wallet keeps its most recent `maxPerAddress` subscriptions; new endpoints are refused once the store is full.
+ * @returns Whether the subscription was saved
+ */
+export async function savePushSubscription(
+  record: PushSubscriptionRecord,
+  { maxSubscriptions, maxPerAddress }: { maxSubscriptions: number; maxPerAddress: number }
+): Promise<boolean> {
+  let saved = false;
+  await updatePushStore(data => {
+    const others = data.subscriptions.filter(existing => existing.endpoint !== record.endpoint);
+    if (others.length === data.subscriptions.length && others.length >= maxSubscriptions) {
+      return data;
+    }
+
+    // Oldest first, so the ones over the per-wallet cap are dropped from the front
+    const sameAddress = record.address ? others.filter(existing => existing.address === record.address) : [];
+    const dropped = new Set(sameAddress
+      .sort((a, b) => a.updatedAt - b.updatedAt)
+      .slice(0, Math.max(0, sameAddress.length - maxPerAddress + 1))
+      .map(existing => existing.endpoint));
+
+    saved = true;
+    return { ...data, subscriptions: [...others.filter(existing => !dropped.has(existing.endpoint)), record] };
+  });
+  return saved;
+}
+
+/**
+ * Remove the subscriptions for the given endpoints
+ */
+export function removePushSubscriptions(endpoints: string[]): Promise<PushStoreData> {
+  const removed = new Set(endpoints);
+  return updatePushStore(data => ({
+    ...data,
+    subscriptions: data.subscriptions.filter(existing => !removed.has(existing.endpoint))
+  }));
+}
@@ -0,0 +1,107 @@
+import type { WalletSession } from '@/types/auth';
+import type { Location } from '@/types/location';
+import type { PushSubscribeRequest, PushTopic, PushUnsubscribeRequest } from '@/types/push';
+import { clearWalletSession, encodeWalletSession, WALLET_SESSION_HEADER } from '@/utils/walletSession';
+
+const VAPID_PUBLIC_KEY = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+const PUSH_API_URL = '/api/push';
+// A rough position is enough to decide what counts as nearby
+const LOCATION_TIMEOUT_MS = 10000;
+
+/**
+ * Whether this browser can receive web push and the app has a VAPID key
+ */
+export function isPushSupported(): boolean {
+  return !!VAPID_PUBLIC_KEY
+    && typeof navigator !== 'undefined'
+    && 'serviceWorker' in navigator
+    && typeof window !== 'undefined'
+    && 'PushManager' in window;
+}
+
+function urlBase64ToUint8Array(base64: string): Uint8Array<ArrayBuffer> {
+  const padded = (base64 + '='.repeat((4 - (base64.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = atob(padded);
+  const bytes = new Uint8Array(new ArrayBuffer(raw.length));
+  for (let i = 0; i < raw.length; i++) {
+    bytes[i] = raw.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function getApproximateLocation(): Promise<Location | null> {
+  if (typeof navigator === 'undefined' || !navigator.geolocation) return Promise.resolve(null);
+
+  return new Promise(resolve => {
+    navigator.geolocation.getCurrentPosition(
+      position => resolve({ lat: position.coords.latitude, lng: position.coords.longitude }),
+      () => resolve(null),
+      { enableHighAccuracy: false, timeout: LOCATION_TIMEOUT_MS, maximumAge: 5 * 60 * 1000 }
+    );
+  });
+}
+
+async function sendJson(
+  method: 'POST' | 'DELETE',
+  body: PushSubscribeRequest | PushUnsubscribeRequest,
+  session: WalletSession | null = null
+): Promise<void> {
+  const response = await fetch(PUSH_API_URL, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(session ? { [WALLET_SESSION_HEADER]: encodeWalletSession(session) } : {})
+    },
+    body: JSON.stringify(body)
+  });
+  if (!response.ok) {
+    if (response.status === 401 && session) {
+      clearWalletSession(session.address); // sign a fresh one next time
+    }
+    const error = await response.json().catch(() => null) as { error?: string } | null;
+    throw new Error(error?.error ?? `Push API responded ${response.status}`);
+  }
+}
+
+/**
+ * Subscribe this browser to the given push topics, or unsubscribe it when there are none
+ * Asks for notification permission first, and for the current position when nearby checkpoints are wanted.
+ * @param topics Topics to receive
+ * @param session Wallet session of the connected wallet, needed for sale notifications
+ * @throws Error when push is unsupported, permission is refused or the server rejects the subscription
+ */
+export async function syncPushSubscription(topics: PushTopic[], session: WalletSession | null): Promise<void> {
+  if (!isPushSupported()) {
+    throw new Error('Push notifications are not supported in this browser');
+  }
+
+  const registration = await navigator.serviceWorker.ready;
+  const existing = await registration.pushManager.getSubscription();
+
+  if (topics.length === 0) {
+    if (existing) {
+      await sendJson('DELETE', { endpoint: existing.endpoint });
+      await existing.unsubscribe();
+    }
+    return;
+  }
+
+  if (await Notification.requestPermission() !== 'granted') {
+    throw new Error('Notification permission was not granted');
+  }
+
+  const subscription = existing ?? await registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: urlBase64ToUint8Array(VAPID_PUBLIC_KEY!)
+  });
+  const { endpoint, keys } = subscription.toJSON();
+  if (!endpoint || !keys?.p256dh || !keys.auth) {
+    throw new Error('The browser returned an incomplete push subscription');
+  }
+
+  await sendJson('POST', {
+    subscription: { endpoint, keys: { p256dh: keys.p256dh, auth: keys.auth } },
+    topics,
+    location: topics.includes('nearby_checkpoints') ? await getApproximateLocation() : null
+  }, session);
+}
@@ -0,0 +1,31 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRateLimiter } from '@/utils/rateLimit';
+
+describe('createRateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('allows up to the limit per key in a window', () => {
+    const limiter = createRateLimiter(2, 1000);
+
+    expect(limiter.consume('a')).toBe(true);
+    expect(limiter.consume('a')).toBe(true);
+    expect(limiter.consume('a')).toBe(false);
+    expect(limiter.consume('b')).toBe(true);
+  });
+
+  it('starts over once the window has passed', () => {
+    const limiter = createRateLimiter(1, 1000);
+
+    expect(limiter.consume('a')).toBe(true);
+    vi.advanceTimersByTime(999);
+    expect(limiter.consume('a')).toBe(false);
+    vi.advanceTimersByTime(1);
+    expect(limiter.consume('a')).toBe(true);
+  });
+});
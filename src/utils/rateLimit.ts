@@ -0,0 +1,54 @@
+// Server-only: counters live in memory, so limits apply per server instance
+
+// Stop tracking idle keys once this many are held
+const MAX_TRACKED_KEYS = 10000;
+
+export interface RateLimiter {
+  /**
+   * Count one request against a key
+   * @returns Whether the request is within the limit
+   */
+  consume(key: string): boolean;
+}
+
+/**
+ * Fixed-window request limiter
+ * @param limit Requests allowed per key in each window
+ * @param windowMs Window length in milliseconds
+ */
+export function createRateLimiter(limit: number, windowMs: number): RateLimiter {
+  const windows = new Map<string, { startedAt: number; count: number }>();
+
+  const prune = (now: number) => {
+    windows.forEach((window, key) => {
+      if (now - window.startedAt >= windowMs) windows.delete(key);
+    });
+    if (windows.size >= MAX_TRACKED_KEYS) windows.clear();
+  };
+
+  return {
+    consume(key) {
+      const now = Date.now();
+      const window = windows.get(key);
+      if (!window || now - window.startedAt >= windowMs) {
+        if (windows.size >= MAX_TRACKED_KEYS) prune(now);
+        windows.set(key, { startedAt: now, count: 1 });
+        return true;
+      }
+
+      if (window.count >= limit) return false;
+      window.count++;
+      return true;
+    }
+  };
+}
+
+/**
+ * Best guess at the caller's IP address, for limiting requests that carry no wallet
+ */
+export function getClientIp(request: Request): string {
+  return request.headers.get('x-forwarded-for')?.split(',')[0].trim()
+    || request.headers.get('x-real-ip')
+    || 'unknown';
+}
+
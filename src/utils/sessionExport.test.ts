@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import type { PlaySession } from '@/types/session';
+import { calculateDistance } from '@/utils/geoUtils';
+import { formatDuration, getSessionStats, sessionToGeoJSON, sessionToGPX } from '@/utils/sessionExport';
+
+const START = Date.UTC(2025, 4, 1, 9, 0, 0);
+
+function makeSession(overrides: Partial<PlaySession> = {}): PlaySession {
+  return {
+    id: 'session-1',
+    startedAt: START,
+    endedAt: START + 120_000,
+    track: [
+      { lat: 37.5663, lng: 126.9779, accuracy: 5, altitude: 38, timestamp: START },
+      { lat: 37.5670, lng: 126.9779, accuracy: 8, timestamp: START + 60_000 },
+      { lat: 37.5670, lng: 126.9790, accuracy: 6, timestamp: START + 120_000 }
+    ],
+    events: [
+      {
+        type: 'enter',
+        checkpointId: '0xc1',
+        checkpointLabel: 'City Hall <Plaza> & "Lawn"',
+        timestamp: START + 60_000,
+        location: { lat: 37.5670, lng: 126.9779 }
+      },
+      {
+        type: 'claim',
+        checkpointId: '0xc1',
+        checkpointLabel: 'City Hall',
+        timestamp: START + 90_000,
+        location: { lat: 37.5670, lng: 126.9785 }
+      }
+    ],
+    ...overrides
+  };
+}
+
+describe('getSessionStats', () => {
+  it('sums the track distance and counts events by type', () => {
+    const session = makeSession();
+    const stats = getSessionStats(session);
+    const expected = calculateDistance(session.track[0], session.track[1]) +
+      calculateDistance(session.track[1], session.track[2]);
+
+    expect(stats).toMatchObject({
+      duration: 120_000,
+      pointCount: 3,
+      checkpointsEntered: 1,
+      dwells: 0,
+      claims: 1
+    });
+    expect(stats.distance).toBeCloseTo(expected, 6);
+    expect(stats.averageSpeed).toBeCloseTo(expected / 120, 6);
+  });
+
+  it('measures a session still recording up to now', () => {
+    const stats = getSessionStats(makeSession({ endedAt: null }), START + 30_000);
+
+    expect(stats.duration).toBe(30_000);
+  });
+
+  it('reports zero speed for an empty session', () => {
+    const stats = getSessionStats(makeSession({ endedAt: START, track: [], events: [] }));
+
+    expect(stats).toMatchObject({ distance: 0, duration: 0, averageSpeed: 0, pointCount: 0 });
+  });
+});
+
+describe('formatDuration', () => {
+  it('formats minutes and seconds, adding hours when needed', () => {
+    expect(formatDuration(0)).toBe('0:00');
+    expect(formatDuration(750_000)).toBe('12:30');
+    expect(formatDuration(3_909_000)).toBe('1:05:09');
+  });
+
+  it('treats negative durations as zero', () => {
+    expect(formatDuration(-5000)).toBe('0:00');
+  });
+});
+
+describe('sessionToGPX', () => {
+  it('writes the track as one segment with times, elevation and accuracy', () => {
+    const gpx = sessionToGPX(makeSession());
+
+    expect(gpx).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>\n<gpx version="1.1"/);
+    expect(gpx.match(/<trkseg>/g)).toHaveLength(1);
+    expect(gpx.match(/<trkpt /g)).toHaveLength(3);
+    expect(gpx).toContain('<trkpt lat="37.5663" lon="126.9779">');
+    expect(gpx).toContain('<ele>38</ele>');
+    expect(gpx.match(/<ele>/g)).toHaveLength(1);
+    expect(gpx).toContain('<time>2025-05-01T09:01:00.000Z</time>');
+    expect(gpx).toContain('<extensions><accuracy>8</accuracy></extensions>');
+  });
+
+  it('writes checkpoint events as escaped waypoints', () => {
+    const gpx = sessionToGPX(makeSession());
+
+    expect(gpx.match(/<wpt /g)).toHaveLength(2);
+    expect(gpx).toContain('<name>City Hall &lt;Plaza&gt; &amp; &quot;Lawn&quot;</name>');
+    expect(gpx).toContain('<desc>claim 0xc1</desc>');
+    expect(gpx).toContain('<type>enter</type>');
+  });
+});
+
+describe('sessionToGeoJSON', () => {
+  it('writes the track as a LineString followed by one Point per event', () => {
+    const { type, features } = JSON.parse(sessionToGeoJSON(makeSession()));
+
+    expect(type).toBe('FeatureCollection');
+    expect(features).toHaveLength(3);
+
+    const [track, enter, claim] = features;
+    expect(track.geometry).toEqual({
+      type: 'LineString',
+      coordinates: [[126.9779, 37.5663, 38], [126.9779, 37.5670], [126.9790, 37.5670]]
+    });
+    expect(track.properties).toMatchObject({
+      sessionId: 'session-1',
+      startedAt: '2025-05-01T09:00:00.000Z',
+      endedAt: '2025-05-01T09:02:00.000Z',
+      duration: 120_000,
+      accuracies: [5, 8, 6]
+    });
+    expect(track.properties.coordTimes).toHaveLength(3);
+
+    expect(enter.geometry).toEqual({ type: 'Point', coordinates: [126.9779, 37.5670] });
+    expect(claim.properties).toEqual({
+      event: 'claim',
+      checkpointId: '0xc1',
+      checkpointLabel: 'City Hall',
+      time: '2025-05-01T09:01:30.000Z'
+    });
+  });
+
+  it('leaves endedAt null while recording', () => {
+    const { features } = JSON.parse(sessionToGeoJSON(makeSession({ endedAt: null })));
+
+    expect(features[0].properties.endedAt).toBeNull();
+  });
+});
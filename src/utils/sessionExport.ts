@@ -0,0 +1,205 @@
+import type { LocationWithAccuracy } from '@/types/location';
+import type { PlaySession, SessionStats } from '@/types/session';
+import { calculateDistance } from '@/utils/geoUtils';
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function toIsoTime(timestamp: number): string {
+  return new Date(timestamp).toISOString();
+}
+
+/**
+ * Calculate distance/time stats for a session
+ * @param session Recorded or in-progress session
+ * @param now Used as the end time while the session is still recording
+ */
+export function getSessionStats(session: PlaySession, now: number = Date.now()): SessionStats {
+  let distance = 0;
+  for (let i = 1; i < session.track.length; i++) {
+    distance += calculateDistance(session.track[i - 1], session.track[i]);
+  }
+
+  const duration = (session.endedAt ?? now) - session.startedAt;
+  const countEvents = (type: string) => session.events.filter(event => event.type === type).length;
+
+  return {
+    distance,
+    duration,
+    averageSpeed: duration > 0 ? distance / (duration / 1000) : 0,
+    pointCount: session.track.length,
+    checkpointsEntered: countEvents('enter'),
+    dwells: countEvents('dwell'),
+    claims: countEvents('claim')
+  };
+}
+
+/**
+ * Format a duration for display
+ * @param ms Duration in milliseconds
+ * @returns e.g. "1:05:09" or "12:30"
+ */
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (n: number) => n.toString().padStart(2, '0');
+
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${minutes}:${pad(seconds)}`;
+}
+
+/**
+ * Export a session as GPX 1.1
+ * The track becomes a single `trkseg`, checkpoint events become waypoints.
+ * Fix accuracy is kept in `<extensions>` so recorded walks can be replayed faithfully.
+ */
+export function sessionToGPX(session: PlaySession): string {
+  const waypoints = session.events.map(event => [
+    `  <wpt lat="${event.location.lat}" lon="${event.location.lng}">`,
+    `    <time>${toIsoTime(event.timestamp)}</time>`,
+    `    <name>${escapeXml(event.checkpointLabel)}</name>`,
+    `    <desc>${escapeXml(`${event.type} ${event.checkpointId}`)}</desc>`,
+    `    <type>${event.type}</type>`,
+    '  </wpt>'
+  ].join('\n'));
+
+  const trackPoints = session.track.map(point => [
+    `      <trkpt lat="${point.lat}" lon="${point.lng}">`,
+    point.altitude !== undefined ? `        <ele>${point.altitude}</ele>` : null,
+    `        <time>${toIsoTime(point.timestamp)}</time>`,
+    `        <extensions><accuracy>${point.accuracy}</accuracy></extensions>`,
+    '      </trkpt>'
+  ].filter(line => line !== null).join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="Suimming" xmlns="http://www.topografix.com/GPX/1/1">',
+    '  <metadata>',
+    `    <name>Suimming session ${escapeXml(session.id)}</name>`,
+    `    <time>${toIsoTime(session.startedAt)}</time>`,
+    '  </metadata>',
+    ...waypoints,
+    '  <trk>',
+    `    <name>Suimming session ${escapeXml(session.id)}</name>`,
+    '    <trkseg>',
+    ...trackPoints,
+    '    </trkseg>',
+    '  </trk>',
+    '</gpx>',
+    ''
+  ].join('\n');
+}
+
+/**
+ * Read the track points back out of a GPX document
+ * Understands files from sessionToGPX as well as other GPS apps; points without a time are
+ * spaced one second apart and points without an accuracy extension get `defaultAccuracy`.
+ * @param xml GPX document text
+ * @param defaultAccuracy Accuracy in meters for points that do not carry one
+ * @returns Track points ordered as in the file (empty if the document has none)
+ */
+export function parseGPXTrack(xml: string, defaultAccuracy: number = 10): LocationWithAccuracy[] {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Invalid GPX document');
+  }
+
+  const points: LocationWithAccuracy[] = [];
+  const trackPoints = Array.from(doc.getElementsByTagName('trkpt'));
+  const fallbackStart = Date.now();
+
+  trackPoints.forEach((element, index) => {
+    const lat = parseFloat(element.getAttribute('lat') ?? '');
+    const lng = parseFloat(element.getAttribute('lon') ?? '');
+    if (!Number.isFinite(lat) || !Number.isFinite(lng)) return;
+
+    const elevation = parseFloat(element.getElementsByTagName('ele')[0]?.textContent ?? '');
+    const time = Date.parse(element.getElementsByTagName('time')[0]?.textContent ?? '');
+    const accuracy = parseFloat(element.getElementsByTagName('accuracy')[0]?.textContent ?? '');
+
+    points.push({
+      lat,
+      lng,
+      altitude: Number.isFinite(elevation) ? elevation : undefined,
+      accuracy: Number.isFinite(accuracy) ? accuracy : defaultAccuracy,
+      timestamp: Number.isFinite(time) ? time : fallbackStart + index * 1000
+    });
+  });
+
+  return points;
+}
+
+/**
+ * Export a session as a GeoJSON FeatureCollection
+ * The track is a LineString with per-point times/accuracies in its properties,
+ * checkpoint events are Point features.
+ */
+export function sessionToGeoJSON(session: PlaySession): string {
+  const stats = getSessionStats(session);
+
+  const trackFeature = {
+    type: 'Feature',
+    geometry: {
+      type: 'LineString',
+      coordinates: session.track.map(point =>
+        point.altitude !== undefined ? [point.lng, point.lat, point.altitude] : [point.lng, point.lat]
+      )
+    },
+    properties: {
+      sessionId: session.id,
+      startedAt: toIsoTime(session.startedAt),
+      endedAt: session.endedAt ? toIsoTime(session.endedAt) : null,
+      distance: stats.distance,
+      duration: stats.duration,
+      coordTimes: session.track.map(point => toIsoTime(point.timestamp)),
+      accuracies: session.track.map(point => point.accuracy)
+    }
+  };
+
+  const eventFeatures = session.events.map(event => ({
+    type: 'Feature',
+    geometry: {
+      type: 'Point',
+      coordinates: [event.location.lng, event.location.lat]
+    },
+    properties: {
+      event: event.type,
+      checkpointId: event.checkpointId,
+      checkpointLabel: event.checkpointLabel,
+      time: toIsoTime(event.timestamp)
+    }
+  }));
+
+  return JSON.stringify({
+    type: 'FeatureCollection',
+    features: [trackFeature, ...eventFeatures]
+  }, null, 2);
+}
+
+export type SessionExportFormat = 'gpx' | 'geojson';
+
+/**
+ * Serialize a session and hand it to the browser as a file download
+ * @param session Session to export
+ * @param format 'gpx' or 'geojson'
+ */
+export function downloadSession(session: PlaySession, format: SessionExportFormat): void {
+  const content = format === 'gpx' ? sessionToGPX(session) : sessionToGeoJSON(session);
+  const mimeType = format === 'gpx' ? 'application/gpx+xml' : 'application/geo+json';
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = `${session.id}.${format}`;
+  document.body.appendChild(anchor);
+  anchor.click();
+  anchor.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { calculateDistance } from '@/utils/geoUtils';
+import { SpatialIndex } from '@/utils/spatialIndex';
+
+const SEOUL = [
+  { id: 'city-hall', lat: 37.5663, lng: 126.9779 },
+  { id: 'gyeongbokgung', lat: 37.5796, lng: 126.977 },
+  { id: 'namsan', lat: 37.5512, lng: 126.9882 },
+  { id: 'gangnam', lat: 37.4979, lng: 127.0276 },
+  { id: 'incheon-airport', lat: 37.4602, lng: 126.4407 }
+];
+
+// Fiji straddles the antimeridian
+const FIJI = [
+  { id: 'east', lat: -16.8, lng: 179.99 },
+  { id: 'west', lat: -16.8, lng: -179.99 },
+  { id: 'far-east', lat: -16.8, lng: 179.9 },
+  { id: 'far-west', lat: -16.8, lng: -179.5 }
+];
+
+// Enough points elsewhere that nearest() searches ring by ring instead of checking every point
+const FILLER = Array.from({ length: 900 }, (_, i) => ({
+  id: `filler-${i}`,
+  lat: 60 + Math.floor(i / 30) * 0.01,
+  lng: 10 + (i % 30) * 0.01
+}));
+
+describe('SpatialIndex.nearest', () => {
+  it('matches a brute-force search', () => {
+    const index = new SpatialIndex(SEOUL);
+    const location = { lat: 37.56, lng: 126.99 };
+    const expected = [...SEOUL]
+      .sort((a, b) => calculateDistance(location, a) - calculateDistance(location, b))
+      .slice(0, 3)
+      .map(point => point.id);
+
+    expect(index.nearest(location, 3).map(result => result.point.id)).toEqual(expected);
+  });
+
+  it('returns every point when asked for more than there are', () => {
+    const index = new SpatialIndex(SEOUL);
+
+    expect(index.nearest({ lat: 0, lng: 0 }, 10)).toHaveLength(SEOUL.length);
+  });
+
+  it('finds the closest point across the antimeridian', () => {
+    const index = new SpatialIndex([...FIJI.filter(point => point.id !== 'east'), ...FILLER]);
+
+    const [closest] = index.nearest({ lat: -16.8, lng: 179.995 });
+
+    expect(closest.point.id).toBe('west');
+    expect(closest.distance).toBeLessThan(2000);
+  });
+
+  it('returns the k closest points from both sides of the antimeridian', () => {
+    const index = new SpatialIndex([...FIJI, ...FILLER]);
+    const ids = index.nearest({ lat: -16.8, lng: 179.995 }, 3).map(result => result.point.id);
+
+    expect(ids).toEqual(['east', 'west', 'far-east']);
+  });
+});
+
+describe('SpatialIndex.withinBounds', () => {
+  it('returns points inside a normal rectangle', () => {
+    const index = new SpatialIndex(SEOUL);
+    const ids = index.withinBounds({ north: 37.6, south: 37.54, east: 127, west: 126.95 }).map(point => point.id);
+
+    expect(ids.sort()).toEqual(['city-hall', 'gyeongbokgung', 'namsan']);
+  });
+
+  it('handles bounds that cross the antimeridian', () => {
+    const index = new SpatialIndex([...FIJI, { id: 'greenwich', lat: -16.8, lng: 0 }]);
+    const ids = index.withinBounds({ north: -16, south: -17, east: -179.8, west: 179.8 }).map(point => point.id);
+
+    expect(ids.sort()).toEqual(['east', 'far-east', 'west']);
+  });
+});
+
+describe('SpatialIndex.withinRadius', () => {
+  it('sorts results by distance and drops points outside the radius', () => {
+    const index = new SpatialIndex(SEOUL);
+    const results = index.withinRadius({ lat: 37.5663, lng: 126.9779 }, 2000);
+
+    expect(results.map(result => result.point.id)).toEqual(['city-hall', 'gyeongbokgung', 'namsan']);
+  });
+});
@@ -0,0 +1,227 @@
+import type { GeoBounds, Location } from '@/types/location';
+import { calculateDistance } from '@/utils/geoUtils';
+
+const METERS_PER_DEGREE_LAT = 111320;
+const DEFAULT_CELL_SIZE_DEGREES = 0.01; // ≈1.1km of latitude
+
+export interface IndexedPoint extends Location {
+  id: string;
+}
+
+export interface PointWithDistance<T> {
+  point: T;
+  distance: number; // meters
+}
+
+/**
+ * Uniform lat/lng grid index for checkpoint-like points
+ *
+ * Points are bucketed into fixed-size cells so radius, bounds and nearest-neighbour
+ * queries only look at nearby cells instead of running a haversine for every point.
+ *
+ * Usage:
+ * ```ts
+ * const index = new SpatialIndex(checkpoints);
+ * const inside = index.withinRadius(userLocation, 50);
+ * const closest = index.nearest(userLocation, 3);
+ * ```
+ */
+export class SpatialIndex<T extends IndexedPoint> {
+  private cells = new Map<string, T[]>();
+  private points = new Map<string, T>();
+  private cellSize: number;
+  private minRow = Infinity;
+  private maxRow = -Infinity;
+  private minCol = Infinity;
+  private maxCol = -Infinity;
+
+  constructor(points: T[] = [], cellSizeDegrees: number = DEFAULT_CELL_SIZE_DEGREES) {
+    this.cellSize = cellSizeDegrees;
+    points.forEach(point => this.insert(point));
+  }
+
+  get size(): number {
+    return this.points.size;
+  }
+
+  /**
+   * Add a point, replacing any existing point with the same ID
+   */
+  insert(point: T): void {
+    if (this.points.has(point.id)) {
+      this.remove(point.id);
+    }
+
+    const row = this.rowOf(point.lat);
+    const col = this.colOf(point.lng);
+    const key = this.cellKey(row, col);
+    const cell = this.cells.get(key);
+    if (cell) {
+      cell.push(point);
+    } else {
+      this.cells.set(key, [point]);
+    }
+    this.points.set(point.id, point);
+
+    this.minRow = Math.min(this.minRow, row);
+    this.maxRow = Math.max(this.maxRow, row);
+    this.minCol = Math.min(this.minCol, col);
+    this.maxCol = Math.max(this.maxCol, col);
+  }
+
+  /**
+   * Remove a point by ID
+   * @returns True if the point was indexed
+   */
+  remove(id: string): boolean {
+    const point = this.points.get(id);
+    if (!point) return false;
+
+    const key = this.cellKey(this.rowOf(point.lat), this.colOf(point.lng));
+    const remaining = (this.cells.get(key) || []).filter(p => p.id !== id);
+    if (remaining.length > 0) {
+      this.cells.set(key, remaining);
+    } else {
+      this.cells.delete(key);
+    }
+    this.points.delete(id);
+    return true;
+  }
+
+  get(id: string): T | undefined {
+    return this.points.get(id);
+  }
+
+  /**
+   * Find points within a radius, closest first
+   * @param location Center point
+   * @param meters Radius in meters
+   */
+  withinRadius(location: Location, meters: number): PointWithDistance<T>[] {
+    const latDelta = meters / METERS_PER_DEGREE_LAT;
+    const lngDelta = meters / (METERS_PER_DEGREE_LAT * Math.max(Math.cos((location.lat * Math.PI) / 180), 1e-6));
+
+    const candidates = this.queryBox(
+      location.lat - latDelta,
+      location.lat + latDelta,
+      location.lng - lngDelta,
+      location.lng + lngDelta
+    );
+
+    return candidates
+      .map(point => ({ point, distance: calculateDistance(location, point) }))
+      .filter(result => result.distance <= meters)
+      .sort((a, b) => a.distance - b.distance);
+  }
+
+  /**
+   * Find points inside a lat/lng rectangle (e.g. the map viewport)
+   * @param bounds Rectangle; `west > east` means it crosses the antimeridian
+   */
+  withinBounds(bounds: GeoBounds): T[] {
+    const inLat = (p: T) => p.lat >= bounds.south && p.lat <= bounds.north;
+
+    if (bounds.west <= bounds.east) {
+      return this.queryBox(bounds.south, bounds.north, bounds.west, bounds.east)
+        .filter(p => inLat(p) && p.lng >= bounds.west && p.lng <= bounds.east);
+    }
+
+    return [
+      ...this.queryBox(bounds.south, bounds.north, bounds.west, 180),
+      ...this.queryBox(bounds.south, bounds.north, -180, bounds.east)
+    ].filter(p => inLat(p) && (p.lng >= bounds.west || p.lng <= bounds.east));
+  }
+
+  /**
+   * Find the k closest points, searching outward ring by ring from the location's cell
+   * @param location Center point
+   * @param k Number of points to return
+   */
+  nearest(location: Location, k: number = 1): PointWithDistance<T>[] {
+    if (k <= 0 || this.points.size === 0) return [];
+
+    const row = this.rowOf(location.lat);
+    const col = this.colOf(location.lng);
+    // Every point in ring r+1 is at least r cells away from the location
+    const cellMeters = this.cellSize * METERS_PER_DEGREE_LAT *
+      Math.max(Math.cos((Math.min(Math.abs(location.lat) + this.cellSize, 90) * Math.PI) / 180), 1e-6);
+    const maxRing = Math.max(
+      Math.abs(row - this.minRow), Math.abs(row - this.maxRow),
+      Math.abs(col - this.minCol), Math.abs(col - this.maxCol)
+    );
+
+    const columns = Math.round(360 / this.cellSize);
+
+    const found: PointWithDistance<T>[] = [];
+    for (let ring = 0; ring <= maxRing; ring++) {
+      // Once the rings cover more cells than there are points (or would wrap onto themselves), checking every point is cheaper
+      if ((2 * ring + 1) ** 2 > this.points.size || 2 * ring + 1 >= columns) {
+        return Array.from(this.points.values())
+          .map(point => ({ point, distance: calculateDistance(location, point) }))
+          .sort((a, b) => a.distance - b.distance)
+          .slice(0, k);
+      }
+
+      this.ringCells(row, col, ring).forEach(key => {
+        (this.cells.get(key) || []).forEach(point => {
+          found.push({ point, distance: calculateDistance(location, point) });
+        });
+      });
+
+      if (found.length >= k) {
+        found.sort((a, b) => a.distance - b.distance);
+        if (found[k - 1].distance <= ring * cellMeters) break;
+      }
+    }
+
+    return found.sort((a, b) => a.distance - b.distance).slice(0, k);
+  }
+
+  private queryBox(south: number, north: number, west: number, east: number): T[] {
+    const results: T[] = [];
+    const rowStart = Math.max(this.rowOf(south), this.minRow);
+    const rowEnd = Math.min(this.rowOf(north), this.maxRow);
+    const colStart = Math.max(this.colOf(west), this.minCol);
+    const colEnd = Math.min(this.colOf(east), this.maxCol);
+
+    for (let row = rowStart; row <= rowEnd; row++) {
+      for (let col = colStart; col <= colEnd; col++) {
+        const cell = this.cells.get(this.cellKey(row, col));
+        if (cell) results.push(...cell);
+      }
+    }
+    return results;
+  }
+
+  private ringCells(row: number, col: number, ring: number): string[] {
+    if (ring === 0) return [this.cellKey(row, col)];
+
+    const keys: string[] = [];
+    for (let dc = -ring; dc <= ring; dc++) {
+      keys.push(this.cellKey(row - ring, this.wrapCol(col + dc)), this.cellKey(row + ring, this.wrapCol(col + dc)));
+    }
+    for (let dr = -ring + 1; dr <= ring - 1; dr++) {
+      keys.push(this.cellKey(row + dr, this.wrapCol(col - ring)), this.cellKey(row + dr, this.wrapCol(col + ring)));
+    }
+    return keys;
+  }
+
+  // Column east of 180° continues at -180°
+  private wrapCol(col: number): number {
+    const columns = Math.round(360 / this.cellSize);
+    const first = this.colOf(-180);
+    return ((col - first) % columns + columns) % columns + first;
+  }
+
+  private rowOf(lat: number): number {
+    return Math.floor(lat / this.cellSize);
+  }
+
+  private colOf(lng: number): number {
+    return Math.floor(lng / this.cellSize);
+  }
+
+  private cellKey(row: number, col: number): string {
+    return `${row}:${col}`;
+  }
+}
@@ -0,0 +1,147 @@
+import { EnokiClient, type EnokiNetwork } from '@mysten/enoki';
+import { getFullnodeUrl, SuiClient } from '@mysten/sui/client';
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { Transaction, TransactionDataBuilder } from '@mysten/sui/transactions';
+import { fromBase64, normalizeSuiAddress } from '@mysten/sui/utils';
+import type {
+  ExecuteSponsoredTransactionRequest,
+  ExecuteSponsoredTransactionResponse,
+  SponsorTransactionRequest,
+  SponsorTransactionResponse
+} from '@/types/sponsor';
+import { moveTarget } from '@/web3/suimming/config';
+
+// Server-only: reads private keys from the environment. Used by the /api/sponsor routes.
+
+const NETWORK = (process.env.SUI_NETWORK ?? 'testnet') as EnokiNetwork;
+
+// Only game transactions get free gas
+export const SPONSORED_MOVE_CALL_TARGETS = [
+  moveTarget('user', 'create_profile'),
+  moveTarget('user', 'update_profile'),
+  moveTarget('checkpoint', 'claim_letters'),
+  moveTarget('nft', 'mint_sentence_from_profile')
+];
+
+export class SponsorError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'SponsorError';
+  }
+}
+
+/**
+ * Pays gas for player transactions
+ */
+export interface SponsorBackend {
+  readonly name: string;
+  sponsor(request: SponsorTransactionRequest): Promise<SponsorTransactionResponse>;
+  execute(request: ExecuteSponsoredTransactionRequest): Promise<ExecuteSponsoredTransactionResponse>;
+}
+
+/**
+ * Sponsorship through Enoki (ENOKI_PRIVATE_KEY); the allow-list is enforced by Enoki
+ */
+class EnokiSponsorBackend implements SponsorBackend {
+  readonly name = 'enoki';
+  private client: EnokiClient;
+
+  constructor(apiKey: string) {
+    this.client = new EnokiClient({ apiKey });
+  }
+
+  async sponsor({ transactionKindBytes, sender }: SponsorTransactionRequest): Promise<SponsorTransactionResponse> {
+    return this.client.createSponsoredTransaction({
+      network: NETWORK,
+      transactionKindBytes,
+      sender,
+      allowedMoveCallTargets: SPONSORED_MOVE_CALL_TARGETS
+    });
+  }
+
+  async execute({ digest, signature }: ExecuteSponsoredTransactionRequest): Promise<ExecuteSponsoredTransactionResponse> {
+    return this.client.executeSponsoredTransaction({ digest, signature });
+  }
+}
+
+/**
+ * Local stand-in that pays gas from its own key (SPONSOR_SECRET_KEY), for development without Enoki
+ * Stateless: the transaction bytes come back with the execute request and are checked again before co-signing.
+ */
+class KeypairSponsorBackend implements SponsorBackend {
+  readonly name = 'keypair';
+  private keypair: Ed25519Keypair;
+  private client = new SuiClient({ url: getFullnodeUrl(NETWORK) });
+
+  constructor(secretKey: string) {
+    this.keypair = Ed25519Keypair.fromSecretKey(secretKey);
+  }
+
+  async sponsor({ transactionKindBytes, sender }: SponsorTransactionRequest): Promise<SponsorTransactionResponse> {
+    const transaction = Transaction.fromKind(transactionKindBytes);
+    assertAllowedCommands(transaction);
+
+    transaction.setSender(sender);
+    transaction.setGasOwner(this.keypair.toSuiAddress());
+    const { bytes } = await this.keypair.signTransaction(await transaction.build({ client: this.client }));
+
+    return { bytes, digest: TransactionDataBuilder.getDigestFromBytes(fromBase64(bytes)) };
+  }
+
+  async execute({ digest, bytes, signature }: ExecuteSponsoredTransactionRequest): Promise<ExecuteSponsoredTransactionResponse> {
+    const transactionBytes = fromBase64(bytes);
+    if (TransactionDataBuilder.getDigestFromBytes(transactionBytes) !== digest) {
+      throw new SponsorError('Transaction bytes do not match digest', 400);
+    }
+
+    const transaction = Transaction.from(bytes);
+    assertAllowedCommands(transaction);
+    if (transaction.getData().gasData.owner !== this.keypair.toSuiAddress()) {
+      throw new SponsorError('Transaction was not sponsored by this backend', 400);
+    }
+
+    const { signature: sponsorSignature } = await this.keypair.signTransaction(transactionBytes);
+    const result = await this.client.executeTransactionBlock({
+      transactionBlock: transactionBytes,
+      signature: [signature, sponsorSignature]
+    });
+    return { digest: result.digest };
+  }
+}
+
+function assertAllowedCommands(transaction: Transaction): void {
+  const allowed = new Set(SPONSORED_MOVE_CALL_TARGETS.map(normalizeTarget));
+
+  transaction.getData().commands.forEach(command => {
+    const target = command.MoveCall
+      ? normalizeTarget(`${command.MoveCall.package}::${command.MoveCall.module}::${command.MoveCall.function}`)
+      : null;
+    if (!target || !allowed.has(target)) {
+      throw new SponsorError(`Command not eligible for sponsorship: ${target ?? command.$kind}`, 403);
+    }
+  });
+}
+
+function normalizeTarget(target: string): string {
+  const [address, module, fn] = target.split('::');
+  return `${normalizeSuiAddress(address)}::${module}::${fn}`;
+}
+
+let backend: SponsorBackend | null | undefined;
+
+/**
+ * Sponsor backend configured for this deployment
+ * @returns Enoki when ENOKI_PRIVATE_KEY is set, the local keypair stand-in when SPONSOR_SECRET_KEY is set, otherwise null
+ */
+export function getSponsorBackend(): SponsorBackend | null {
+  if (backend === undefined) {
+    if (process.env.ENOKI_PRIVATE_KEY) {
+      backend = new EnokiSponsorBackend(process.env.ENOKI_PRIVATE_KEY);
+    } else if (process.env.SPONSOR_SECRET_KEY) {
+      backend = new KeypairSponsorBackend(process.env.SPONSOR_SECRET_KEY);
+    } else {
+      backend = null;
+    }
+  }
+  return backend;
+}
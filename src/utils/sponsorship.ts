@@ -0,0 +1,51 @@
+import type {
+  ExecuteSponsoredTransactionRequest,
+  ExecuteSponsoredTransactionResponse,
+  SponsorErrorResponse,
+  SponsorTransactionRequest,
+  SponsorTransactionResponse
+} from '@/types/sponsor';
+import type { WalletSession } from '@/types/auth';
+import { clearWalletSession, encodeWalletSession, WALLET_SESSION_HEADER } from '@/utils/walletSession';
+
+// Sponsor backend base URL; point it at another service to replace the bundled API route
+const SPONSOR_API_URL = process.env.NEXT_PUBLIC_SPONSOR_API_URL ?? '/api/sponsor';
+
+async function postJson<T>(url: string, body: unknown, session: WalletSession): Promise<T> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', [WALLET_SESSION_HEADER]: encodeWalletSession(session) },
+    body: JSON.stringify(body)
+  });
+
+  if (!response.ok) {
+    if (response.status === 401) {
+      clearWalletSession(session.address); // sign a fresh one next time
+    }
+    const error = await response.json().catch(() => null) as SponsorErrorResponse | null;
+    throw new Error(error?.error ?? `Sponsor backend responded ${response.status}`);
+  }
+  return response.json() as Promise<T>;
+}
+
+/**
+ * Ask the sponsor backend to pay gas for a transaction kind
+ * @param request Base64 transaction kind bytes and the sender address
+ * @param session Wallet session of the sender
+ * @returns Full transaction bytes for the sender to sign, and their digest
+ */
+export function requestSponsorship(request: SponsorTransactionRequest, session: WalletSession): Promise<SponsorTransactionResponse> {
+  return postJson(SPONSOR_API_URL, request, session);
+}
+
+/**
+ * Submit a sponsored transaction signed by the sender
+ * @param request Digest and bytes from requestSponsorship with the sender's signature
+ * @param session Wallet session of the sender
+ */
+export function executeSponsoredTransaction(
+  request: ExecuteSponsoredTransactionRequest,
+  session: WalletSession
+): Promise<ExecuteSponsoredTransactionResponse> {
+  return postJson(`${SPONSOR_API_URL}/execute`, request, session);
+}
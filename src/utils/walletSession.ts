@@ -0,0 +1,75 @@
+import type { WalletSession } from '@/types/auth';
+
+// Sent with API requests that act for a wallet (sponsored gas, sale notifications)
+export const WALLET_SESSION_HEADER = 'X-Wallet-Session';
+export const WALLET_SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+// The server refuses sessions that claim to last longer than this
+export const WALLET_SESSION_MAX_TTL_MS = 24 * 60 * 60 * 1000;
+
+const WALLET_SESSION_STORAGE_PREFIX = 'suimming-wallet-session:';
+// Sign again rather than send a session that may expire in flight
+const WALLET_SESSION_RENEW_MS = 5 * 60 * 1000;
+
+/**
+ * Text the wallet signs to open a session
+ * @param address Wallet address
+ * @param expiresAt When the session stops being accepted, in milliseconds
+ */
+export function walletSessionMessage(address: string, expiresAt: number): string {
+  return `Sign in to Suimming\n\nAddress: ${address}\nValid until: ${new Date(expiresAt).toISOString()}`;
+}
+
+/**
+ * Encode a session for the WALLET_SESSION_HEADER header
+ */
+export function encodeWalletSession(session: WalletSession): string {
+  return btoa(JSON.stringify(session));
+}
+
+/**
+ * Decode a WALLET_SESSION_HEADER header
+ * @returns Session, or null if the header is missing or malformed
+ */
+export function decodeWalletSession(value: string | null): WalletSession | null {
+  if (!value) return null;
+
+  try {
+    const { address, expiresAt, signature } = JSON.parse(atob(value)) as Partial<WalletSession>;
+    if (typeof address !== 'string' || typeof expiresAt !== 'number' || typeof signature !== 'string') return null;
+    return { address, expiresAt, signature };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Session signed earlier in this tab for a wallet, if it is still good for a while
+ */
+export function loadWalletSession(address: string): WalletSession | null {
+  if (typeof sessionStorage === 'undefined') return null;
+
+  const session = decodeWalletSession(sessionStorage.getItem(WALLET_SESSION_STORAGE_PREFIX + address));
+  return session && session.expiresAt - Date.now() > WALLET_SESSION_RENEW_MS ? session : null;
+}
+
+/**
+ * Keep a signed session for the rest of this tab's life
+ */
+export function storeWalletSession(session: WalletSession): void {
+  try {
+    sessionStorage.setItem(WALLET_SESSION_STORAGE_PREFIX + session.address, encodeWalletSession(session));
+  } catch (error) {
+    console.warn('Failed to save wallet session:', error);
+  }
+}
+
+/**
+ * Forget a wallet's session, e.g. after the server refused it
+ */
+export function clearWalletSession(address: string): void {
+  try {
+    sessionStorage.removeItem(WALLET_SESSION_STORAGE_PREFIX + address);
+  } catch (error) {
+    console.warn('Failed to clear wallet session:', error);
+  }
+}
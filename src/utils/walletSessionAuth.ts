@@ -0,0 +1,78 @@
+import { getFullnodeUrl, SuiClient } from '@mysten/sui/client';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { verifyPersonalMessageSignature } from '@mysten/sui/verify';
+import {
+  decodeWalletSession,
+  WALLET_SESSION_HEADER,
+  WALLET_SESSION_MAX_TTL_MS,
+  walletSessionMessage
+} from '@/utils/walletSession';
+
+// Server-only: checks the wallet session sent by the client. Used by the /api/sponsor and /api/push routes.
+
+const NETWORK = (process.env.SUI_NETWORK ?? 'testnet') as 'testnet' | 'mainnet' | 'devnet';
+// zkLogin signatures are checked by a fullnode, so verified sessions are remembered until they expire
+const MAX_VERIFIED_SESSIONS = 1000;
+
+export class WalletSessionError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'WalletSessionError';
+  }
+}
+
+let client: SuiClient | null = null;
+const verified = new Map<string, { address: string; expiresAt: number }>();
+
+function getClient(): SuiClient {
+  client ??= new SuiClient({ url: getFullnodeUrl(NETWORK) });
+  return client;
+}
+
+function rememberVerified(signature: string, address: string, expiresAt: number): void {
+  if (verified.size >= MAX_VERIFIED_SESSIONS) {
+    const now = Date.now();
+    verified.forEach((entry, key) => {
+      if (entry.expiresAt <= now) verified.delete(key);
+    });
+    if (verified.size >= MAX_VERIFIED_SESSIONS) verified.clear();
+  }
+  verified.set(signature, { address, expiresAt });
+}
+
+/**
+ * Check the request's wallet session
+ * @param request Incoming API request carrying the WALLET_SESSION_HEADER header
+ * @returns Normalized address of the wallet that signed the session
+ * @throws WalletSessionError (401) when the session is missing, expired or not signed by its address
+ */
+export async function verifyWalletSession(request: Request): Promise<string> {
+  const session = decodeWalletSession(request.headers.get(WALLET_SESSION_HEADER));
+  if (!session) {
+    throw new WalletSessionError('Sign in with your wallet first', 401);
+  }
+
+  const now = Date.now();
+  if (session.expiresAt <= now || session.expiresAt - now > WALLET_SESSION_MAX_TTL_MS) {
+    throw new WalletSessionError('Wallet session expired, sign in again', 401);
+  }
+
+  const address = normalizeSuiAddress(session.address);
+  const known = verified.get(session.signature);
+  if (known?.address === address && known.expiresAt === session.expiresAt) {
+    return address;
+  }
+
+  try {
+    await verifyPersonalMessageSignature(
+      new TextEncoder().encode(walletSessionMessage(session.address, session.expiresAt)),
+      session.signature,
+      { address, client: getClient() }
+    );
+  } catch {
+    throw new WalletSessionError('Wallet session signature is not valid', 401);
+  }
+
+  rememberVerified(session.signature, address, session.expiresAt);
+  return address;
+}
@@ -1,6 +1,8 @@
 'use client';
 
 import { SuiClient } from '@mysten/sui/client';
+import type { Transaction } from '@mysten/sui/transactions';
+import { marketplace } from './suimming';
 
 // Note: Install @mysten/kiosk dependency when permission issue is resolved
 // For now, we'll prepare the structure and types
@@ -282,23 +284,17 @@ export class KioskClient {
   /**
    * Create a marketplace listing for a Sentence NFT
    */
-  async createListing(nftId: string, price: string, transaction: any) {
+  async createListing(nftId: string, price: string, transaction: Transaction) {
     try {
       console.log(`Creating listing for NFT ${nftId} at price ${price} SUI`);
 
-      // Convert SUI to MIST (1 SUI = 1,000,000,000 MIST)
-      const priceInMist = Math.floor(parseFloat(price) * 1_000_000_000);
-
       // Get the marketplace object ID (this would be stored/cached)
       const marketplaceId = await this.getMarketplaceId();
 
-      transaction.moveCall({
-        target: `${this.packageId}::marketplace::list_nft`,
-        arguments: [
-          transaction.object(marketplaceId),
-          transaction.object(nftId),
-          transaction.pure.u64(priceInMist)
-        ],
+      marketplace.listNft(transaction, {
+        marketplace: marketplaceId,
+        nft: nftId,
+        priceMist: marketplace.suiToMist(price)
       });
 
       return transaction;
@@ -321,27 +317,18 @@ export class KioskClient {
   /**
    * Purchase a listed NFT
    */
-  async purchaseListing(listingId: string, price: string, transaction: any) {
+  async purchaseListing(listingId: string, price: string, transaction: Transaction) {
     try {
       console.log(`Purchasing listing ${listingId} for ${price} SUI`);
 
-      // Convert SUI to MIST
-      const priceInMist = Math.floor(parseFloat(price) * 1_000_000_000);
-
       // Get the marketplace object ID
       const marketplaceId = await this.getMarketplaceId();
 
-      // Split coins for payment
-      const [paymentCoin] = transaction.splitCoins(transaction.gas, [priceInMist]);
-
-      transaction.moveCall({
-        target: `${this.packageId}::marketplace::purchase_nft`,
-        arguments: [
-          transaction.object(marketplaceId),
-          transaction.object(listingId), // The NFT object
-          paymentCoin,
-          transaction.pure.address(listingId) // NFT ID for lookup
-        ],
+      // Payment is split from the gas coin
+      marketplace.purchaseNft(transaction, {
+        marketplace: marketplaceId,
+        nftId: listingId,
+        priceMist: marketplace.suiToMist(price)
       });
 
       return transaction;
@@ -354,20 +341,13 @@ export class KioskClient {
   /**
    * Cancel a listing
    */
-  async cancelListing(listingId: string, transaction: any) {
+  async cancelListing(listingId: string, transaction: Transaction) {
     try {
       console.log(`Canceling listing ${listingId}`);
 
       const marketplaceId = await this.getMarketplaceId();
 
-      transaction.moveCall({
-        target: `${this.packageId}::marketplace::delist_nft`,
-        arguments: [
-          transaction.object(marketplaceId),
-          transaction.object(listingId), // The NFT object
-          transaction.pure.address(listingId) // NFT ID for lookup
-        ],
-      });
+      marketplace.delistNft(transaction, { marketplace: marketplaceId, nftId: listingId });
 
       return transaction;
     } catch (error) {
@@ -462,11 +442,11 @@ export function useKioskClient(suiClient: SuiClient) {
       kioskClient.purchaseItem(kioskId, itemId, price),
     // Marketplace functions
     getListedSentenceNFTs: () => kioskClient.getListedSentenceNFTs(),
-    createListing: (nftId: string, price: string, transaction: any) =>
+    createListing: (nftId: string, price: string, transaction: Transaction) =>
       kioskClient.createListing(nftId, price, transaction),
-    purchaseListing: (listingId: string, price: string, transaction: any) =>
+    purchaseListing: (listingId: string, price: string, transaction: Transaction) =>
       kioskClient.purchaseListing(listingId, price, transaction),
-    cancelListing: (listingId: string, transaction: any) =>
+    cancelListing: (listingId: string, transaction: Transaction) =>
       kioskClient.cancelListing(listingId, transaction)
   };
 }
\ No newline at end of file
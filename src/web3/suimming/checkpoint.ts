@@ -0,0 +1,71 @@
+import type { Transaction, TransactionObjectInput } from '@mysten/sui/transactions';
+import { moveTarget, RANDOM_OBJECT_ID } from './config';
+
+/**
+ * checkpoint::create_admin_cap() — grants the sender an AdminCap
+ */
+export function createAdminCap(tx: Transaction) {
+  return tx.moveCall({ target: moveTarget('checkpoint', 'create_admin_cap') });
+}
+
+export interface CreateCheckpointArgs {
+  adminCap: TransactionObjectInput;
+  label: string;
+  metaWalrusId: string; // Walrus blob holding the checkpoint metadata JSON
+  sealRef: string;
+}
+
+/**
+ * checkpoint::create_checkpoint(cap: &AdminCap, label: String, meta_walrus_id: String, seal_ref: String)
+ */
+export function createCheckpoint(tx: Transaction, { adminCap, label, metaWalrusId, sealRef }: CreateCheckpointArgs) {
+  return tx.moveCall({
+    target: moveTarget('checkpoint', 'create_checkpoint'),
+    arguments: [
+      tx.object(adminCap),
+      tx.pure.string(label),
+      tx.pure.string(metaWalrusId),
+      tx.pure.string(sealRef)
+    ]
+  });
+}
+
+export interface ToggleCheckpointArgs {
+  adminCap: TransactionObjectInput;
+  checkpoint: TransactionObjectInput;
+  active: boolean;
+}
+
+/**
+ * checkpoint::toggle_checkpoint(cap: &AdminCap, checkpoint: &mut Checkpoint, active: bool)
+ */
+export function toggleCheckpoint(tx: Transaction, { adminCap, checkpoint, active }: ToggleCheckpointArgs) {
+  return tx.moveCall({
+    target: moveTarget('checkpoint', 'toggle_checkpoint'),
+    arguments: [
+      tx.object(adminCap),
+      tx.object(checkpoint),
+      tx.pure.bool(active)
+    ]
+  });
+}
+
+export interface ClaimLettersArgs {
+  checkpoint: TransactionObjectInput;
+  profile: TransactionObjectInput;
+}
+
+/**
+ * checkpoint::claim_letters(checkpoint: &mut Checkpoint, user_profile: &mut UserProfile, r: &Random)
+ * Awards random letters; one claim per checkpoint per epoch.
+ */
+export function claimLetters(tx: Transaction, { checkpoint, profile }: ClaimLettersArgs) {
+  return tx.moveCall({
+    target: moveTarget('checkpoint', 'claim_letters'),
+    arguments: [
+      tx.object(checkpoint),
+      tx.object(profile),
+      tx.object(RANDOM_OBJECT_ID)
+    ]
+  });
+}
@@ -0,0 +1,30 @@
+export const SUIMMING_PACKAGE_ID = process.env.NEXT_PUBLIC_SUIMMING_PACKAGE_ID || '';
+
+// Global sui::random::Random object
+export const RANDOM_OBJECT_ID = '0x8';
+
+export type SuimmingModule = 'user' | 'checkpoint' | 'nft' | 'marketplace';
+
+/**
+ * Fully qualified Move call target in the Suimming package
+ * @param module Move module name
+ * @param fn Entry function name
+ */
+export function moveTarget(module: SuimmingModule, fn: string): `${string}::${string}::${string}` {
+  return `${SUIMMING_PACKAGE_ID}::${module}::${fn}`;
+}
+
+export const SUIMMING_TYPES = {
+  userProfile: `${SUIMMING_PACKAGE_ID}::user::UserProfile`,
+  checkpoint: `${SUIMMING_PACKAGE_ID}::checkpoint::Checkpoint`,
+  adminCap: `${SUIMMING_PACKAGE_ID}::checkpoint::AdminCap`,
+  sentence: `${SUIMMING_PACKAGE_ID}::nft::Sentence`
+};
+
+// Move events the app watches; keep in sync with the Suimming package
+export const SUIMMING_EVENTS = {
+  checkpointCreated: `${SUIMMING_PACKAGE_ID}::checkpoint::CheckpointCreated`,
+  lettersClaimed: `${SUIMMING_PACKAGE_ID}::checkpoint::LettersClaimed`,
+  nftListed: `${SUIMMING_PACKAGE_ID}::marketplace::NFTListed`,
+  nftPurchased: `${SUIMMING_PACKAGE_ID}::marketplace::NFTPurchased`
+};
@@ -0,0 +1,155 @@
+import type { SuimmingModule } from './config';
+
+export type Locale = 'en' | 'ko';
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export interface ErrorCopy {
+  message: string;
+  action: string | null; // what the player can do about it
+}
+
+export interface ErrorCatalogEntry {
+  id: string; // stable identifier for logs and analytics
+  copy: Record<Locale, ErrorCopy>;
+}
+
+// Player-facing copy for the Suimming package's abort conditions, keyed by entry ID
+export const MOVE_ABORT_MESSAGES = {
+  checkpoint_inactive: {
+    id: 'checkpoint_inactive',
+    copy: {
+      en: { message: 'This checkpoint is not active right now.', action: 'Try another checkpoint nearby.' },
+      ko: { message: '이 체크포인트는 현재 비활성화되어 있습니다.', action: '근처의 다른 체크포인트를 찾아보세요.' }
+    }
+  },
+  already_claimed: {
+    id: 'already_claimed',
+    copy: {
+      en: { message: 'You already claimed letters here this epoch.', action: 'Come back after the next epoch starts.' },
+      ko: { message: '이번 에포크에 이미 이곳에서 글자를 받았습니다.', action: '다음 에포크가 시작된 후 다시 방문하세요.' }
+    }
+  },
+  profile_exists: {
+    id: 'profile_exists',
+    copy: {
+      en: { message: 'You already have a profile.', action: 'Head to the map to keep playing.' },
+      ko: { message: '이미 프로필이 있습니다.', action: '지도로 이동해 게임을 계속하세요.' }
+    }
+  },
+  profile_not_owner: {
+    id: 'profile_not_owner',
+    copy: {
+      en: { message: 'This profile belongs to another player.', action: 'Reconnect with the wallet that created it.' },
+      ko: { message: '다른 플레이어의 프로필입니다.', action: '프로필을 만든 지갑으로 다시 연결하세요.' }
+    }
+  },
+  insufficient_letters: {
+    id: 'insufficient_letters',
+    copy: {
+      en: { message: 'You do not have enough letters for this sentence.', action: 'Collect more letters at checkpoints or shorten the sentence.' },
+      ko: { message: '이 문장을 만들 글자가 부족합니다.', action: '체크포인트에서 글자를 더 모으거나 문장을 줄이세요.' }
+    }
+  },
+  nft_not_owner: {
+    id: 'nft_not_owner',
+    copy: {
+      en: { message: 'This NFT belongs to another player.', action: null },
+      ko: { message: '다른 플레이어의 NFT입니다.', action: null }
+    }
+  },
+  wrong_price: {
+    id: 'wrong_price',
+    copy: {
+      en: { message: 'The payment does not match the listing price.', action: 'Refresh the market and try again.' },
+      ko: { message: '결제 금액이 판매 가격과 일치하지 않습니다.', action: '마켓을 새로고침한 후 다시 시도하세요.' }
+    }
+  },
+  listing_not_owner: {
+    id: 'listing_not_owner',
+    copy: {
+      en: { message: 'Only the seller can change this listing.', action: null },
+      ko: { message: '판매자만 이 판매 목록을 변경할 수 있습니다.', action: null }
+    }
+  },
+  not_listed: {
+    id: 'not_listed',
+    copy: {
+      en: { message: 'This NFT is no longer for sale.', action: 'Refresh the market to see current listings.' },
+      ko: { message: '이 NFT는 더 이상 판매 중이 아닙니다.', action: '마켓을 새로고침해 현재 판매 목록을 확인하세요.' }
+    }
+  }
+} satisfies Record<string, ErrorCatalogEntry>;
+
+export type MoveAbortId = keyof typeof MOVE_ABORT_MESSAGES;
+
+// Abort code -> message, per Move module. Only codes checked against the E* constants of the package
+// published at NEXT_PUBLIC_SUIMMING_PACKAGE_ID belong here (its Move sources are not in this repo):
+// a wrong guess would show a confident but wrong message, while a missing code shows GENERIC_ERRORS.abort.
+export const MOVE_ABORT_CATALOG: Record<SuimmingModule, Partial<Record<number, MoveAbortId>>> = {
+  checkpoint: {},
+  user: {},
+  nft: {},
+  marketplace: {}
+};
+
+// Failures that are not (known) Move aborts
+export const GENERIC_ERRORS = {
+  declined: {
+    id: 'preview_declined',
+    copy: {
+      en: { message: 'Transaction cancelled.', action: null },
+      ko: { message: '트랜잭션을 취소했습니다.', action: null }
+    }
+  },
+  rejected: {
+    id: 'rejected',
+    copy: {
+      en: { message: 'The transaction was cancelled in your wallet.', action: null },
+      ko: { message: '지갑에서 트랜잭션이 취소되었습니다.', action: null }
+    }
+  },
+  gas: {
+    id: 'insufficient_gas',
+    copy: {
+      en: { message: 'Not enough SUI to pay for this transaction.', action: 'Top up your wallet, or sign in with Google to play without gas.' },
+      ko: { message: '트랜잭션 수수료를 낼 SUI가 부족합니다.', action: '지갑을 충전하거나 Google로 로그인해 수수료 없이 플레이하세요.' }
+    }
+  },
+  abort: {
+    id: 'unknown_abort',
+    copy: {
+      en: { message: 'The game contract rejected this action.', action: 'Refresh the page and try again.' },
+      ko: { message: '게임 컨트랙트가 이 작업을 거부했습니다.', action: '페이지를 새로고침한 후 다시 시도하세요.' }
+    }
+  },
+  failure: {
+    id: 'transaction_failed',
+    copy: {
+      en: { message: 'The transaction failed.', action: 'Check your connection and try again.' },
+      ko: { message: '트랜잭션이 실패했습니다.', action: '연결 상태를 확인한 후 다시 시도하세요.' }
+    }
+  }
+} satisfies Record<string, ErrorCatalogEntry>;
+
+/**
+ * Pick the catalog locale from the browser language
+ * @returns A supported locale, DEFAULT_LOCALE on the server or for unsupported languages
+ */
+export function resolveLocale(): Locale {
+  if (typeof navigator === 'undefined') return DEFAULT_LOCALE;
+
+  const language = navigator.language.toLowerCase();
+  return language.startsWith('ko') ? 'ko' : DEFAULT_LOCALE;
+}
+
+/**
+ * Catalog entry for a Move abort
+ * @param module Module that aborted
+ * @param code Abort code
+ * @returns The entry, or null for modules/codes outside the catalog
+ */
+export function findAbortEntry(module: string, code: number): ErrorCatalogEntry | null {
+  const id = MOVE_ABORT_CATALOG[module as SuimmingModule]?.[code];
+  return id ? MOVE_ABORT_MESSAGES[id] : null;
+}
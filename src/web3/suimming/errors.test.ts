@@ -0,0 +1,90 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { decodeTransactionError, parseMoveAbort } from '@/web3/suimming/errors';
+import { GENERIC_ERRORS, MOVE_ABORT_CATALOG, MOVE_ABORT_MESSAGES } from '@/web3/suimming/errorCatalog';
+
+const PACKAGE = '0xbfb79081f4722d4c9535731bf27ef96229e9aff6284bac3fda7922506873935b';
+
+const EFFECTS_ABORT = `MoveAbort(MoveLocation { module: ModuleId { address: ${PACKAGE.slice(2)}, name: Identifier("checkpoint") }, function: 5, instruction: 22, function_name: Some("claim_letters") }, 1) in command 0`;
+const FULLNODE_ABORT = `MoveAbort in 1st command, abort code: 1, in '${PACKAGE}::checkpoint::claim_letters' (instruction 22)`;
+
+describe('parseMoveAbort', () => {
+  it('reads the effects status format', () => {
+    expect(parseMoveAbort(EFFECTS_ABORT)).toEqual({
+      address: normalizeSuiAddress(PACKAGE),
+      module: 'checkpoint',
+      functionName: 'claim_letters',
+      code: 1,
+      command: 0
+    });
+  });
+
+  it('reads the effects status format without a function name or command', () => {
+    const message = 'MoveAbort(MoveLocation { module: ModuleId { address: 0x2, name: Identifier("coin") }, function: 3, instruction: 10, function_name: None }, 2)';
+
+    expect(parseMoveAbort(message)).toEqual({
+      address: normalizeSuiAddress('0x2'),
+      module: 'coin',
+      functionName: null,
+      code: 2,
+      command: null
+    });
+  });
+
+  it('reads the newer fullnode format', () => {
+    expect(parseMoveAbort(FULLNODE_ABORT)).toEqual({
+      address: normalizeSuiAddress(PACKAGE),
+      module: 'checkpoint',
+      functionName: 'claim_letters',
+      code: 1,
+      command: 0
+    });
+  });
+
+  it('ignores messages that are not Move aborts', () => {
+    expect(parseMoveAbort('Network request failed')).toBeNull();
+  });
+});
+
+describe('decodeTransactionError', () => {
+  afterEach(() => {
+    delete MOVE_ABORT_CATALOG.checkpoint[1];
+  });
+
+  it('shows the generic abort message for codes that have not been checked', () => {
+    for (const message of [EFFECTS_ABORT, FULLNODE_ABORT]) {
+      const error = decodeTransactionError(message, message, 'en');
+
+      expect(error.kind).toBe('abort');
+      expect(error.id).toBe(GENERIC_ERRORS.abort.id);
+      expect(error.abort?.code).toBe(1);
+    }
+  });
+
+  it('uses the catalog message for a listed code in either format', () => {
+    MOVE_ABORT_CATALOG.checkpoint[1] = 'already_claimed';
+
+    for (const message of [EFFECTS_ABORT, FULLNODE_ABORT]) {
+      const error = decodeTransactionError(message, message, 'ko');
+
+      expect(error.id).toBe('already_claimed');
+      expect(error.message).toBe(MOVE_ABORT_MESSAGES.already_claimed.copy.ko.message);
+    }
+  });
+
+  it('never uses the catalog for framework aborts', () => {
+    MOVE_ABORT_CATALOG.checkpoint[1] = 'already_claimed';
+    const message = 'MoveAbort(MoveLocation { module: ModuleId { address: 0x2, name: Identifier("checkpoint") }, function: 0, instruction: 1, function_name: None }, 1) in command 0';
+
+    expect(decodeTransactionError(message, message, 'en').id).toBe(GENERIC_ERRORS.abort.id);
+  });
+
+  it('tells wallet rejections, gas and other failures apart', () => {
+    expect(decodeTransactionError('User rejected the request', undefined, 'en').kind).toBe('rejected');
+    expect(decodeTransactionError('InsufficientGas', undefined, 'en').kind).toBe('gas');
+
+    const failure = decodeTransactionError('Network request failed', undefined, 'en');
+    expect(failure.kind).toBe('failure');
+    expect(failure.id).toBe(GENERIC_ERRORS.failure.id);
+  });
+});
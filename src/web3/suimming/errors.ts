@@ -0,0 +1,131 @@
+import type { ExecutionStatus } from '@mysten/sui/client';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { findAbortEntry, GENERIC_ERRORS, resolveLocale, type ErrorCatalogEntry, type Locale } from './errorCatalog';
+
+export interface MoveAbortInfo {
+  address: string; // package the aborting module lives in
+  module: string;
+  functionName: string | null;
+  code: number;
+  command: number | null; // index of the failing command in the transaction
+}
+
+export type TransactionErrorKind = 'rejected' | 'abort' | 'gas' | 'failure';
+
+/**
+ * Transaction failure with a localized message and suggested action fit for players
+ * The original error is kept in `cause` for logging.
+ */
+export class SuimmingTransactionError extends Error {
+  constructor(
+    message: string,
+    public kind: TransactionErrorKind,
+    public id: string, // catalog entry ID
+    public action: string | null = null,
+    public abort: MoveAbortInfo | null = null,
+    public cause?: unknown
+  ) {
+    super(message);
+    this.name = 'SuimmingTransactionError';
+  }
+}
+
+// Sui framework packages (std, sui, sui_system); their aborts are never in the game catalog
+const FRAMEWORK_ADDRESSES = new Set(['0x1', '0x2', '0x3'].map(address => normalizeSuiAddress(address)));
+
+// Effects status / dry-run format:
+// MoveAbort(MoveLocation { module: ModuleId { address: 0x.., name: Identifier("checkpoint") }, function: 5, instruction: 22, function_name: Some("claim_letters") }, 2) in command 0
+const MOVE_ABORT_PATTERN = /MoveAbort\(MoveLocation \{ module: ModuleId \{ address: (\w+), name: Identifier\("(\w+)"\) \}, function: \d+, instruction: \d+, function_name: (?:Some\("(\w+)"\)|None) \}, (\d+)\)(?: in command (\d+))?/;
+
+// Newer fullnode format: MoveAbort in 1st command, abort code: 2, in '0x..::checkpoint::claim_letters' (instruction 22)
+const MOVE_ABORT_PATTERN_V2 = /MoveAbort in (\d+)\w* command, abort code: (\d+), in '(\w+)::(\w+)::(\w+)'/;
+
+/**
+ * Extract the Move abort location and code from an execution or dry-run error message
+ * @returns Abort details, or null if the message is not a Move abort
+ */
+export function parseMoveAbort(message: string): MoveAbortInfo | null {
+  const match = message.match(MOVE_ABORT_PATTERN);
+  if (match) {
+    return {
+      address: normalizeSuiAddress(match[1]),
+      module: match[2],
+      functionName: match[3] ?? null,
+      code: Number(match[4]),
+      command: match[5] !== undefined ? Number(match[5]) : null
+    };
+  }
+
+  const matchV2 = message.match(MOVE_ABORT_PATTERN_V2);
+  if (matchV2) {
+    return {
+      address: normalizeSuiAddress(matchV2[3]),
+      module: matchV2[4],
+      functionName: matchV2[5],
+      code: Number(matchV2[2]),
+      command: Number(matchV2[1]) - 1
+    };
+  }
+  return null;
+}
+
+function fromCatalog(
+  entry: ErrorCatalogEntry,
+  kind: TransactionErrorKind,
+  locale: Locale,
+  abort: MoveAbortInfo | null,
+  cause: unknown
+): SuimmingTransactionError {
+  const { message, action } = entry.copy[locale];
+  return new SuimmingTransactionError(message, kind, entry.id, action, abort, cause);
+}
+
+/**
+ * Decode an error message from a wallet, RPC call, dry run or transaction effects
+ * @param message Raw error message
+ * @param cause Original error, kept for logging
+ * @param locale Language for the player-facing message
+ */
+export function decodeTransactionError(message: string, cause: unknown = message, locale: Locale = resolveLocale()): SuimmingTransactionError {
+  if (/reject|denied|cancel/i.test(message)) {
+    return fromCatalog(GENERIC_ERRORS.rejected, 'rejected', locale, null, cause);
+  }
+  if (/InsufficientGas|InsufficientCoinBalance|GasBalanceTooLow|No valid gas coins/i.test(message)) {
+    return fromCatalog(GENERIC_ERRORS.gas, 'gas', locale, null, cause);
+  }
+
+  const abort = parseMoveAbort(message);
+  if (abort) {
+    const entry = FRAMEWORK_ADDRESSES.has(abort.address) ? null : findAbortEntry(abort.module, abort.code);
+    return fromCatalog(entry ?? GENERIC_ERRORS.abort, 'abort', locale, abort, cause);
+  }
+
+  return fromCatalog(GENERIC_ERRORS.failure, 'failure', locale, null, cause);
+}
+
+/**
+ * Error for a transaction the player declined after seeing its preview
+ */
+export function declinedTransactionError(locale: Locale = resolveLocale()): SuimmingTransactionError {
+  return fromCatalog(GENERIC_ERRORS.declined, 'rejected', locale, null, null);
+}
+
+/**
+ * Turn anything thrown while signing or executing into a SuimmingTransactionError
+ * @param error Wallet, RPC or effects error
+ * @param locale Language for the player-facing message
+ */
+export function toTransactionError(error: unknown, locale: Locale = resolveLocale()): SuimmingTransactionError {
+  if (error instanceof SuimmingTransactionError) return error;
+  return decodeTransactionError(error instanceof Error ? error.message : String(error), error, locale);
+}
+
+/**
+ * Error for a failed execution or dry-run status
+ * @param status `effects.status` of an executed or dry-run transaction
+ * @returns The decoded error, or null if the transaction succeeded
+ */
+export function transactionErrorFromStatus(status: ExecutionStatus | undefined, locale: Locale = resolveLocale()): SuimmingTransactionError | null {
+  if (!status || status.status === 'success') return null;
+  return decodeTransactionError(status.error ?? 'Transaction failed', status, locale);
+}
@@ -0,0 +1,63 @@
+import type { SuiClient, SuiTransactionBlockResponse, SuiTransactionBlockResponseOptions } from '@mysten/sui/client';
+import type { Transaction } from '@mysten/sui/transactions';
+import { declinedTransactionError, toTransactionError, transactionErrorFromStatus } from './errors';
+import { previewTransaction, type TransactionPreview } from './preview';
+
+export type TransactionStage = 'previewing' | 'signing' | 'confirming' | 'success' | 'failure';
+
+export interface ExecuteTransactionOptions {
+  // Wallet (or sponsored) sign-and-execute; only the digest is used
+  signAndExecute: (transaction: Transaction) => Promise<{ digest: string }>;
+  onProgress?: (stage: TransactionStage) => void;
+  // Dry-run first: an abort blocks signing, and `confirm` lets the player review the preview
+  preview?: {
+    sender: string;
+    letters?: string[];
+    confirm?: (preview: TransactionPreview) => Promise<boolean>;
+  };
+}
+
+export const TRANSACTION_RESPONSE_OPTIONS: SuiTransactionBlockResponseOptions = {
+  showRawEffects: true,
+  showEffects: true,
+  showEvents: true,
+  showObjectChanges: true
+};
+
+/**
+ * Sign, execute and wait for a transaction's effects, optionally after a dry-run preview
+ * Aborted transactions still land on chain (and charge gas), so a failed status is thrown like any other error.
+ * @returns Indexed transaction with effects, events and object changes
+ * @throws SuimmingTransactionError with a player-facing message
+ */
+export async function executeTransaction(
+  suiClient: SuiClient,
+  transaction: Transaction,
+  { signAndExecute, onProgress, preview }: ExecuteTransactionOptions
+): Promise<SuiTransactionBlockResponse> {
+  try {
+    if (preview) {
+      onProgress?.('previewing');
+      const result = await previewTransaction(suiClient, transaction, preview.sender, preview.letters);
+      if (preview.confirm && !(await preview.confirm(result))) {
+        throw declinedTransactionError();
+      }
+    }
+
+    onProgress?.('signing');
+    const { digest } = await signAndExecute(transaction);
+
+    onProgress?.('confirming');
+    const result = await suiClient.waitForTransaction({ digest, options: TRANSACTION_RESPONSE_OPTIONS });
+    const failure = transactionErrorFromStatus(result.effects?.status);
+    if (failure) {
+      throw failure;
+    }
+
+    onProgress?.('success');
+    return result;
+  } catch (error) {
+    onProgress?.('failure');
+    throw toTransactionError(error);
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Suimming SDK
+ *
+ * Typed builders for the Suimming Move package's entry functions, plus a single
+ * execute helper that waits for effects and turns Move aborts into readable errors
+ * (see errorCatalog.ts for the localized messages per abort code).
+ *
+ * Usage:
+ * ```ts
+ * import * as suimming from '@/web3/suimming';
+ *
+ * const tx = new Transaction();
+ * suimming.checkpoint.claimLetters(tx, { checkpoint: checkpointId, profile: profileId });
+ * const result = await suimming.executeTransaction(suiClient, tx, { signAndExecute });
+ * ```
+ */
+
+export * as user from './user';
+export * as checkpoint from './checkpoint';
+export * as nft from './nft';
+export * as marketplace from './marketplace';
+
+export { SUIMMING_PACKAGE_ID, RANDOM_OBJECT_ID, SUIMMING_TYPES, SUIMMING_EVENTS, moveTarget, type SuimmingModule } from './config';
+export {
+  executeTransaction,
+  TRANSACTION_RESPONSE_OPTIONS,
+  type ExecuteTransactionOptions,
+  type TransactionStage
+} from './execute';
+export {
+  parseCheckpointObject,
+  parseCheckpointCreatedEvent,
+  parseNftListedEvent,
+  parseNftPurchasedEvent,
+  parseLettersClaimedEvent,
+  type CheckpointFields,
+  type MarketplaceEventFields,
+  type LettersClaimedFields
+} from './parse';
+export {
+  previewTransaction,
+  formatMist,
+  type TransactionPreview,
+  type PreviewObject
+} from './preview';
+export {
+  SuimmingTransactionError,
+  parseMoveAbort,
+  decodeTransactionError,
+  declinedTransactionError,
+  toTransactionError,
+  transactionErrorFromStatus,
+  type MoveAbortInfo,
+  type TransactionErrorKind
+} from './errors';
+export {
+  MOVE_ABORT_CATALOG,
+  MOVE_ABORT_MESSAGES,
+  GENERIC_ERRORS,
+  DEFAULT_LOCALE,
+  resolveLocale,
+  findAbortEntry,
+  type MoveAbortId,
+  type Locale,
+  type ErrorCopy,
+  type ErrorCatalogEntry
+} from './errorCatalog';
@@ -0,0 +1,73 @@
+import type { Transaction, TransactionObjectInput } from '@mysten/sui/transactions';
+import { moveTarget } from './config';
+
+const MIST_PER_SUI = 1_000_000_000;
+
+/**
+ * Convert a SUI amount to MIST
+ * @param sui Amount in SUI, e.g. "1.5"
+ */
+export function suiToMist(sui: string | number): bigint {
+  return BigInt(Math.floor(Number(sui) * MIST_PER_SUI));
+}
+
+export interface ListNftArgs {
+  marketplace: TransactionObjectInput;
+  nft: TransactionObjectInput;
+  priceMist: bigint;
+}
+
+/**
+ * marketplace::list_nft(marketplace: &mut Marketplace, nft: Sentence, price: u64)
+ */
+export function listNft(tx: Transaction, { marketplace, nft, priceMist }: ListNftArgs) {
+  return tx.moveCall({
+    target: moveTarget('marketplace', 'list_nft'),
+    arguments: [
+      tx.object(marketplace),
+      tx.object(nft),
+      tx.pure.u64(priceMist)
+    ]
+  });
+}
+
+export interface PurchaseNftArgs {
+  marketplace: TransactionObjectInput;
+  nftId: string;
+  priceMist: bigint; // split from the gas coin as payment
+}
+
+/**
+ * marketplace::purchase_nft(marketplace: &mut Marketplace, nft, payment: Coin<SUI>, nft_id: address)
+ */
+export function purchaseNft(tx: Transaction, { marketplace, nftId, priceMist }: PurchaseNftArgs) {
+  const [payment] = tx.splitCoins(tx.gas, [priceMist]);
+  return tx.moveCall({
+    target: moveTarget('marketplace', 'purchase_nft'),
+    arguments: [
+      tx.object(marketplace),
+      tx.object(nftId),
+      payment,
+      tx.pure.address(nftId)
+    ]
+  });
+}
+
+export interface DelistNftArgs {
+  marketplace: TransactionObjectInput;
+  nftId: string;
+}
+
+/**
+ * marketplace::delist_nft(marketplace: &mut Marketplace, nft, nft_id: address)
+ */
+export function delistNft(tx: Transaction, { marketplace, nftId }: DelistNftArgs) {
+  return tx.moveCall({
+    target: moveTarget('marketplace', 'delist_nft'),
+    arguments: [
+      tx.object(marketplace),
+      tx.object(nftId),
+      tx.pure.address(nftId)
+    ]
+  });
+}
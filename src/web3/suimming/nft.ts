@@ -0,0 +1,24 @@
+import type { Transaction, TransactionObjectInput } from '@mysten/sui/transactions';
+import { moveTarget } from './config';
+
+export interface MintSentenceArgs {
+  profile: TransactionObjectInput;
+  lettersUsed: string; // letters spent from the profile's letter bank
+  text: string;
+  blobId: string; // Walrus blob with the rendered sentence image
+}
+
+/**
+ * nft::mint_sentence_from_profile(profile: &mut UserProfile, letters_used: String, text: String, blob_id: String)
+ */
+export function mintSentenceFromProfile(tx: Transaction, { profile, lettersUsed, text, blobId }: MintSentenceArgs) {
+  return tx.moveCall({
+    target: moveTarget('nft', 'mint_sentence_from_profile'),
+    arguments: [
+      tx.object(profile),
+      tx.pure.string(lettersUsed),
+      tx.pure.string(text),
+      tx.pure.string(blobId)
+    ]
+  });
+}
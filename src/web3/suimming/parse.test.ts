@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import type { SuiEvent } from '@mysten/sui/client';
+import { parseNftListedEvent, parseNftPurchasedEvent } from '@/web3/suimming/parse';
+
+const NFT_ID = '0x5f0c4b3e9a1d7e2c6b8a0f1e3d5c7b9a2e4f6d8c0b1a3e5f7d9c2b4a6e8f0d1c';
+const SELLER = '0x7a2e9c4b1d3f5e8a0c6b2d4f6e8a1c3b5d7f9e0a2c4b6d8f1e3a5c7b9d0f2e4a';
+
+function suiEvent(type: string, parsedJson: unknown): SuiEvent {
+  return {
+    id: { txDigest: 'E3Hn5vVgRbT8q6sWQxv2mYf4c9JkLpZ1aN7dR0uC2eXo', eventSeq: '0' },
+    packageId: '0x1',
+    transactionModule: 'marketplace',
+    sender: SELLER,
+    type,
+    parsedJson,
+    bcs: '',
+    bcsEncoding: 'base64',
+    timestampMs: '1700000000000'
+  } as SuiEvent;
+}
+
+describe('parseNftListedEvent', () => {
+  it('reads the listing and its u64 price', () => {
+    const event = suiEvent('::marketplace::NFTListed', { nft_id: NFT_ID, seller: SELLER, price: '1500000000', text: 'HELLO SUI' });
+
+    expect(parseNftListedEvent(event)).toEqual({ nftId: NFT_ID, seller: SELLER, price: BigInt(1_500_000_000), text: 'HELLO SUI' });
+  });
+
+  it('rejects a payload without an NFT ID', () => {
+    expect(parseNftListedEvent(suiEvent('::marketplace::NFTListed', { seller: SELLER, price: '1' }))).toBeNull();
+  });
+});
+
+describe('parseNftPurchasedEvent', () => {
+  it('allows the seller and price to be left out', () => {
+    expect(parseNftPurchasedEvent(suiEvent('::marketplace::NFTPurchased', { nft_id: NFT_ID }))).toEqual({
+      nftId: NFT_ID,
+      seller: null,
+      price: null,
+      text: null
+    });
+  });
+
+  it('rejects prices that are not u64 values instead of throwing', () => {
+    for (const price of ['1.5', 'abc', -1, 0.5, { value: '1' }]) {
+      expect(parseNftPurchasedEvent(suiEvent('::marketplace::NFTPurchased', { nft_id: NFT_ID, price }))).toBeNull();
+    }
+  });
+});
@@ -0,0 +1,134 @@
+import type { SuiEvent, SuiParsedData } from '@mysten/sui/client';
+
+/**
+ * Fields of a checkpoint::Checkpoint object
+ */
+export interface CheckpointFields {
+  label: string;
+  active: boolean;
+  metaWalrusId: string; // Walrus blob holding the checkpoint metadata JSON
+  sealRef: string;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function stringField(fields: Record<string, unknown>, name: string): string {
+  const value = fields[name];
+  return typeof value === 'string' ? value : '';
+}
+
+/**
+ * Read a Checkpoint object's fields from its JSON-RPC content
+ * @param content `data.content` of a getObject/multiGetObjects response (needs showContent)
+ * @returns Fields, or null if the content is not a Move object
+ */
+export function parseCheckpointObject(content: SuiParsedData | null | undefined): CheckpointFields | null {
+  if (content?.dataType !== 'moveObject' || !isRecord(content.fields)) return null;
+
+  const fields: Record<string, unknown> = content.fields;
+  return {
+    label: stringField(fields, 'label'),
+    active: fields.active === true,
+    metaWalrusId: stringField(fields, 'meta_walrus_id'),
+    sealRef: stringField(fields, 'seal_ref')
+  };
+}
+
+/**
+ * Checkpoint ID announced by a checkpoint::CheckpointCreated event
+ * @returns Object ID, or null if the payload has none
+ */
+export function parseCheckpointCreatedEvent(event: SuiEvent): string | null {
+  const data = event.parsedJson;
+  return isRecord(data) && typeof data.checkpoint === 'string' ? data.checkpoint : null;
+}
+
+/**
+ * Fields of a marketplace::NFTListed or marketplace::NFTPurchased event
+ */
+export interface MarketplaceEventFields {
+  nftId: string;
+  seller: string | null; // purchase events may not repeat it
+  price: bigint | null; // MIST
+  text: string | null;
+}
+
+// u64 values arrive as decimal strings in parsedJson
+function u64Field(fields: Record<string, unknown>, name: string): bigint | null | undefined {
+  const value = fields[name];
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'string' && /^\d+$/.test(value)) return BigInt(value);
+  if (typeof value === 'number' && Number.isSafeInteger(value) && value >= 0) return BigInt(value);
+  return undefined; // present but not a u64
+}
+
+function parseMarketplaceEvent(event: SuiEvent): MarketplaceEventFields | null {
+  const data = event.parsedJson;
+  if (!isRecord(data) || typeof data.nft_id !== 'string') return null;
+
+  const price = u64Field(data, 'price');
+  if (price === undefined) return null;
+
+  return {
+    nftId: data.nft_id,
+    seller: typeof data.seller === 'string' ? data.seller : null,
+    price,
+    text: typeof data.text === 'string' && data.text ? data.text : null
+  };
+}
+
+/**
+ * Listing announced by a marketplace::NFTListed event
+ * @returns Fields, or null if the payload has no NFT ID or an unreadable price
+ */
+export function parseNftListedEvent(event: SuiEvent): MarketplaceEventFields | null {
+  return parseMarketplaceEvent(event);
+}
+
+/**
+ * Sale announced by a marketplace::NFTPurchased event
+ * @returns Fields, or null if the payload has no NFT ID or an unreadable price
+ */
+export function parseNftPurchasedEvent(event: SuiEvent): MarketplaceEventFields | null {
+  return parseMarketplaceEvent(event);
+}
+
+/**
+ * Fields of a checkpoint::LettersClaimed event
+ * The claimer is the event's sender, so it is not read from the payload.
+ */
+export interface LettersClaimedFields {
+  checkpointId: string;
+  profileId: string | null;
+  letters: string[];
+  epoch: string | null; // u64 as a decimal string
+}
+
+// Letters are vector<u8> ASCII codes or vector<String>, depending on how the package encodes them
+function isLetterList(value: unknown): value is (string | number)[] {
+  return Array.isArray(value) && value.every(letter => typeof letter === 'string' || typeof letter === 'number');
+}
+
+/**
+ * Claim announced by a checkpoint::LettersClaimed event
+ * Field names follow the event struct: `checkpoint` (as in CheckpointCreated), `user_profile`, `letters`, `epoch`.
+ * @returns Fields, or null if the payload has no checkpoint ID
+ */
+export function parseLettersClaimedEvent(event: SuiEvent): LettersClaimedFields | null {
+  const data = event.parsedJson;
+  if (!isRecord(data) || typeof data.checkpoint !== 'string') return null;
+
+  const letters = isLetterList(data.letters)
+    ? data.letters.map(letter => (typeof letter === 'number' ? String.fromCharCode(letter) : letter)).filter(letter => letter.length > 0)
+    : [];
+  const epoch = data.epoch;
+
+  return {
+    checkpointId: data.checkpoint,
+    profileId: typeof data.user_profile === 'string' ? data.user_profile : null,
+    letters,
+    epoch: typeof epoch === 'string' || typeof epoch === 'number' ? String(epoch) : null
+  };
+}
@@ -0,0 +1,123 @@
+import type { BalanceChange, ObjectOwner, SuiClient, SuiObjectChange, TransactionEffects } from '@mysten/sui/client';
+import { Transaction } from '@mysten/sui/transactions';
+import { normalizeStructTag, normalizeSuiAddress, SUI_TYPE_ARG } from '@mysten/sui/utils';
+import { decodeTransactionError, toTransactionError, transactionErrorFromStatus } from './errors';
+
+export interface PreviewObject {
+  objectId: string;
+  objectType: string;
+  recipient: string | null; // new owner address, null for shared/immutable/object-owned
+}
+
+/**
+ * What a transaction will do, from a dry run against current chain state
+ */
+export interface TransactionPreview {
+  gasMist: bigint; // computation + storage - rebate
+  suiOutMist: bigint | null; // SUI leaving the sender's wallet including gas; null when unknown
+  created: PreviewObject[];
+  transferred: PreviewObject[]; // existing objects changing hands
+  letters: string[]; // letters consumed from the letter bank, as declared by the caller
+}
+
+const MIST_PER_SUI = BigInt(1_000_000_000);
+
+/**
+ * Format a MIST amount as SUI for display
+ * @param mist Amount in MIST
+ * @param decimals Fraction digits to keep (trailing zeros are dropped)
+ */
+export function formatMist(mist: bigint, decimals = 6): string {
+  const sign = mist < BigInt(0) ? '-' : '';
+  const absolute = mist < BigInt(0) ? -mist : mist;
+  const whole = absolute / MIST_PER_SUI;
+  const fraction = (absolute % MIST_PER_SUI).toString().padStart(9, '0').slice(0, decimals).replace(/0+$/, '');
+  return `${sign}${whole}${fraction ? `.${fraction}` : ''} SUI`;
+}
+
+function gasFromEffects(effects: TransactionEffects): bigint {
+  const { computationCost, storageCost, storageRebate } = effects.gasUsed;
+  return BigInt(computationCost) + BigInt(storageCost) - BigInt(storageRebate);
+}
+
+function ownerAddress(owner: ObjectOwner): string | null {
+  return typeof owner === 'object' && owner !== null && 'AddressOwner' in owner ? owner.AddressOwner : null;
+}
+
+function suiSpent(balanceChanges: BalanceChange[], sender: string): bigint {
+  const suiType = normalizeStructTag(SUI_TYPE_ARG);
+  return balanceChanges
+    .filter(change => normalizeStructTag(change.coinType) === suiType && ownerAddress(change.owner) === sender)
+    .reduce((total, change) => total - BigInt(change.amount), BigInt(0));
+}
+
+function summarizeObjects(objectChanges: SuiObjectChange[]): Pick<TransactionPreview, 'created' | 'transferred'> {
+  const created: PreviewObject[] = [];
+  const transferred: PreviewObject[] = [];
+
+  objectChanges.forEach(change => {
+    if (change.type === 'created') {
+      created.push({ objectId: change.objectId, objectType: change.objectType, recipient: ownerAddress(change.owner) });
+    } else if (change.type === 'transferred') {
+      transferred.push({ objectId: change.objectId, objectType: change.objectType, recipient: ownerAddress(change.recipient) });
+    }
+  });
+  return { created, transferred };
+}
+
+/**
+ * Dry-run a transaction to preview its effects before asking the wallet to sign
+ *
+ * Senders without gas coins (sponsored zkLogin players) can't build a full transaction,
+ * so those fall back to devInspect, which reports gas and aborts but no balance or object changes.
+ * The transaction passed in is left untouched.
+ * @param suiClient Client to dry-run against
+ * @param transaction Transaction to preview
+ * @param sender Address that will sign
+ * @param letters Letters the transaction consumes, shown in the preview
+ * @throws SuimmingTransactionError if the dry run aborts
+ */
+export async function previewTransaction(
+  suiClient: SuiClient,
+  transaction: Transaction,
+  sender: string,
+  letters: string[] = []
+): Promise<TransactionPreview> {
+  const candidate = Transaction.from(transaction);
+  candidate.setSenderIfNotSet(sender);
+
+  let bytes: Uint8Array | null = null;
+  try {
+    // Building estimates the gas budget with a dry run, so aborts already surface here
+    bytes = await candidate.build({ client: suiClient });
+  } catch (error) {
+    const decoded = toTransactionError(error);
+    if (decoded.kind !== 'gas') throw decoded;
+  }
+
+  if (bytes) {
+    const dryRun = await suiClient.dryRunTransactionBlock({ transactionBlock: bytes });
+    const failure = transactionErrorFromStatus(dryRun.effects.status);
+    if (failure) throw failure;
+
+    return {
+      gasMist: gasFromEffects(dryRun.effects),
+      suiOutMist: suiSpent(dryRun.balanceChanges, normalizeSuiAddress(sender)),
+      ...summarizeObjects(dryRun.objectChanges),
+      letters
+    };
+  }
+
+  const inspection = await suiClient.devInspectTransactionBlock({ sender, transactionBlock: candidate });
+  if (inspection.error) throw decodeTransactionError(inspection.error);
+  const failure = transactionErrorFromStatus(inspection.effects.status);
+  if (failure) throw failure;
+
+  return {
+    gasMist: gasFromEffects(inspection.effects),
+    suiOutMist: null,
+    created: [],
+    transferred: [],
+    letters
+  };
+}
@@ -0,0 +1,29 @@
+import type { Transaction, TransactionObjectInput } from '@mysten/sui/transactions';
+import { moveTarget } from './config';
+
+/**
+ * user::create_profile() — mints a UserProfile for the sender
+ */
+export function createProfile(tx: Transaction) {
+  return tx.moveCall({ target: moveTarget('user', 'create_profile') });
+}
+
+export interface UpdateProfileArgs {
+  profile: TransactionObjectInput;
+  displayName?: string | null; // null/undefined leaves the field unchanged
+  bio?: string | null;
+}
+
+/**
+ * user::update_profile(profile: &mut UserProfile, display_name: Option<String>, bio: Option<String>)
+ */
+export function updateProfile(tx: Transaction, { profile, displayName, bio }: UpdateProfileArgs) {
+  return tx.moveCall({
+    target: moveTarget('user', 'update_profile'),
+    arguments: [
+      tx.object(profile),
+      tx.pure.option('string', displayName ?? null),
+      tx.pure.option('string', bio ?? null)
+    ]
+  });
+}
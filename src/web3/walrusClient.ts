@@ -236,15 +236,15 @@ export class WalrusClientManager {
 
   /**
    * Check if a blob exists
+   * @returns False only when the aggregator says the blob is not there
+   * @throws Error when the aggregator can't be reached or fails, so callers can retry later
    */
   async blobExists(blobId: string): Promise<boolean> {
-    try {
-      const url = `${this.aggregatorUrl}/v1/blobs/${blobId}`;
-      const response = await fetch(url, { method: 'HEAD' });
-      return response.ok;
-    } catch (error) {
-      return false;
-    }
+    const url = `${this.aggregatorUrl}/v1/blobs/${blobId}`;
+    const response = await fetch(url, { method: 'HEAD' });
+    if (response.ok) return true;
+    if (response.status === 404) return false;
+    throw new Error(`Walrus aggregator responded ${response.status}`);
   }
 
   /**